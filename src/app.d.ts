@@ -7,6 +7,10 @@ declare module 'svelte-kit-sessions' {
 			provider: string;
 			access_token: string;
 			refresh_token?: string;
+			/** Epoch ms, when the token response included expires_in */
+			access_token_expires_at?: number;
+			/** Kept as id_token_hint for RP-initiated logout */
+			id_token?: string;
 		};
 		user?: {
 			user_id: string;
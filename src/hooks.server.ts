@@ -1,16 +1,26 @@
 import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('HooksServer');
 import type { Handle } from '@sveltejs/kit';
+import { dev } from '$app/environment';
 import { error, redirect } from '@sveltejs/kit';
 import { sequence } from '@sveltejs/kit/hooks';
 import { sveltekitSessionHandle } from 'svelte-kit-sessions';
 import RedisStore from 'svelte-kit-connect-redis';
 
+import { readFileSync } from 'node:fs';
 import { env } from '$env/dynamic/private';
 import { createOBPRequests } from '$lib/obp/requests';
+import { createOBPClient } from '$lib/obp/client';
+import { MemoryCacheStore } from '$lib/obp/responseCache';
+import { RedisResponseCacheStore } from '$lib/server/obp/RedisResponseCacheStore';
 import { OAuth2ProviderManager } from '$lib/server/oauth/providerManager';
 import { OAuth2ProviderFactory, OBPOIDCStrategy } from '$lib/server/oauth/providerFactory';
-import { SessionOAuthHelper } from '$lib/server/oauth/sessionHelper';
+import { oidcStrategiesFromConfig } from '$lib/server/oauth/oidcProviders';
+import { SessionOAuthHelper, RefreshTokenRejectedError } from '$lib/server/oauth/sessionHelper';
+import { RedisRefreshLock } from '$lib/server/oauth/refreshLock';
+import { TokenVerificationError } from '$lib/server/oauth/tokenVerifier';
+import { RedisOIDCSessionIndex } from '$lib/server/oauth/sessionIndex';
+import { originCheckHandle } from '$lib/server/oauth/originCheck';
 import { HealthCheckRegistry } from '$lib/health-check/HealthCheckRegistry';
 import { PUBLIC_OBP_BASE_URL } from '$env/static/public';
 
@@ -32,6 +42,17 @@ function checkServerPort() {
 	}
 }
 
+// Read an optional non-negative integer setting, failing startup on anything else
+function integerFromEnv(name: string): number | undefined {
+	const value = env[name];
+	if (!value) return undefined;
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed < 0) {
+		throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+	}
+	return parsed;
+}
+
 // Startup scripts
 checkServerPort();
 
@@ -43,31 +64,96 @@ const redisService = new RedisService({
 });
 const redisClient = redisService.getClient();
 
-// Init OAuth2 provider factory with OBP-OIDC strategy
+// Init OAuth2 provider factory with OBP-OIDC and any providers configured in
+// OIDC_PROVIDERS (JSON) or OIDC_PROVIDERS_FILE (path to a JSON file)
+const oidcProvidersConfig = env.OIDC_PROVIDERS_FILE
+	? readFileSync(env.OIDC_PROVIDERS_FILE, 'utf8')
+	: env.OIDC_PROVIDERS;
+const configuredStrategies = oidcProvidersConfig
+	? oidcStrategiesFromConfig(oidcProvidersConfig, {
+			env,
+			defaultCallbackUrl: (provider) =>
+				`${env.ORIGIN || `http://localhost:${DEFAULT_PORT}`}/login/${provider}/callback`
+		})
+	: [];
 const oauth2ProviderFactory = new OAuth2ProviderFactory([
-	new OBPOIDCStrategy({
-		clientId: env.OBP_OAUTH_CLIENT_ID || '',
-		clientSecret: env.OBP_OAUTH_CLIENT_SECRET || '',
-		callbackUrl: env.APP_CALLBACK_URL || `http://localhost:${DEFAULT_PORT}/login/obp/callback`
-	})
+	...configuredStrategies,
+	// A configured obp-oidc entry replaces the default one
+	...(configuredStrategies.some((strategy) => strategy.supports('obp-oidc'))
+		? []
+		: [
+				new OBPOIDCStrategy({
+					clientId: env.OBP_OAUTH_CLIENT_ID || '',
+					clientSecret: env.OBP_OAUTH_CLIENT_SECRET || '',
+					callbackUrl:
+						env.APP_CALLBACK_URL || `http://localhost:${DEFAULT_PORT}/login/obp/callback`
+				})
+			])
 ]);
 
+// Opt-in GET response cache: OBP_RESPONSE_CACHE=memory|redis
+const obpResponseCacheStore =
+	env.OBP_RESPONSE_CACHE === 'redis'
+		? new RedisResponseCacheStore({ redisService })
+		: env.OBP_RESPONSE_CACHE === 'memory'
+			? new MemoryCacheStore()
+			: undefined;
+const obpRequestTimeoutMs = integerFromEnv('OBP_REQUEST_TIMEOUT_MS');
+const obpRequestMaxRetries = integerFromEnv('OBP_REQUEST_MAX_RETRIES');
+const obpResponseCacheTtlMs = integerFromEnv('OBP_RESPONSE_CACHE_TTL_MS');
+const obpRequests = createOBPRequests(
+	PUBLIC_OBP_BASE_URL,
+	{
+		...(obpRequestTimeoutMs !== undefined && { timeoutMs: obpRequestTimeoutMs }),
+		...(obpRequestMaxRetries !== undefined && { maxRetries: obpRequestMaxRetries })
+	},
+	obpResponseCacheStore && {
+		store: obpResponseCacheStore,
+		...(obpResponseCacheTtlMs !== undefined && { ttlMs: obpResponseCacheTtlMs })
+	}
+);
+const obpClient = createOBPClient(obpRequests, { apiVersion: env.OBP_API_VERSION || undefined });
+
 // Init OAuth2 provider manager
-const obpRequests = createOBPRequests(PUBLIC_OBP_BASE_URL);
-const oauth2ProviderManager = new OAuth2ProviderManager(oauth2ProviderFactory, obpRequests);
+const oauth2ProviderManager = new OAuth2ProviderManager(oauth2ProviderFactory, obpClient);
+
+// Init session OAuth helper. Tokens are refreshed OAUTH_REFRESH_SKEW_SECONDS before they
+// expire, under a Redis lock so concurrent requests and instances spend a refresh token once.
+const sessionOAuthHelper = new SessionOAuthHelper(oauth2ProviderFactory, {
+	refreshLock: new RedisRefreshLock({ redisService }),
+	...(env.OAUTH_REFRESH_SKEW_SECONDS && {
+		refreshSkewSeconds: parseInt(env.OAUTH_REFRESH_SKEW_SECONDS)
+	})
+});
 
-// Init session OAuth helper
-const sessionOAuthHelper = new SessionOAuthHelper(oauth2ProviderFactory);
+// OBP rejecting a token before its known expiry (or one without any) makes its session refresh
+obpRequests.use({
+	async afterResponse({ request, response }) {
+		const authorization = request.headers['Authorization'];
+		if (response.status === 401 && authorization?.startsWith('Bearer ')) {
+			await sessionOAuthHelper.markAccessTokenRejected(authorization.slice('Bearer '.length));
+		}
+	}
+});
+
+// Session store, shared with back-channel logout to destroy other users' sessions
+const sessionStore = new RedisStore({
+	client: redisClient,
+	prefix: 'obp-portal-session:'
+});
+
+// Maps the provider's sid/sub to session IDs for back-channel logout
+const oidcSessionIndex = new RedisOIDCSessionIndex({ redisService });
 
 // Export singletons for use in route handlers
-export { oauth2ProviderFactory, oauth2ProviderManager, sessionOAuthHelper, obpRequests, healthCheckRegistry };
+export { oauth2ProviderFactory, oauth2ProviderManager, sessionOAuthHelper, sessionStore, oidcSessionIndex, obpRequests, obpClient, healthCheckRegistry, redisService };
 
 const healthCheckRegistry = new HealthCheckRegistry();
 
 function initHealthChecks() {
 	healthCheckRegistry.register({
 		serviceName: 'OBP API',
-		url: `${PUBLIC_OBP_BASE_URL}/obp/v5.1.0/root`
+		url: `${PUBLIC_OBP_BASE_URL}${obpClient.path('/root')}`
 	});
 
 	if (env.OPEY_BASE_URL) {
@@ -109,24 +195,21 @@ const checkSessionValidity: Handle = async ({ event, resolve }) => {
 			throw redirect(302, event.url.pathname);
 		}
 
-		const sessionExpired = await sessionOAuth.client.checkAccessTokenExpiration(
-			sessionOAuth.accessToken
-		);
-		if (sessionExpired) {
-			logger.info(`Access token expired for ${username} (${session.id}) on ${routePath}. Attempting refresh...`);
-			try {
-				await sessionOAuthHelper.refreshAccessToken(session);
-				logger.info(`Token refreshed successfully for ${username} (${session.id})`);
-				return await resolve(event);
-			} catch (error) {
-				logger.info(
-					`Token refresh failed for ${username} (${session.id}) on ${routePath}:`,
-					error
-				);
+		try {
+			if (await sessionOAuthHelper.ensureFreshAccessToken(session)) {
+				logger.info(`Token refreshed for ${username} (${session.id}) on ${routePath}`);
+			}
+		} catch (error) {
+			if (error instanceof TokenVerificationError) {
+				logger.warn(`Access token for ${username} (${session.id}) failed verification on ${routePath}. Destroying session.`, error);
+			} else if (error instanceof RefreshTokenRejectedError) {
+				logger.info(`Refresh token for ${username} (${session.id}) was rejected on ${routePath}. Destroying session.`);
+			} else {
+				logger.info(`Token refresh failed for ${username} (${session.id}) on ${routePath}:`, error);
 				logger.info(`Destroying expired session for ${username} (${session.id})`);
-				await session.destroy();
-				throw redirect(302, event.url.pathname);
 			}
+			await session.destroy();
+			throw redirect(302, event.url.pathname);
 		}
 
 		logger.debug(`Session valid for ${username} (${session.id}) on ${routePath}`);
@@ -188,13 +271,12 @@ const transformHTML: Handle = async ({ event, resolve }) => {
 
 // Init SvelteKitSessions
 export const handle: Handle = sequence(
+	// SvelteKit's CSRF check, minus back-channel logout (see svelte.config.js)
+	originCheckHandle({ enabled: !dev }),
 	sveltekitSessionHandle({
 		name: 'obp-portal-connect.sid',
 		secret: 'secret',
-		store: new RedisStore({
-			client: redisClient,
-			prefix: 'obp-portal-session:'
-		})
+		store: sessionStore
 	}),
 	checkSessionValidity,
 	checkAuthorization,
@@ -222,6 +304,10 @@ declare module 'svelte-kit-sessions' {
 		oauth?: {
 			access_token: string;
 			refresh_token?: string;
+			/** Epoch ms, when the token response included expires_in */
+			access_token_expires_at?: number;
+			/** Kept as id_token_hint for RP-initiated logout */
+			id_token?: string;
 			provider: string;
 		};
 	}
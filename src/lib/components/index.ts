@@ -1,6 +1,9 @@
 export { default as OpeyChat } from './OpeyChat.svelte';
 export type { OpeyChatOptions, SuggestedQuestion } from './OpeyChat.svelte';
 export { default as ChatMessage } from './ChatMessage.svelte';
+export { default as ChatThreadSidebar } from './ChatThreadSidebar.svelte';
+export { default as OutboxMessage } from './OutboxMessage.svelte';
+export { default as RoleConsentIndicator } from './RoleConsentIndicator.svelte';
 export { default as ConsentCard } from './ConsentCard.svelte';
 export { default as LegalDocumentModal } from './LegalDocumentModal.svelte';
 export { default as LightSwitch } from './LightSwitch.svelte';
@@ -2,6 +2,9 @@
 export {
 	OpeyChat,
 	ChatMessage,
+	ChatThreadSidebar,
+	OutboxMessage,
+	RoleConsentIndicator,
 	ConsentCard,
 	LegalDocumentModal,
 	LightSwitch,
@@ -15,11 +18,11 @@ export {
 } from './components/index.js';
 
 // OBP API
-export { OBPRequests, createOBPRequests } from './obp/index.js';
-export { OBPErrorBase, OBPRequestError, OBPRateLimitError, OBPTimeoutError } from './obp/index.js';
+export { OBPRequests, createOBPRequests, OBPClient, createOBPClient } from './obp/index.js';
+export { OBPErrorBase, OBPRequestError, OBPRateLimitError, OBPTimeoutError, OBPCircuitOpenError } from './obp/index.js';
 
 // Opey
-export { ChatController, SessionController, ChatState, SessionState, RestChatService, OpeySessionService, CookieAuthStrategy } from './opey/index.js';
+export { ChatController, SessionController, ChatState, SessionState, RestChatService, WebSocketChatService, OpeySessionService, ChatHistoryController, LocalStorageChatHistoryStore, IndexedDBChatHistoryStore, ServerChatHistoryStore, ServerApprovalAuditLog, RoleConsentService, EntitlementRequestService, CookieAuthStrategy } from './opey/index.js';
 
 // Utils
 export { createLogger, toaster, toast, getLegalMarkdownFromWebUIProps, extractUsernameFromJWT } from './utils/index.js';
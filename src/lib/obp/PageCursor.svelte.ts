@@ -0,0 +1,39 @@
+import { DEFAULT_PAGE_SIZE, type OBPPage } from '$lib/obp/pagination';
+
+/**
+ * Accumulates pages for infinite scroll. Give it a function that loads one page,
+ * e.g. from a host app route that calls `obpRequests.getPage()`, and call
+ * `loadMore()` whenever the end of the list comes into view.
+ */
+export class PageCursor<T> {
+	items = $state<T[]>([]);
+	hasMore = $state(true);
+	loading = $state(false);
+	private offset = 0;
+
+	constructor(
+		private fetchPage: (offset: number, limit: number) => Promise<OBPPage<T>>,
+		private pageSize: number = DEFAULT_PAGE_SIZE
+	) {}
+
+	/** Load the next page, unless one is already loading or the list is exhausted. */
+	async loadMore(): Promise<T[]> {
+		if (this.loading || !this.hasMore) return [];
+		this.loading = true;
+		try {
+			const page = await this.fetchPage(this.offset, this.pageSize);
+			this.items = [...this.items, ...page.items];
+			this.offset = page.nextOffset;
+			this.hasMore = page.hasMore;
+			return page.items;
+		} finally {
+			this.loading = false;
+		}
+	}
+
+	reset(): void {
+		this.items = [];
+		this.offset = 0;
+		this.hasMore = true;
+	}
+}
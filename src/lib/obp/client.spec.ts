@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OBPClient } from './client';
+import type { OBPRequests } from './requests';
+
+function fakeRequests(response: any = {}) {
+	return {
+		get: vi.fn().mockResolvedValue(response),
+		post: vi.fn().mockResolvedValue(response),
+		put: vi.fn().mockResolvedValue(response),
+		delete: vi.fn().mockResolvedValue(response)
+	};
+}
+
+describe('OBPClient', () => {
+	it('builds versioned paths and unwraps list responses', async () => {
+		const requests = fakeRequests({ banks: [{ bank_id: 'gh.29.uk' }] });
+		const obp = new OBPClient(requests as unknown as OBPRequests);
+
+		await expect(obp.banks.list()).resolves.toEqual([{ bank_id: 'gh.29.uk' }]);
+		expect(requests.get).toHaveBeenCalledWith('/obp/v5.1.0/banks', undefined);
+	});
+
+	it('uses the configured API version and encodes path segments', async () => {
+		const requests = fakeRequests();
+		const obp = new OBPClient(requests as unknown as OBPRequests, { apiVersion: 'v6.0.0' });
+
+		await obp.apiCollections.removeEndpoint('c/1', 'OBPv4.0.0-getBanks', 'token');
+		expect(requests.delete).toHaveBeenCalledWith(
+			'/obp/v6.0.0/my/api-collections/c%2F1/api-collection-endpoints/OBPv4.0.0-getBanks',
+			'token'
+		);
+		expect(obp.path('/roles')).toBe('/obp/v6.0.0/roles');
+	});
+
+	it('returns an empty list when OBP omits the collection', async () => {
+		const obp = new OBPClient(fakeRequests() as unknown as OBPRequests);
+		await expect(obp.consents.mine('token')).resolves.toEqual([]);
+	});
+});
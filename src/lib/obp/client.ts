@@ -0,0 +1,56 @@
+import { OBPRequests } from '$lib/obp/requests';
+import { BanksResource } from '$lib/obp/resources/banks';
+import { ConsentsResource } from '$lib/obp/resources/consents';
+import { EntitlementsResource } from '$lib/obp/resources/entitlements';
+import { ApiCollectionsResource } from '$lib/obp/resources/apiCollections';
+import { ProductsResource } from '$lib/obp/resources/products';
+import { AccountApplicationsResource } from '$lib/obp/resources/accountApplications';
+
+export const DEFAULT_OBP_API_VERSION = 'v5.1.0';
+
+export interface OBPClientOptions {
+	/** OBP API version used in every resource path, e.g. 'v5.1.0' */
+	apiVersion?: string;
+}
+
+/**
+ * Typed, resource-oriented access to the OBP API, e.g. `obp.banks.list()` or
+ * `obp.consents.mine(token)`. Endpoints without a resource module are still
+ * reachable through `obp.requests`.
+ */
+export class OBPClient {
+	readonly apiVersion: string;
+	readonly banks: BanksResource;
+	readonly consents: ConsentsResource;
+	readonly entitlements: EntitlementsResource;
+	readonly apiCollections: ApiCollectionsResource;
+	readonly products: ProductsResource;
+	readonly accountApplications: AccountApplicationsResource;
+
+	constructor(
+		readonly requests: OBPRequests,
+		options: OBPClientOptions = {}
+	) {
+		this.apiVersion = options.apiVersion ?? DEFAULT_OBP_API_VERSION;
+		this.banks = new BanksResource(requests, this.apiVersion);
+		this.consents = new ConsentsResource(requests, this.apiVersion);
+		this.entitlements = new EntitlementsResource(requests, this.apiVersion);
+		this.apiCollections = new ApiCollectionsResource(requests, this.apiVersion);
+		this.products = new ProductsResource(requests, this.apiVersion);
+		this.accountApplications = new AccountApplicationsResource(requests, this.apiVersion);
+	}
+
+	/** Versioned path for endpoints without a resource module, e.g. `obp.path('/roles')` */
+	path(endpoint: string): string {
+		return `/obp/${this.apiVersion}${endpoint}`;
+	}
+}
+
+export function createOBPClient(
+	requestsOrBaseUrl: OBPRequests | string,
+	options?: OBPClientOptions
+): OBPClient {
+	const requests =
+		typeof requestsOrBaseUrl === 'string' ? new OBPRequests(requestsOrBaseUrl) : requestsOrBaseUrl;
+	return new OBPClient(requests, options);
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { describeObpError, isConsentRequired, isRateLimitError } from './errorCatalogue';
+import { OBPRateLimitError, OBPRequestError } from './errors';
+
+describe('describeObpError', () => {
+	it('explains known OBP error codes', () => {
+		const described = describeObpError(
+			new OBPRequestError(403, 'OBP-20006: User is missing one or more roles: CanCreateBank')
+		);
+		expect(described).toMatchObject({
+			category: 'permission',
+			title: 'Missing role',
+			obpErrorCode: 'OBP-20006',
+			status: 403
+		});
+	});
+
+	it('falls back by code range, then HTTP status', () => {
+		expect(
+			describeObpError({ code: 401, message: 'OBP-35010: Consent is not active' }).category
+		).toBe('consent_required');
+		expect(describeObpError({ code: 404, message: 'Nothing here' }).category).toBe('not_found');
+		expect(describeObpError('something odd').category).toBe('unknown');
+	});
+
+	it('accepts JSON strings and client-side errors', () => {
+		expect(isConsentRequired('{"code":400,"message":"OBP-35001: Consent not found"}')).toBe(true);
+		expect(isRateLimitError(new OBPRateLimitError('Rate limit exceeded', 10))).toBe(true);
+	});
+});
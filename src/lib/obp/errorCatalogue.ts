@@ -0,0 +1,238 @@
+export type OBPErrorCategory =
+	| 'auth'
+	| 'permission'
+	| 'validation'
+	| 'not_found'
+	| 'rate_limit'
+	| 'consent_required'
+	| 'server'
+	| 'unknown';
+
+export interface OBPErrorCatalogueEntry {
+	category: OBPErrorCategory;
+	/** Short heading for UIs */
+	title: string;
+	/** What went wrong, in plain language */
+	explanation: string;
+	/** What the user can do about it */
+	action: string;
+}
+
+export interface OBPErrorDescription extends OBPErrorCatalogueEntry {
+	/** OBP error code such as 'OBP-20006', when the error carried one */
+	obpErrorCode?: string;
+	/** HTTP status, when known */
+	status?: number;
+	/** The raw message OBP or the client produced */
+	message: string;
+}
+
+/** Known OBP error codes. Codes missing here fall back to their range, then the HTTP status. */
+export const OBP_ERROR_CATALOGUE: Record<string, OBPErrorCatalogueEntry> = {
+	'OBP-10001': {
+		category: 'validation',
+		title: 'Invalid request body',
+		explanation: 'OBP could not read the JSON sent with the request.',
+		action: 'Check the request body against the endpoint documentation and try again.'
+	},
+	'OBP-10005': {
+		category: 'validation',
+		title: 'Invalid date',
+		explanation: 'A date in the request is not in a format OBP accepts.',
+		action: 'Use ISO 8601 dates, e.g. 2024-01-31T00:00:00Z.'
+	},
+	'OBP-10018': {
+		category: 'rate_limit',
+		title: 'Too many requests',
+		explanation: 'The rate limit for this consumer has been reached.',
+		action: 'Wait a moment before trying again.'
+	},
+	'OBP-20001': {
+		category: 'auth',
+		title: 'Not logged in',
+		explanation: 'This request needs an authenticated user, and the session has none.',
+		action: 'Log in again and retry.'
+	},
+	'OBP-20005': {
+		category: 'not_found',
+		title: 'User not found',
+		explanation: 'No user exists with the given USER_ID.',
+		action: 'Check the user ID.'
+	},
+	'OBP-20006': {
+		category: 'permission',
+		title: 'Missing role',
+		explanation: 'Your user lacks one or more roles (entitlements) this endpoint requires.',
+		action: 'Request the missing entitlement, or ask an administrator to grant it.'
+	},
+	'OBP-30001': {
+		category: 'not_found',
+		title: 'Bank not found',
+		explanation: 'No bank exists with the given BANK_ID.',
+		action: 'Check the bank ID, or pick a bank from the list of banks.'
+	},
+	'OBP-30005': {
+		category: 'not_found',
+		title: 'View not found',
+		explanation: 'The account has no view with the given VIEW_ID.',
+		action: 'Check the view ID, e.g. owner.'
+	},
+	'OBP-35001': {
+		category: 'consent_required',
+		title: 'Consent not found',
+		explanation: 'The consent used for this request does not exist or has been revoked.',
+		action: 'Grant a new consent and retry.'
+	},
+	'OBP-50000': {
+		category: 'server',
+		title: 'OBP error',
+		explanation: 'OBP failed with an unexpected error.',
+		action: 'Try again later. If it keeps happening, contact the OBP administrator.'
+	}
+};
+
+/** Fallbacks by code range, keyed by the first digits of the number after 'OBP-' */
+const RANGE_FALLBACKS: [prefix: string, entry: OBPErrorCatalogueEntry][] = [
+	[
+		'35',
+		{
+			category: 'consent_required',
+			title: 'Consent required',
+			explanation: 'The request needs a valid consent, and the one provided is missing or invalid.',
+			action: 'Grant consent and retry.'
+		}
+	],
+	[
+		'5',
+		{
+			category: 'server',
+			title: 'OBP error',
+			explanation: 'OBP failed while handling the request.',
+			action: 'Try again later.'
+		}
+	]
+];
+
+const STATUS_FALLBACKS: Record<number, OBPErrorCatalogueEntry> = {
+	400: {
+		category: 'validation',
+		title: 'Invalid request',
+		explanation: 'OBP rejected the request as invalid.',
+		action: 'Check the request parameters and body.'
+	},
+	401: {
+		category: 'auth',
+		title: 'Authentication required',
+		explanation: 'OBP did not accept the credentials for this request.',
+		action: 'Log in again and retry.'
+	},
+	403: {
+		category: 'permission',
+		title: 'Not allowed',
+		explanation: 'Your user is not allowed to do this.',
+		action: 'Ask an administrator for access.'
+	},
+	404: {
+		category: 'not_found',
+		title: 'Not found',
+		explanation: 'OBP could not find what the request refers to.',
+		action: 'Check the IDs in the request.'
+	},
+	429: {
+		category: 'rate_limit',
+		title: 'Too many requests',
+		explanation: 'The rate limit has been reached.',
+		action: 'Wait a moment before trying again.'
+	}
+};
+
+const SERVER_FALLBACK = RANGE_FALLBACKS[1][1];
+
+const UNKNOWN: OBPErrorCatalogueEntry = {
+	category: 'unknown',
+	title: 'Request failed',
+	explanation: 'The request to OBP failed.',
+	action: 'Try again. If it keeps happening, check the error details.'
+};
+
+/** The OBP error code in a message, e.g. 'OBP-20006' from 'OBP-20006: User is missing ...' */
+export function extractObpErrorCode(message: string): string | undefined {
+	return message.match(/OBP-\d+/)?.[0];
+}
+
+/** Pull message and status out of errors, OBP error bodies, or JSON strings of them. */
+function normalise(err: unknown): { message: string; status?: number; name?: string } {
+	if (typeof err === 'string') {
+		try {
+			const parsed = JSON.parse(err);
+			if (parsed && typeof parsed === 'object') return normalise(parsed);
+		} catch {
+			// Not JSON, use as is
+		}
+		return { message: err };
+	}
+	if (err && typeof err === 'object') {
+		const e = err as Record<string, any>;
+		const message = String(e.message ?? e.error ?? '');
+		const rawStatus = e.status ?? e.code;
+		const status =
+			rawStatus !== undefined && /^\d{3}$/.test(String(rawStatus)) ? Number(rawStatus) : undefined;
+		return { message, status, name: typeof e.name === 'string' ? e.name : undefined };
+	}
+	return { message: String(err ?? '') };
+}
+
+/**
+ * Category, explanation and suggested action for an error from OBP. Accepts OBP
+ * errors thrown by OBPRequests, OBP error bodies (`{ code, message }`), or their
+ * message strings.
+ */
+export function describeObpError(err: unknown): OBPErrorDescription {
+	const { message, status, name } = normalise(err);
+	const obpErrorCode = extractObpErrorCode(message);
+
+	let entry: OBPErrorCatalogueEntry | undefined = obpErrorCode
+		? OBP_ERROR_CATALOGUE[obpErrorCode]
+		: undefined;
+	if (!entry && obpErrorCode) {
+		const digits = obpErrorCode.slice('OBP-'.length);
+		entry = RANGE_FALLBACKS.find(([prefix]) => digits.startsWith(prefix))?.[1];
+	}
+	if (!entry && name === 'OBPRateLimitError') entry = STATUS_FALLBACKS[429];
+	if (!entry && (name === 'OBPTimeoutError' || name === 'OBPCircuitOpenError')) {
+		entry = {
+			...SERVER_FALLBACK,
+			title: 'OBP unavailable',
+			explanation: 'OBP did not respond in time or is failing repeatedly.'
+		};
+	}
+	if (!entry && status !== undefined) {
+		entry = STATUS_FALLBACKS[status] ?? (status >= 500 ? SERVER_FALLBACK : undefined);
+	}
+
+	return { ...(entry ?? UNKNOWN), obpErrorCode, status, message };
+}
+
+export function obpErrorCategory(err: unknown): OBPErrorCategory {
+	return describeObpError(err).category;
+}
+
+export function isConsentRequired(err: unknown): boolean {
+	return obpErrorCategory(err) === 'consent_required';
+}
+
+export function isAuthError(err: unknown): boolean {
+	return obpErrorCategory(err) === 'auth';
+}
+
+export function isPermissionError(err: unknown): boolean {
+	return obpErrorCategory(err) === 'permission';
+}
+
+export function isNotFoundError(err: unknown): boolean {
+	return obpErrorCategory(err) === 'not_found';
+}
+
+export function isRateLimitError(err: unknown): boolean {
+	return obpErrorCategory(err) === 'rate_limit';
+}
@@ -1,3 +1,5 @@
+import { describeObpError, extractObpErrorCode, type OBPErrorDescription } from '$lib/obp/errorCatalogue';
+
 export class OBPErrorBase extends Error {
     constructor(message: string) {
         super(message);
@@ -25,6 +27,17 @@ export class OBPTimeoutError extends OBPErrorBase {
     }
 }
 
+export class OBPCircuitOpenError extends OBPErrorBase {
+    retryAfterMs: number;
+
+    constructor(baseUrl: string, retryAfterMs: number) {
+        super(`OBP at ${baseUrl} is failing; not sending requests for another ${retryAfterMs}ms`);
+        this.name = 'OBPCircuitOpenError';
+        this.retryAfterMs = retryAfterMs;
+        Object.setPrototypeOf(this, OBPCircuitOpenError.prototype);
+    }
+}
+
 export class OBPRequestError extends OBPErrorBase {
     code: string
     message: string;
@@ -40,7 +53,11 @@ export class OBPRequestError extends OBPErrorBase {
     }
 
     getObpErrorCode(): string {
-        const match = this.message.match(/OBP-\d+/);
-        return match ? match[0] : 'UNKNOWN_ERROR';
+        return extractObpErrorCode(this.message) ?? 'UNKNOWN_ERROR';
+    }
+
+    /** Category, explanation and suggested action from the OBP error catalogue */
+    describe(): OBPErrorDescription {
+        return describeObpError(this);
     }
 }
\ No newline at end of file
@@ -1,13 +1,102 @@
 export { OBPRequests, createOBPRequests } from './requests.js';
-export { OBPErrorBase, OBPRequestError, OBPRateLimitError, OBPTimeoutError } from './errors.js';
+export {
+	timeoutInterceptor,
+	rateLimitLoggingInterceptor,
+	errorMappingInterceptor,
+	headersInterceptor,
+	correlationIdInterceptor
+} from './interceptors.js';
+export type {
+	OBPHttpMethod,
+	OBPInterceptor,
+	OBPRequestContext,
+	OBPResponseContext,
+	OBPErrorResolution
+} from './interceptors.js';
+export {
+	DEFAULT_PAGE_SIZE,
+	DEFAULT_MAX_ITEMS,
+	withPageParams,
+	extractItems,
+	toPage
+} from './pagination.js';
+export type { OBPPage, OBPPageOptions, OBPFetchAllOptions } from './pagination.js';
+export { PageCursor } from './PageCursor.svelte.js';
+export {
+	OBP_ERROR_CATALOGUE,
+	describeObpError,
+	extractObpErrorCode,
+	obpErrorCategory,
+	isConsentRequired,
+	isAuthError,
+	isPermissionError,
+	isNotFoundError,
+	isRateLimitError
+} from './errorCatalogue.js';
+export type {
+	OBPErrorCategory,
+	OBPErrorCatalogueEntry,
+	OBPErrorDescription
+} from './errorCatalogue.js';
+export {
+	OBPResponseCache,
+	MemoryCacheStore,
+	tokenSubject,
+	DEFAULT_CACHE_TTL_MS,
+	DEFAULT_CACHE_STALE_TTL_MS
+} from './responseCache.js';
+export type {
+	OBPCacheEntry,
+	OBPCacheStore,
+	OBPCacheFetcher,
+	OBPResponseCacheOptions
+} from './responseCache.js';
+export { OBPClient, createOBPClient, DEFAULT_OBP_API_VERSION } from './client.js';
+export type { OBPClientOptions } from './client.js';
+export {
+	OBPResource,
+	BanksResource,
+	ConsentsResource,
+	EntitlementsResource,
+	ApiCollectionsResource,
+	ProductsResource,
+	AccountApplicationsResource
+} from './resources/index.js';
+export {
+	CircuitBreaker,
+	DEFAULT_REQUEST_POLICY,
+	backoffDelay,
+	isIdempotent,
+	isRetryableStatus,
+	retryAfterMs
+} from './requestPolicy.js';
+export type {
+	OBPRequestPolicy,
+	OBPRequestOptions,
+	OBPCircuitBreakerOptions
+} from './requestPolicy.js';
+export {
+	OBPErrorBase,
+	OBPRequestError,
+	OBPRateLimitError,
+	OBPTimeoutError,
+	OBPCircuitOpenError
+} from './errors.js';
 export type {
 	OBPBank,
+	OBPBanksResponse,
 	OBPConsent,
+	OBPConsentsResponse,
+	OBPImplicitConsentBody,
 	OBPConsentInfo,
 	OBPConsumer,
 	OBPConsumerRequestBody,
 	OBPUserRegistrationRequestBody,
 	OBPAddEntitlementBody,
+	OBPEntitlement,
+	OBPEntitlementsResponse,
+	OBPEntitlementRequest,
+	OBPEntitlementRequestsResponse,
 	OBPPasswordResetInitiateRequestBody,
 	OBPPasswordResetRequestBody,
 	OBPUserInvitation,
@@ -17,6 +106,7 @@ export type {
 	OBPUserInvitationAcceptRequestBody,
 	OBPApiCollection,
 	OBPApiCollectionsResponse,
+	OBPApiCollectionCreateBody,
 	OBPApiCollectionEndpoint,
 	OBPApiCollectionEndpointsResponse,
 	OBPProductAttribute,
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OBPRequests } from './requests';
+import { OBPRequestError, OBPTimeoutError } from './errors';
+import { headersInterceptor } from './interceptors';
+
+describe('OBPRequests interceptors', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('lets interceptors add headers and short-circuit with a mock response', async () => {
+		const fetchMock = vi.fn();
+		vi.stubGlobal('fetch', fetchMock);
+		const requests = new OBPRequests('http://obp');
+		const seen: Record<string, string>[] = [];
+
+		requests.use(headersInterceptor({ 'Consent-JWT': 'jwt' }));
+		requests.use({
+			beforeRequest(request) {
+				seen.push({ ...request.headers });
+				return new Response(JSON.stringify({ banks: [] }), { status: 200 });
+			}
+		});
+
+		await expect(requests.get('/banks', 'token')).resolves.toEqual({ banks: [] });
+		expect(fetchMock).not.toHaveBeenCalled();
+		expect(seen[0]).toMatchObject({ 'Consent-JWT': 'jwt', Authorization: 'Bearer token' });
+	});
+
+	it('maps failures with the built-in interceptors before user onError hooks', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi
+				.fn()
+				.mockResolvedValue(
+					new Response(JSON.stringify({ code: 400, message: 'OBP-10001: bad' }), { status: 400 })
+				)
+		);
+		const requests = new OBPRequests('http://obp');
+		const onError = vi.fn();
+		requests.use({ onError });
+
+		await expect(requests.post('/consents', {})).rejects.toBeInstanceOf(OBPRequestError);
+		expect(onError.mock.calls[0][0]).toBeInstanceOf(OBPRequestError);
+	});
+
+	it('runs afterResponse hooks on unsuccessful responses before mapping them', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn().mockResolvedValue(new Response(JSON.stringify({}), { status: 503 }))
+		);
+		const requests = new OBPRequests('http://obp', { maxRetries: 0 });
+		const statuses: number[] = [];
+		requests.use({ afterResponse: ({ response }) => void statuses.push(response.status) });
+
+		await expect(requests.get('/banks')).rejects.toThrow();
+		expect(statuses).toEqual([503]);
+	});
+
+	it('maps timeouts and lets onError recover', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn().mockRejectedValue(new DOMException('timed out', 'TimeoutError'))
+		);
+		const requests = new OBPRequests('http://obp', { maxRetries: 0 });
+		const remove = requests.use({
+			onError: (error) => (error instanceof OBPTimeoutError ? { data: 'cached' } : undefined)
+		});
+
+		await expect(requests.get('/banks')).resolves.toBe('cached');
+		remove();
+		await expect(requests.get('/banks')).rejects.toBeInstanceOf(OBPTimeoutError);
+	});
+
+	it('returns null for empty DELETE responses', async () => {
+		vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 204 })));
+		const requests = new OBPRequests('http://obp');
+		await expect(requests.delete('/my/consents/1')).resolves.toBeNull();
+	});
+});
@@ -0,0 +1,143 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('OBPRequests');
+import { OBPErrorBase, OBPRequestError, OBPRateLimitError, OBPTimeoutError } from '$lib/obp/errors';
+
+export type OBPHttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/** A request on its way through the interceptor chain. Interceptors may modify it in place. */
+export interface OBPRequestContext {
+	method: OBPHttpMethod;
+	/** Path relative to the OBP base URL, e.g. '/obp/v5.1.0/banks' */
+	endpoint: string;
+	/** Absolute URL actually requested */
+	url: string;
+	headers: Record<string, string>;
+	/** Serialised as JSON; unset for GET and DELETE */
+	body?: unknown;
+	/** Per-attempt timeout */
+	timeoutMs: number;
+}
+
+export interface OBPResponseContext {
+	request: OBPRequestContext;
+	response: Response;
+	/** Parsed JSON body, or null when the response had none */
+	data: any;
+}
+
+/** What an onError hook can do with an error: replace it, or recover with a result. */
+export type OBPErrorResolution = { error: unknown } | { data: any };
+
+/**
+ * Middleware for OBPRequests, registered with `obpRequests.use()`. Each hook runs in
+ * registration order, after the built-in interceptors. Unsuccessful responses are
+ * turned into errors only after every afterResponse hook has seen them.
+ */
+export interface OBPInterceptor {
+	name?: string;
+	/**
+	 * Runs before the request is sent. Returning a Response skips the network,
+	 * e.g. for mocks.
+	 */
+	beforeRequest?(request: OBPRequestContext): void | Response | Promise<void | Response>;
+	/** Runs once the response body has been parsed. Throwing fails the request. */
+	afterResponse?(context: OBPResponseContext): void | Promise<void>;
+	/** Runs when the request or an earlier hook failed */
+	onError?(
+		error: unknown,
+		request: OBPRequestContext
+	): void | OBPErrorResolution | Promise<void | OBPErrorResolution>;
+}
+
+const METHOD_VERBS: Record<OBPHttpMethod, string> = {
+	GET: 'fetching OBP data from',
+	POST: 'posting OBP data to',
+	PUT: 'putting OBP data to',
+	PATCH: 'patching OBP data to',
+	DELETE: 'deleting OBP data from'
+};
+
+/** Turns fetch's TimeoutError into OBPTimeoutError. */
+export function timeoutInterceptor(): OBPInterceptor {
+	return {
+		name: 'timeout',
+		onError(error, request) {
+			if (error instanceof DOMException && error.name === 'TimeoutError') {
+				return { error: new OBPTimeoutError(request.url, request.timeoutMs) };
+			}
+		}
+	};
+}
+
+/** Warns when OBP reports a negative rate limit allowance. */
+export function rateLimitLoggingInterceptor(): OBPInterceptor {
+	return {
+		name: 'rate-limit-logging',
+		afterResponse({ request, response }) {
+			const remaining = response.headers.get('X-Rate-Limit-Remaining');
+			if (remaining !== null && parseInt(remaining) < 0) {
+				logger.warn(
+					`Rate limit header warning for ${request.url}: X-Rate-Limit-Remaining=${remaining}`
+				);
+			}
+		}
+	};
+}
+
+/**
+ * Maps unsuccessful responses to errors: OBPRateLimitError for 429, OBPRequestError
+ * when OBP sent an error body, OBPErrorBase otherwise.
+ */
+export function errorMappingInterceptor(): OBPInterceptor {
+	return {
+		name: 'error-mapping',
+		afterResponse({ request, response, data }) {
+			// 304 only comes back when the response cache asked to revalidate
+			if (response.ok || response.status === 304) return;
+			logger.error(`Failed ${METHOD_VERBS[request.method]} ${request.url}:`, {
+				statusText: response.statusText,
+				data
+			});
+
+			if (response.status === 429) {
+				const reset = response.headers.get('X-Rate-Limit-Reset');
+				throw new OBPRateLimitError(
+					data?.message || `Rate limit exceeded for ${request.url}`,
+					reset ? parseInt(reset) : undefined
+				);
+			}
+
+			if (data && data.code && data.message) {
+				throw new OBPRequestError(data.code, data.message);
+			}
+			throw new OBPErrorBase(
+				`Error ${METHOD_VERBS[request.method]} ${request.url}: ${response.statusText}`
+			);
+		}
+	};
+}
+
+/** Adds fixed headers, or headers computed per request, e.g. a tracing header. */
+export function headersInterceptor(
+	headers: Record<string, string> | ((request: OBPRequestContext) => Record<string, string>)
+): OBPInterceptor {
+	return {
+		name: 'headers',
+		beforeRequest(request) {
+			Object.assign(request.headers, typeof headers === 'function' ? headers(request) : headers);
+		}
+	};
+}
+
+/** Tags every request with a correlation ID, unless the caller already set one. */
+export function correlationIdInterceptor(
+	headerName: string = 'X-Correlation-Id',
+	generate: () => string = () => crypto.randomUUID()
+): OBPInterceptor {
+	return {
+		name: 'correlation-id',
+		beforeRequest(request) {
+			request.headers[headerName] ??= generate();
+		}
+	};
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OBPRequests } from './requests';
+import { withPageParams } from './pagination';
+import { PageCursor } from './PageCursor.svelte';
+
+/** A list endpoint serving `total` numbered items under `key`, honouring limit/offset. */
+function stubListEndpoint(total: number, key = 'consents') {
+	const fetchMock = vi.fn(async (url: string) => {
+		const params = new URL(url).searchParams;
+		const limit = Number(params.get('limit'));
+		const offset = Number(params.get('offset'));
+		const items = Array.from({ length: total }, (_, i) => i).slice(offset, offset + limit);
+		return new Response(JSON.stringify({ [key]: items }), { status: 200 });
+	});
+	vi.stubGlobal('fetch', fetchMock);
+	return fetchMock;
+}
+
+describe('pagination', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('keeps existing query parameters', () => {
+		expect(withPageParams('/obp/v5.1.0/my/consents?status=ACCEPTED', 10, 20)).toBe(
+			'/obp/v5.1.0/my/consents?status=ACCEPTED&limit=10&offset=20'
+		);
+	});
+
+	it('fetches every page until one comes back short', async () => {
+		const fetchMock = stubListEndpoint(25);
+		const requests = new OBPRequests('http://obp');
+
+		const all = await requests.fetchAll('/my/consents', 'token', { pageSize: 10 });
+		expect(all).toEqual(Array.from({ length: 25 }, (_, i) => i));
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it('stops at the safety cap', async () => {
+		const fetchMock = stubListEndpoint(1000);
+		const requests = new OBPRequests('http://obp');
+
+		const all = await requests.fetchAll('/my/consents', 'token', { pageSize: 10, maxItems: 25 });
+		expect(all).toHaveLength(25);
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it('treats an endpoint that ignores limit as a single page', async () => {
+		const items = Array.from({ length: 30 }, (_, i) => i);
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response(JSON.stringify({ resource_docs: items }), { status: 200 }))
+		);
+		const requests = new OBPRequests('http://obp');
+
+		await expect(requests.fetchAll('/resource-docs', undefined, { pageSize: 10 })).resolves.toEqual(
+			items
+		);
+	});
+
+	it('accumulates pages in a PageCursor', async () => {
+		stubListEndpoint(15);
+		const requests = new OBPRequests('http://obp');
+		const cursor = new PageCursor<number>(
+			(offset, limit) => requests.getPage('/my/consents', 'token', { offset, pageSize: limit }),
+			10
+		);
+
+		await cursor.loadMore();
+		await cursor.loadMore();
+		expect(cursor.items).toHaveLength(15);
+		expect(cursor.hasMore).toBe(false);
+		await expect(cursor.loadMore()).resolves.toEqual([]);
+	});
+});
@@ -0,0 +1,59 @@
+export const DEFAULT_PAGE_SIZE = 100;
+/** Safety cap for fetchAll, so an endpoint that ignores limit/offset can't loop forever */
+export const DEFAULT_MAX_ITEMS = 1000;
+
+export interface OBPPageOptions {
+	/** Sent as OBP's `limit` query parameter */
+	pageSize?: number;
+	/** Sent as OBP's `offset` query parameter for the first page */
+	offset?: number;
+	/**
+	 * Property of the response holding the list, e.g. 'consents'. Defaults to the first
+	 * array-valued property, which covers OBP's `{ banks: [...] }`-style responses.
+	 */
+	itemsKey?: string;
+}
+
+export interface OBPFetchAllOptions extends OBPPageOptions {
+	/** Stop once this many items have been collected */
+	maxItems?: number;
+}
+
+export interface OBPPage<T> {
+	items: T[];
+	offset: number;
+	limit: number;
+	/** False once a page comes back short; OBP doesn't report a total */
+	hasMore: boolean;
+	nextOffset: number;
+}
+
+/** `endpoint` with OBP's limit/offset query parameters set, keeping any existing ones. */
+export function withPageParams(endpoint: string, limit: number, offset: number): string {
+	const [path, query = ''] = endpoint.split('?');
+	const params = new URLSearchParams(query);
+	params.set('limit', String(limit));
+	params.set('offset', String(offset));
+	return `${path}?${params}`;
+}
+
+/** The list in an OBP list response */
+export function extractItems<T>(data: any, itemsKey?: string): T[] {
+	if (Array.isArray(data)) return data;
+	if (!data || typeof data !== 'object') return [];
+	if (itemsKey) return Array.isArray(data[itemsKey]) ? data[itemsKey] : [];
+	const list = Object.values(data).find(Array.isArray);
+	return (list as T[] | undefined) ?? [];
+}
+
+/** Page metadata for `items` fetched at `offset` with `limit`. */
+export function toPage<T>(items: T[], offset: number, limit: number): OBPPage<T> {
+	return {
+		items,
+		offset,
+		limit,
+		// More items than asked for means the endpoint ignored limit and returned everything
+		hasMore: items.length === limit,
+		nextOffset: offset + items.length
+	};
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker, backoffDelay, retryAfterMs } from './requestPolicy';
+import { OBPRequests } from './requests';
+import { OBPCircuitOpenError } from './errors';
+
+function jsonResponse(status: number, body: any = {}, headers: Record<string, string> = {}) {
+	return new Response(JSON.stringify(body), { status, headers });
+}
+
+describe('backoffDelay', () => {
+	it('doubles the ceiling per retry, capped at maxDelayMs', () => {
+		const policy = { baseDelayMs: 100, maxDelayMs: 1000 };
+		expect(backoffDelay(0, policy, () => 1)).toBe(100);
+		expect(backoffDelay(2, policy, () => 1)).toBe(400);
+		expect(backoffDelay(5, policy, () => 1)).toBe(1000);
+		expect(backoffDelay(2, policy, () => 0.5)).toBe(200);
+	});
+});
+
+describe('retryAfterMs', () => {
+	it('prefers X-Rate-Limit-Reset and accepts Retry-After seconds or dates', () => {
+		expect(retryAfterMs(new Headers({ 'X-Rate-Limit-Reset': '3', 'Retry-After': '9' }))).toBe(3000);
+		expect(retryAfterMs(new Headers({ 'Retry-After': '2' }))).toBe(2000);
+		const now = Date.parse('2026-01-01T00:00:00Z');
+		expect(retryAfterMs(new Headers({ 'Retry-After': 'Thu, 01 Jan 2026 00:00:05 GMT' }), now)).toBe(
+			5000
+		);
+		expect(retryAfterMs(new Headers())).toBeUndefined();
+	});
+});
+
+describe('CircuitBreaker', () => {
+	it('opens after the threshold and lets one trial through after the reset timeout', () => {
+		let now = 0;
+		const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 }, () => now);
+
+		breaker.recordFailure();
+		expect(breaker.allowRequest()).toBe(true);
+		breaker.recordFailure();
+		expect(breaker.allowRequest()).toBe(false);
+		expect(breaker.retryInMs()).toBe(1000);
+
+		now = 1000;
+		expect(breaker.allowRequest()).toBe(true);
+		expect(breaker.allowRequest()).toBe(false);
+		breaker.recordSuccess();
+		expect(breaker.getState()).toBe('closed');
+	});
+
+	it('keeps other requests out while the trial is in flight', () => {
+		let now = 0;
+		const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 }, () => now);
+		breaker.recordFailure();
+
+		now = 1000;
+		expect(breaker.allowRequest()).toBe(true);
+		now = 1500;
+		expect(breaker.allowRequest()).toBe(false);
+		expect(breaker.retryInMs()).toBe(500);
+
+		// The trial never reported back, so another one may go
+		now = 2000;
+		expect(breaker.allowRequest()).toBe(true);
+		breaker.recordFailure();
+		expect(breaker.getState()).toBe('open');
+		expect(breaker.allowRequest()).toBe(false);
+	});
+});
+
+describe('OBPRequests retries', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	const policy = { baseDelayMs: 1, maxDelayMs: 50 };
+
+	it('retries idempotent requests on 503 and 429', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(jsonResponse(503))
+			.mockResolvedValueOnce(jsonResponse(429, {}, { 'X-Rate-Limit-Reset': '0' }))
+			.mockResolvedValueOnce(jsonResponse(200, { banks: [] }));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const requests = new OBPRequests('http://obp', policy);
+		await expect(requests.get('/banks')).resolves.toEqual({ banks: [] });
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it('does not retry POST', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValue(jsonResponse(503, { code: 503, message: 'OBP-50000: down' }));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const requests = new OBPRequests('http://obp', policy);
+		await expect(requests.post('/consents', {})).rejects.toThrow('OBP-50000');
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('fails fast once the circuit is open', async () => {
+		const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(500));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const requests = new OBPRequests('http://obp', {
+			...policy,
+			circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60_000 }
+		});
+		await expect(requests.get('/a')).rejects.toThrow();
+		await expect(requests.get('/b')).rejects.toThrow();
+		await expect(requests.get('/c', undefined, { maxRetries: 0 })).rejects.toBeInstanceOf(
+			OBPCircuitOpenError
+		);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+});
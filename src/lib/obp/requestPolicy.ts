@@ -0,0 +1,136 @@
+export interface OBPCircuitBreakerOptions {
+	/** Consecutive 5xx responses after which the circuit opens */
+	failureThreshold: number;
+	/** How long the circuit stays open before a single trial request is let through */
+	resetTimeoutMs: number;
+}
+
+export interface OBPRequestPolicy {
+	/** Timeout for each attempt */
+	timeoutMs: number;
+	/** Retries after the first attempt; only idempotent methods are retried */
+	maxRetries: number;
+	/** Delay before the first retry, doubled for every retry after that */
+	baseDelayMs: number;
+	/** Upper bound for backoff delays and for honouring Retry-After on 429 */
+	maxDelayMs: number;
+	/** `false` disables the circuit breaker */
+	circuitBreaker: OBPCircuitBreakerOptions | false;
+}
+
+/** Per-call overrides of the instance policy */
+export type OBPRequestOptions = Partial<Omit<OBPRequestPolicy, 'circuitBreaker'>> & {
+	/** Extra headers for this call, e.g. a Consent-JWT */
+	headers?: Record<string, string>;
+	/** TTL for this GET when the response cache is enabled; 0 bypasses the cache */
+	cacheTtlMs?: number;
+};
+
+export const DEFAULT_REQUEST_POLICY: OBPRequestPolicy = {
+	timeoutMs: 15_000,
+	maxRetries: 2,
+	baseDelayMs: 300,
+	maxDelayMs: 10_000,
+	circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 30_000 }
+};
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/** Statuses worth retrying: rate limiting and transient gateway/server errors */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+export function isIdempotent(method: string): boolean {
+	return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+export function isRetryableStatus(status: number): boolean {
+	return RETRYABLE_STATUSES.has(status);
+}
+
+/** Exponential backoff with full jitter for the given retry (0-based). */
+export function backoffDelay(
+	retry: number,
+	policy: Pick<OBPRequestPolicy, 'baseDelayMs' | 'maxDelayMs'>,
+	random: () => number = Math.random
+): number {
+	const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+	return Math.round(ceiling * random());
+}
+
+/**
+ * How long a 429 response asks us to wait, in milliseconds. OBP sends
+ * X-Rate-Limit-Reset in seconds; Retry-After may be seconds or an HTTP date.
+ */
+export function retryAfterMs(headers: Headers, now: number = Date.now()): number | undefined {
+	const reset = headers.get('X-Rate-Limit-Reset');
+	if (reset !== null && !isNaN(parseInt(reset))) {
+		return Math.max(0, parseInt(reset) * 1000);
+	}
+
+	const retryAfter = headers.get('Retry-After');
+	if (retryAfter === null) return undefined;
+	if (/^\d+$/.test(retryAfter.trim())) {
+		return parseInt(retryAfter) * 1000;
+	}
+	const date = Date.parse(retryAfter);
+	return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Fails fast once the OBP host has returned too many 5xx responses in a row.
+ * After `resetTimeoutMs` one trial request is allowed; its outcome closes or
+ * re-opens the circuit. Should the trial never report back, another one is let
+ * through after a further `resetTimeoutMs`.
+ */
+export class CircuitBreaker {
+	private state: CircuitState = 'closed';
+	private consecutiveFailures = 0;
+	private openedAt = 0;
+	// When the half-open trial request was let through, while it is in flight
+	private trialStartedAt?: number;
+
+	constructor(
+		private options: OBPCircuitBreakerOptions,
+		private now: () => number = Date.now
+	) {}
+
+	/** Whether a request may be sent now. Moves an expired open circuit to half-open. */
+	allowRequest(): boolean {
+		if (this.state === 'closed') return true;
+		if (this.state === 'open' && this.now() - this.openedAt >= this.options.resetTimeoutMs) {
+			this.state = 'half-open';
+		}
+		if (this.state !== 'half-open' || this.retryInMs() > 0) return false;
+
+		this.trialStartedAt = this.now();
+		return true;
+	}
+
+	/** Milliseconds until the circuit lets a trial request through */
+	retryInMs(): number {
+		const since = this.state === 'open' ? this.openedAt : this.trialStartedAt;
+		if (this.state === 'closed' || since === undefined) return 0;
+		return Math.max(0, since + this.options.resetTimeoutMs - this.now());
+	}
+
+	recordSuccess(): void {
+		this.state = 'closed';
+		this.consecutiveFailures = 0;
+		this.trialStartedAt = undefined;
+	}
+
+	recordFailure(): void {
+		this.trialStartedAt = undefined;
+		this.consecutiveFailures++;
+		if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+			this.state = 'open';
+			this.openedAt = this.now();
+		}
+	}
+
+	getState(): CircuitState {
+		return this.state;
+	}
+}
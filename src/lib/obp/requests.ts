@@ -1,250 +1,389 @@
 import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('OBPRequests');
-import { OBPErrorBase, OBPRequestError, OBPRateLimitError, OBPTimeoutError } from '$lib/obp/errors';
-
-const DEFAULT_TIMEOUT_MS = 15_000;
+import { OBPErrorBase, OBPCircuitOpenError } from '$lib/obp/errors';
+import {
+	CircuitBreaker,
+	DEFAULT_REQUEST_POLICY,
+	backoffDelay,
+	isIdempotent,
+	isRetryableStatus,
+	retryAfterMs,
+	type OBPRequestOptions,
+	type OBPRequestPolicy
+} from '$lib/obp/requestPolicy';
+import {
+	errorMappingInterceptor,
+	rateLimitLoggingInterceptor,
+	timeoutInterceptor,
+	type OBPHttpMethod,
+	type OBPInterceptor,
+	type OBPRequestContext,
+	type OBPResponseContext
+} from '$lib/obp/interceptors';
+import { OBPResponseCache, type OBPResponseCacheOptions } from '$lib/obp/responseCache';
+import {
+	DEFAULT_MAX_ITEMS,
+	DEFAULT_PAGE_SIZE,
+	extractItems,
+	toPage,
+	withPageParams,
+	type OBPFetchAllOptions,
+	type OBPPage,
+	type OBPPageOptions
+} from '$lib/obp/pagination';
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
 export class OBPRequests {
 	base_url: string;
-
-	constructor(base_url: string) {
+	policy: OBPRequestPolicy;
+	private circuitBreaker?: CircuitBreaker;
+	/** Set when constructed with cache options; GETs go through it */
+	readonly cache?: OBPResponseCache;
+	/** Built-in interceptors first, then those added with use() */
+	private interceptors: OBPInterceptor[] = [timeoutInterceptor(), rateLimitLoggingInterceptor()];
+	// Runs after every other afterResponse hook, so they all see unsuccessful responses
+	private errorMapping = errorMappingInterceptor();
+
+	constructor(
+		base_url: string,
+		policy: Partial<OBPRequestPolicy> = {},
+		cache?: OBPResponseCacheOptions
+	) {
 		logger.info('Initializing with base URL:', base_url);
 
 		if (!base_url) {
 			throw new OBPErrorBase('Base URL for OBP requests is not defined.');
 		}
 		this.base_url = base_url;
+		this.policy = { ...DEFAULT_REQUEST_POLICY, ...policy };
+		if (this.policy.circuitBreaker) {
+			this.circuitBreaker = new CircuitBreaker(this.policy.circuitBreaker);
+		}
+		if (cache) {
+			this.cache = new OBPResponseCache(cache);
+		}
 
 		logger.info('Initialized.');
 	}
 
-	private logRateLimitInfo(response: Response, url: string): void {
-		const remaining = response.headers.get('X-Rate-Limit-Remaining');
-		if (remaining !== null && parseInt(remaining) < 0) {
-			logger.warn(`Rate limit header warning for ${url}: X-Rate-Limit-Remaining=${remaining}`);
-		}
-	}
-
-	async get(endpoint: string, accessToken?: string): Promise<any> {
-		logger.debug('GET', endpoint);
-		const url = `${this.base_url}${endpoint}`;
-		const headers: Record<string, string> = {
-			'Content-Type': 'application/json'
-		};
-		if (accessToken) {
-			headers['Authorization'] = `Bearer ${accessToken}`;
-		}
-
-		let response: Response;
-		try {
-			response = await fetch(url, {
-				headers,
-				signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS)
-			});
-		} catch (error) {
-			if (error instanceof DOMException && error.name === 'TimeoutError') {
-				throw new OBPTimeoutError(url, DEFAULT_TIMEOUT_MS);
+	/**
+	 * Send a request under the instance policy, overridden by `options`.
+	 * Idempotent methods are retried on timeouts, network errors, 429 (waiting as long as
+	 * X-Rate-Limit-Reset/Retry-After asks, up to maxDelayMs) and 502/503/504, with
+	 * exponential backoff and jitter. 5xx responses and unreachable hosts count towards
+	 * the circuit breaker, which rejects requests with OBPCircuitOpenError while open.
+	 * Errors are left to the interceptors to map.
+	 */
+	private async fetchWithPolicy(
+		request: OBPRequestContext,
+		options: OBPRequestOptions
+	): Promise<Response> {
+		const policy = { ...this.policy, ...options };
+		const { method, url } = request;
+		const maxRetries = isIdempotent(method) ? policy.maxRetries : 0;
+
+		for (let retry = 0; ; retry++) {
+			if (this.circuitBreaker && !this.circuitBreaker.allowRequest()) {
+				throw new OBPCircuitOpenError(this.base_url, this.circuitBreaker.retryInMs());
 			}
-			throw error;
-		}
-
-		this.logRateLimitInfo(response, url);
 
-		let data;
-		try {
-			data = await response.json();
-		} catch (error) {
-			const message = error instanceof Error ? error.message : String(error);
-			throw new OBPErrorBase(`Failed to parse JSON response from ${url}: ${message}`);
-		}
+			let response: Response;
+			try {
+				response = await fetch(url, {
+					method,
+					headers: request.headers,
+					body: request.body === undefined ? undefined : JSON.stringify(request.body),
+					signal: AbortSignal.timeout(request.timeoutMs)
+				});
+			} catch (error) {
+				this.circuitBreaker?.recordFailure();
+				const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+				if (retry < maxRetries) {
+					const delay = backoffDelay(retry, policy);
+					logger.warn(
+						`${method} ${url} ${timedOut ? 'timed out' : 'failed'}, retrying in ${delay}ms`
+					);
+					await sleep(delay);
+					continue;
+				}
+				throw error;
+			}
 
-		if (!response.ok) {
-			logger.error('Failed to fetch OBP data:', { statusText: response.statusText, data });
+			if (response.status >= 500) {
+				this.circuitBreaker?.recordFailure();
+			} else {
+				this.circuitBreaker?.recordSuccess();
+			}
 
-			if (response.status === 429) {
-				const reset = response.headers.get('X-Rate-Limit-Reset');
-				throw new OBPRateLimitError(
-					data?.message || `Rate limit exceeded for ${url}`,
-					reset ? parseInt(reset) : undefined
-				);
+			if (retry >= maxRetries || !isRetryableStatus(response.status)) {
+				return response;
 			}
 
-			if (data && data.code && data.message) {
-				throw new OBPRequestError(data.code, data.message);
-			} else {
-				throw new OBPErrorBase(`Error fetching OBP data from ${url}: ${response.statusText}`);
+			let delay = backoffDelay(retry, policy);
+			if (response.status === 429) {
+				const requested = retryAfterMs(response.headers);
+				if (requested !== undefined && requested > policy.maxDelayMs) {
+					// Waiting that long would stall the caller; let it see the 429
+					return response;
+				}
+				delay = Math.max(delay, requested ?? 0);
 			}
+			logger.warn(`${method} ${url} returned ${response.status}, retrying in ${delay}ms`);
+			await response.body?.cancel();
+			await sleep(delay);
 		}
-
-		logger.debug('Response from OBP', response.status, response.statusText);
-		logger.debug('GET done');
-		return data;
 	}
 
-	async post(endpoint: string, body: any, accessToken?: string): Promise<any> {
-		logger.debug('POST', endpoint, body);
-		const url = `${this.base_url}${endpoint}`;
-		const headers: Record<string, string> = {
-			'Content-Type': 'application/json'
+	/** Add an interceptor to the chain. Returns a function that removes it again. */
+	use(interceptor: OBPInterceptor): () => void {
+		this.interceptors.push(interceptor);
+		return () => {
+			this.interceptors = this.interceptors.filter((i) => i !== interceptor);
 		};
-		if (accessToken) {
-			headers['Authorization'] = `Bearer ${accessToken}`;
-		}
-		const response = await fetch(url, {
-			method: 'POST',
-			headers,
-			body: JSON.stringify(body),
-			signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS)
-		});
-
-		let data;
-		try {
-			data = await response.json();
-		} catch (error) {
-			const message = error instanceof Error ? error.message : String(error);
-			throw new OBPErrorBase(`Failed to parse JSON response from ${url}: ${message}`);
-		}
-
-		if (!response.ok) {
-			logger.error('Failed to post OBP data:', { statusText: response.statusText, data });
+	}
 
-			if (data && data.code && data.message) {
-				throw new OBPRequestError(data.code, data.message);
-			} else {
-				throw new OBPErrorBase(`Error posting OBP data to ${url}: ${response.statusText}`);
-			}
+	/**
+	 * Send a request through the interceptor chain and the retry policy, returning the
+	 * parsed JSON body (null for empty responses such as 204 No Content).
+	 */
+	async request(
+		method: OBPHttpMethod,
+		endpoint: string,
+		params: { body?: unknown; accessToken?: string; options?: OBPRequestOptions } = {}
+	): Promise<any> {
+		const { data } = await this.send(method, endpoint, params);
+		if (method !== 'GET' && this.cache) {
+			// The collection the mutated resource belongs to, e.g. /my/consents for /my/consents/123
+			await this.cache.invalidate(endpoint.split('?')[0].replace(/\/[^/]*$/, ''));
 		}
-
-		logger.debug('Response from OBP', response.status, response.statusText);
-		logger.debug('POST done');
 		return data;
 	}
 
-	async delete(endpoint: string, accessToken?: string): Promise<any> {
-		logger.debug('DELETE', endpoint);
-		const url = `${this.base_url}${endpoint}`;
-		const headers: Record<string, string> = {
-			'Content-Type': 'application/json'
+	/** Drop cached GET responses for endpoints starting with `prefix`. */
+	async invalidateCache(prefix: string): Promise<void> {
+		await this.cache?.invalidate(prefix);
+	}
+
+	/**
+	 * request(), also returning the raw response; it's unset when an onError hook recovered
+	 * or the data came from the response cache. With `cached`, a GET goes through the cache
+	 * unless it carries headers beyond the token, from `options` or an interceptor, since
+	 * the response may depend on them.
+	 */
+	private async send(
+		method: OBPHttpMethod,
+		endpoint: string,
+		{
+			body,
+			accessToken,
+			options = {}
+		}: { body?: unknown; accessToken?: string; options?: OBPRequestOptions },
+		cached = false
+	): Promise<{ data: any; response?: Response }> {
+		logger.debug(method, endpoint, ...(body === undefined ? [] : [body]));
+		const request: OBPRequestContext = {
+			method,
+			endpoint,
+			url: `${this.base_url}${endpoint}`,
+			headers: { 'Content-Type': 'application/json', ...options.headers },
+			body,
+			timeoutMs: options.timeoutMs ?? this.policy.timeoutMs
 		};
 		if (accessToken) {
-			headers['Authorization'] = `Bearer ${accessToken}`;
+			request.headers['Authorization'] = `Bearer ${accessToken}`;
 		}
-		const response = await fetch(url, {
-			method: 'DELETE',
-			headers,
-			signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS)
-		});
-
-		// Handle empty responses (common for DELETE returning 204 No Content)
-		let data = null;
-		const contentLength = response.headers.get('content-length');
-		const hasContent = contentLength && parseInt(contentLength) > 0;
-
-		if (hasContent || response.status !== 204) {
-			const text = await response.text();
-			if (text) {
-				try {
-					data = JSON.parse(text);
-				} catch (error) {
-					// If response is not ok and we can't parse JSON, we'll handle it below
-					if (!response.ok) {
-						throw new OBPErrorBase(`Error deleting OBP data from ${url}: ${response.statusText}`);
-					}
+
+		const interceptors = [...this.interceptors];
+		try {
+			let mocked: Response | undefined;
+			for (const interceptor of interceptors) {
+				const result = await interceptor.beforeRequest?.(request);
+				if (result instanceof Response) {
+					mocked = result;
+					break;
 				}
 			}
-		}
 
-		if (!response.ok) {
-			logger.error('Failed to delete OBP data:', response.statusText, data);
-			if (data && data.code && data.message) {
-				throw new OBPRequestError(data.code, data.message);
-			} else {
-				throw new OBPErrorBase(`Error deleting OBP data from ${url}: ${response.statusText}`);
+			const extraHeaders = Object.keys(request.headers).filter(
+				(name) => name !== 'Content-Type' && name !== 'Authorization'
+			);
+			if (cached && this.cache && !mocked && extraHeaders.length === 0) {
+				const data = await this.cache.fetch(
+					endpoint,
+					accessToken,
+					(headers) =>
+						this.receive(
+							{ ...request, headers: { ...request.headers, ...headers } },
+							options,
+							interceptors
+						),
+					options.cacheTtlMs
+				);
+				return { data };
+			}
+			return await this.receive(request, options, interceptors, mocked);
+		} catch (error) {
+			let current = error;
+			for (const interceptor of interceptors) {
+				const resolution = await interceptor.onError?.(current, request);
+				if (!resolution) continue;
+				if ('data' in resolution) return { data: resolution.data };
+				current = resolution.error;
 			}
+			throw current;
 		}
-
-		logger.debug('Response from OBP', response.status, response.statusText);
-		logger.debug('DELETE done');
-		return data;
 	}
 
-	async put(endpoint: string, body: any, accessToken?: string): Promise<any> {
-		logger.debug('PUT', endpoint, body);
-		const url = `${this.base_url}${endpoint}`;
-		const headers: Record<string, string> = {
-			'Content-Type': 'application/json'
+	/** Send a prepared request, or take the mocked response, and run the afterResponse hooks */
+	private async receive(
+		request: OBPRequestContext,
+		options: OBPRequestOptions,
+		interceptors: OBPInterceptor[],
+		mocked?: Response
+	): Promise<{ data: any; response: Response }> {
+		const response = mocked ?? (await this.fetchWithPolicy(request, options));
+		const context: OBPResponseContext = {
+			request,
+			response,
+			data: await this.parseBody(request, response)
 		};
-		if (accessToken) {
-			headers['Authorization'] = `Bearer ${accessToken}`;
+		for (const interceptor of interceptors) {
+			await interceptor.afterResponse?.(context);
 		}
-		const response = await fetch(url, {
-			method: 'PUT',
-			headers,
-			body: JSON.stringify(body),
-			signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS)
-		});
-
-		let data;
+		await this.errorMapping.afterResponse?.(context);
+
+		logger.debug('Response from OBP', response.status, response.statusText);
+		logger.debug(`${request.method} done`);
+		return { data: context.data, response };
+	}
+
+	/** JSON body of the response, or null when there is none */
+	private async parseBody(request: OBPRequestContext, response: Response): Promise<any> {
+		const text = await response.text();
+		if (!text) return null;
 		try {
-			data = await response.json();
+			return JSON.parse(text);
 		} catch (error) {
+			// Unsuccessful responses are reported by status instead
+			if (!response.ok) return null;
 			const message = error instanceof Error ? error.message : String(error);
-			throw new OBPErrorBase(`Failed to parse JSON response from ${url}: ${message}`);
-		}
-
-		if (!response.ok) {
-			logger.error('Failed to put OBP data:', { statusText: response.statusText, data });
-			if (data && data.code && data.message) {
-				throw new OBPRequestError(data.code, data.message);
-			} else {
-				throw new OBPErrorBase(`Error putting OBP data to ${url}: ${response.statusText}`);
-			}
+			throw new OBPErrorBase(`Failed to parse JSON response from ${request.url}: ${message}`);
 		}
+	}
 
-		logger.debug('Response from OBP', response.status, response.statusText);
-		logger.debug('PUT done');
+	async get(endpoint: string, accessToken?: string, options?: OBPRequestOptions): Promise<any> {
+		const { data } = await this.send(
+			'GET',
+			endpoint,
+			{ accessToken, options },
+			options?.cacheTtlMs !== 0
+		);
 		return data;
 	}
 
-	async patch(endpoint: string, body: any, accessToken?: string): Promise<any> {
-		logger.debug('PATCH', endpoint, body);
-		const url = `${this.base_url}${endpoint}`;
-		const headers: Record<string, string> = {
-			'Content-Type': 'application/json'
-		};
-		if (accessToken) {
-			headers['Authorization'] = `Bearer ${accessToken}`;
+	/** One page of an OBP list endpoint, using its limit/offset query parameters. */
+	async getPage<T = any>(
+		endpoint: string,
+		accessToken?: string,
+		{ pageSize = DEFAULT_PAGE_SIZE, offset = 0, itemsKey }: OBPPageOptions = {},
+		options?: OBPRequestOptions
+	): Promise<OBPPage<T>> {
+		const data = await this.get(withPageParams(endpoint, pageSize, offset), accessToken, options);
+		return toPage(extractItems<T>(data, itemsKey), offset, pageSize);
+	}
+
+	/** Pages of an OBP list endpoint, until one comes back short. */
+	async *paginate<T = any>(
+		endpoint: string,
+		accessToken?: string,
+		pageOptions: OBPPageOptions = {},
+		options?: OBPRequestOptions
+	): AsyncGenerator<OBPPage<T>> {
+		let offset = pageOptions.offset ?? 0;
+		while (true) {
+			const page = await this.getPage<T>(
+				endpoint,
+				accessToken,
+				{ ...pageOptions, offset },
+				options
+			);
+			yield page;
+			if (!page.hasMore) return;
+			offset = page.nextOffset;
 		}
-		const response = await fetch(url, {
-			method: 'PATCH',
-			headers,
-			body: JSON.stringify(body),
-			signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS)
-		});
-
-		let data;
-		try {
-			data = await response.json();
-		} catch (error) {
-			const message = error instanceof Error ? error.message : String(error);
-			throw new OBPErrorBase(`Failed to parse JSON response from ${url}: ${message}`);
+	}
+
+	/** Items of an OBP list endpoint, one at a time across pages. */
+	async *items<T = any>(
+		endpoint: string,
+		accessToken?: string,
+		pageOptions: OBPPageOptions = {},
+		options?: OBPRequestOptions
+	): AsyncGenerator<T> {
+		for await (const page of this.paginate<T>(endpoint, accessToken, pageOptions, options)) {
+			yield* page.items;
 		}
+	}
 
-		if (!response.ok) {
-			logger.error('Failed to patch OBP data:', { statusText: response.statusText, data });
-			if (data && data.code && data.message) {
-				throw new OBPRequestError(data.code, data.message);
-			} else {
-				throw new OBPErrorBase(`Error patching OBP data to ${url}: ${response.statusText}`);
+	/** Every item of an OBP list endpoint, up to `maxItems`. */
+	async fetchAll<T = any>(
+		endpoint: string,
+		accessToken?: string,
+		{ maxItems = DEFAULT_MAX_ITEMS, ...pageOptions }: OBPFetchAllOptions = {},
+		options?: OBPRequestOptions
+	): Promise<T[]> {
+		const all: T[] = [];
+		for await (const page of this.paginate<T>(endpoint, accessToken, pageOptions, options)) {
+			all.push(...page.items);
+			if (all.length >= maxItems) {
+				if (page.hasMore || all.length > maxItems) {
+					logger.warn(`fetchAll ${endpoint} stopped at the ${maxItems} item cap`);
+				}
+				return all.slice(0, maxItems);
 			}
 		}
+		return all;
+	}
 
-		logger.debug('Response from OBP', response.status, response.statusText);
-		logger.debug('PATCH done');
-		return data;
+	async post(
+		endpoint: string,
+		body: any,
+		accessToken?: string,
+		options?: OBPRequestOptions
+	): Promise<any> {
+		return this.request('POST', endpoint, { body, accessToken, options });
+	}
+
+	async delete(endpoint: string, accessToken?: string, options?: OBPRequestOptions): Promise<any> {
+		return this.request('DELETE', endpoint, { accessToken, options });
+	}
+
+	async put(
+		endpoint: string,
+		body: any,
+		accessToken?: string,
+		options?: OBPRequestOptions
+	): Promise<any> {
+		return this.request('PUT', endpoint, { body, accessToken, options });
+	}
+
+	async patch(
+		endpoint: string,
+		body: any,
+		accessToken?: string,
+		options?: OBPRequestOptions
+	): Promise<any> {
+		return this.request('PATCH', endpoint, { body, accessToken, options });
 	}
 }
 
-export function createOBPRequests(baseUrl: string): OBPRequests {
-	return new OBPRequests(baseUrl);
+export function createOBPRequests(
+	baseUrl: string,
+	policy?: Partial<OBPRequestPolicy>,
+	cache?: OBPResponseCacheOptions
+): OBPRequests {
+	return new OBPRequests(baseUrl, policy, cache);
 }
@@ -0,0 +1,18 @@
+import type { OBPRequests } from '$lib/obp/requests';
+
+/** Base for the typed resource modules of OBPClient. */
+export abstract class OBPResource {
+	constructor(
+		protected requests: OBPRequests,
+		protected apiVersion: string
+	) {}
+
+	/** Versioned API path, with each dynamic segment URL-encoded. */
+	protected path(strings: TemplateStringsArray, ...segments: string[]): string {
+		const rest = strings.reduce(
+			(acc, part, i) => acc + part + (i < segments.length ? encodeURIComponent(segments[i]) : ''),
+			''
+		);
+		return `/obp/${this.apiVersion}${rest}`;
+	}
+}
@@ -0,0 +1,48 @@
+import { OBPResource } from './OBPResource';
+import type {
+	OBPAccountApplication,
+	OBPAccountApplicationCreateBody,
+	OBPAccountApplicationsResponse
+} from '$lib/obp/types';
+
+export class AccountApplicationsResource extends OBPResource {
+	async list(bankId: string, accessToken: string): Promise<OBPAccountApplication[]> {
+		const response: OBPAccountApplicationsResponse = await this.requests.get(
+			this.path`/banks/${bankId}/account-applications`,
+			accessToken
+		);
+		return response.account_applications ?? [];
+	}
+
+	async get(
+		bankId: string,
+		applicationId: string,
+		accessToken: string
+	): Promise<OBPAccountApplication> {
+		return this.requests.get(
+			this.path`/banks/${bankId}/account-applications/${applicationId}`,
+			accessToken
+		);
+	}
+
+	async create(
+		bankId: string,
+		body: OBPAccountApplicationCreateBody,
+		accessToken: string
+	): Promise<OBPAccountApplication> {
+		return this.requests.post(this.path`/banks/${bankId}/account-applications`, body, accessToken);
+	}
+
+	async updateStatus(
+		bankId: string,
+		applicationId: string,
+		status: OBPAccountApplication['status'],
+		accessToken: string
+	): Promise<OBPAccountApplication> {
+		return this.requests.put(
+			this.path`/banks/${bankId}/account-applications/${applicationId}`,
+			{ status },
+			accessToken
+		);
+	}
+}
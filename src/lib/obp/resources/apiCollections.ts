@@ -0,0 +1,71 @@
+import { OBPResource } from './OBPResource';
+import type {
+	OBPApiCollection,
+	OBPApiCollectionCreateBody,
+	OBPApiCollectionEndpoint,
+	OBPApiCollectionEndpointsResponse,
+	OBPApiCollectionsResponse
+} from '$lib/obp/types';
+import type { OBPPage, OBPPageOptions } from '$lib/obp/pagination';
+
+/** The current user's API collections and the endpoints in them */
+export class ApiCollectionsResource extends OBPResource {
+	async mine(accessToken: string): Promise<OBPApiCollection[]> {
+		const response: OBPApiCollectionsResponse = await this.requests.get(
+			this.path`/my/api-collections`,
+			accessToken
+		);
+		return response.api_collections ?? [];
+	}
+
+	/** One page of the current user's API collections, for infinite scroll */
+	async minePage(accessToken: string, page?: OBPPageOptions): Promise<OBPPage<OBPApiCollection>> {
+		return this.requests.getPage(this.path`/my/api-collections`, accessToken, {
+			itemsKey: 'api_collections',
+			...page
+		});
+	}
+
+	async get(collectionId: string, accessToken: string): Promise<OBPApiCollection> {
+		return this.requests.get(this.path`/my/api-collections/${collectionId}`, accessToken);
+	}
+
+	async create(body: OBPApiCollectionCreateBody, accessToken: string): Promise<OBPApiCollection> {
+		return this.requests.post(this.path`/my/api-collections`, body, accessToken);
+	}
+
+	async delete(collectionId: string, accessToken: string): Promise<void> {
+		await this.requests.delete(this.path`/my/api-collections/${collectionId}`, accessToken);
+	}
+
+	async endpoints(collectionId: string, accessToken: string): Promise<OBPApiCollectionEndpoint[]> {
+		const response: OBPApiCollectionEndpointsResponse = await this.requests.get(
+			this.path`/my/api-collections/${collectionId}/api-collection-endpoints`,
+			accessToken
+		);
+		return response.api_collection_endpoints ?? [];
+	}
+
+	async addEndpoint(
+		collectionId: string,
+		operationId: string,
+		accessToken: string
+	): Promise<OBPApiCollectionEndpoint> {
+		return this.requests.post(
+			this.path`/my/api-collections/${collectionId}/api-collection-endpoints`,
+			{ operation_id: operationId },
+			accessToken
+		);
+	}
+
+	async removeEndpoint(
+		collectionId: string,
+		operationId: string,
+		accessToken: string
+	): Promise<void> {
+		await this.requests.delete(
+			this.path`/my/api-collections/${collectionId}/api-collection-endpoints/${operationId}`,
+			accessToken
+		);
+	}
+}
@@ -0,0 +1,13 @@
+import { OBPResource } from './OBPResource';
+import type { OBPBank, OBPBanksResponse } from '$lib/obp/types';
+
+export class BanksResource extends OBPResource {
+	async list(accessToken?: string): Promise<OBPBank[]> {
+		const response: OBPBanksResponse = await this.requests.get(this.path`/banks`, accessToken);
+		return response.banks ?? [];
+	}
+
+	async get(bankId: string, accessToken?: string): Promise<OBPBank> {
+		return this.requests.get(this.path`/banks/${bankId}`, accessToken);
+	}
+}
@@ -0,0 +1,41 @@
+import { OBPResource } from './OBPResource';
+import type { OBPConsent, OBPConsentsResponse, OBPImplicitConsentBody } from '$lib/obp/types';
+import type { OBPPage, OBPPageOptions } from '$lib/obp/pagination';
+import type { OBPRequestOptions } from '$lib/obp/requestPolicy';
+
+export class ConsentsResource extends OBPResource {
+	/** Consents created by the current user */
+	async mine(accessToken: string): Promise<OBPConsent[]> {
+		const response: OBPConsentsResponse = await this.requests.get(
+			this.path`/my/consents`,
+			accessToken
+		);
+		return response.consents ?? [];
+	}
+
+	/** One page of the current user's consents, for infinite scroll */
+	async minePage(accessToken: string, page?: OBPPageOptions): Promise<OBPPage<OBPConsent>> {
+		return this.requests.getPage(this.path`/my/consents`, accessToken, {
+			itemsKey: 'consents',
+			...page
+		});
+	}
+
+	/** One of the current user's consents, with its current status */
+	async get(
+		consentId: string,
+		accessToken: string,
+		options?: OBPRequestOptions
+	): Promise<OBPConsent> {
+		return this.requests.get(this.path`/user/current/consents/${consentId}`, accessToken, options);
+	}
+
+	/** Create a consent that is accepted straight away, without an SCA challenge */
+	async createImplicit(body: OBPImplicitConsentBody, accessToken: string): Promise<OBPConsent> {
+		return this.requests.post(this.path`/my/consents/IMPLICIT`, body, accessToken);
+	}
+
+	async revoke(consentId: string, accessToken: string): Promise<void> {
+		await this.requests.delete(this.path`/my/consents/${consentId}`, accessToken);
+	}
+}
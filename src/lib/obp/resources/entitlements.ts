@@ -0,0 +1,61 @@
+import { OBPResource } from './OBPResource';
+import type {
+	OBPAddEntitlementBody,
+	OBPEntitlement,
+	OBPEntitlementRequest,
+	OBPEntitlementRequestsResponse,
+	OBPEntitlementsResponse
+} from '$lib/obp/types';
+import type { OBPRequestOptions } from '$lib/obp/requestPolicy';
+
+export class EntitlementsResource extends OBPResource {
+	/** Entitlements (roles) held by the current user */
+	async mine(accessToken: string, options?: OBPRequestOptions): Promise<OBPEntitlement[]> {
+		const response: OBPEntitlementsResponse = await this.requests.get(
+			this.path`/my/entitlements`,
+			accessToken,
+			options
+		);
+		return response.list ?? [];
+	}
+
+	async forUser(userId: string, accessToken: string): Promise<OBPEntitlement[]> {
+		const response: OBPEntitlementsResponse = await this.requests.get(
+			this.path`/users/${userId}/entitlements`,
+			accessToken
+		);
+		return response.list ?? [];
+	}
+
+	async add(
+		userId: string,
+		body: OBPAddEntitlementBody,
+		accessToken: string
+	): Promise<OBPEntitlement> {
+		return this.requests.post(this.path`/users/${userId}/entitlements`, body, accessToken);
+	}
+
+	async remove(userId: string, entitlementId: string, accessToken: string): Promise<void> {
+		await this.requests.delete(
+			this.path`/users/${userId}/entitlement/${entitlementId}`,
+			accessToken
+		);
+	}
+
+	/** The current user's entitlement requests awaiting an administrator */
+	async myRequests(accessToken: string): Promise<OBPEntitlementRequest[]> {
+		const response: OBPEntitlementRequestsResponse = await this.requests.get(
+			this.path`/my/entitlement-requests`,
+			accessToken
+		);
+		return response.entitlement_requests ?? [];
+	}
+
+	async request(body: OBPAddEntitlementBody, accessToken: string): Promise<OBPEntitlementRequest> {
+		return this.requests.post(
+			this.path`/entitlement-requests`,
+			{ bank_id: body.bank_id ?? '', role_name: body.role_name },
+			accessToken
+		);
+	}
+}
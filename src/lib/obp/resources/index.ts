@@ -0,0 +1,7 @@
+export { OBPResource } from './OBPResource.js';
+export { BanksResource } from './banks.js';
+export { ConsentsResource } from './consents.js';
+export { EntitlementsResource } from './entitlements.js';
+export { ApiCollectionsResource } from './apiCollections.js';
+export { ProductsResource } from './products.js';
+export { AccountApplicationsResource } from './accountApplications.js';
@@ -0,0 +1,32 @@
+import { OBPResource } from './OBPResource';
+import type { OBPProduct, OBPProductsResponse } from '$lib/obp/types';
+
+export class ProductsResource extends OBPResource {
+	async list(bankId: string, accessToken?: string): Promise<OBPProduct[]> {
+		const response: OBPProductsResponse = await this.requests.get(
+			this.path`/banks/${bankId}/products`,
+			accessToken
+		);
+		return response.products ?? [];
+	}
+
+	async get(bankId: string, productCode: string, accessToken?: string): Promise<OBPProduct> {
+		return this.requests.get(this.path`/banks/${bankId}/products/${productCode}`, accessToken);
+	}
+
+	/** Create or replace a product */
+	async put(
+		product: Omit<OBPProduct, 'bank_id' | 'product_code'> & {
+			bank_id: string;
+			product_code: string;
+		},
+		accessToken: string
+	): Promise<OBPProduct> {
+		const { bank_id, product_code, ...body } = product;
+		return this.requests.put(
+			this.path`/banks/${bank_id}/products/${product_code}`,
+			body,
+			accessToken
+		);
+	}
+}
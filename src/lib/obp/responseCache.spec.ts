@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OBPRequests } from './requests';
+import { MemoryCacheStore } from './responseCache';
+
+function jsonResponse(body: any, init: ResponseInit = {}) {
+	return new Response(JSON.stringify(body), { status: 200, ...init });
+}
+
+describe('OBPRequests response cache', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	function cachedRequests(ttlMs = 60_000) {
+		return new OBPRequests('http://obp', {}, { store: new MemoryCacheStore(), ttlMs });
+	}
+
+	it('serves repeated GETs from the cache and coalesces concurrent ones', async () => {
+		const fetchMock = vi.fn(async () => jsonResponse({ banks: [] }));
+		vi.stubGlobal('fetch', fetchMock);
+		const requests = cachedRequests();
+
+		await Promise.all([requests.get('/banks', 'a'), requests.get('/banks', 'a')]);
+		await requests.get('/banks', 'a');
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		// A different token is a different cache entry
+		await requests.get('/banks', 'b');
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('revalidates expired entries with If-None-Match', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(jsonResponse({ banks: ['x'] }, { headers: { ETag: '"v1"' } }))
+			.mockResolvedValueOnce(new Response(null, { status: 304 }));
+		vi.stubGlobal('fetch', fetchMock);
+		const requests = cachedRequests(0);
+
+		await requests.get('/banks');
+		await expect(requests.get('/banks')).resolves.toEqual({ banks: ['x'] });
+		expect(fetchMock.mock.calls[1][1].headers['If-None-Match']).toBe('"v1"');
+	});
+
+	it('invalidates the collection after a mutation', async () => {
+		const fetchMock = vi.fn(async () => jsonResponse({ consents: [] }));
+		vi.stubGlobal('fetch', fetchMock);
+		const requests = cachedRequests();
+
+		await requests.get('/my/consents', 'a');
+		await requests.delete('/my/consents/123', 'a');
+		await requests.get('/my/consents', 'a');
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it('never shares entries between tokens claiming the same subject', async () => {
+		const fetchMock = vi.fn(async () => jsonResponse({ user_id: 'u' }));
+		vi.stubGlobal('fetch', fetchMock);
+		const requests = cachedRequests();
+		const alice = jwt({ iss: 'https://idp-a', sub: 'alice' });
+
+		await requests.get('/users/current', alice);
+		// Unsigned, so anyone could mint it
+		await requests.get('/users/current', jwt({ iss: 'https://idp-a', sub: 'alice', jti: 'other' }));
+		await requests.get('/users/current', alice);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('bypasses the cache for requests with extra headers', async () => {
+		const fetchMock = vi.fn(async () => jsonResponse({ accounts: [] }));
+		vi.stubGlobal('fetch', fetchMock);
+		const requests = cachedRequests();
+
+		await requests.get('/my/accounts', 'a', { headers: { 'Consent-JWT': 'one' } });
+		await requests.get('/my/accounts', 'a', { headers: { 'Consent-JWT': 'two' } });
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+
+		const remove = requests.use({
+			beforeRequest: (request) => {
+				request.headers['X-Correlation-Id'] = 'abc';
+			}
+		});
+		await requests.get('/my/accounts', 'a');
+		await requests.get('/my/accounts', 'a');
+		expect(fetchMock).toHaveBeenCalledTimes(4);
+
+		remove();
+		await requests.get('/my/accounts', 'a');
+		await requests.get('/my/accounts', 'a');
+		expect(fetchMock).toHaveBeenCalledTimes(5);
+	});
+});
+
+/** An unsigned JWT carrying the given claims; the cache only decodes it */
+function jwt(claims: Record<string, string>) {
+	const part = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+	return `${part({ alg: 'none' })}.${part(claims)}.`;
+}
@@ -0,0 +1,175 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('OBPResponseCache');
+
+export interface OBPCacheEntry {
+	data: any;
+	etag?: string;
+	/** Epoch ms after which the entry must be revalidated */
+	expiresAt: number;
+}
+
+/** Where cached GET responses are kept. Keys start with the endpoint path. */
+export interface OBPCacheStore {
+	get(key: string): Promise<OBPCacheEntry | undefined>;
+	/** Store `entry`, dropping it after `retainMs` */
+	set(key: string, entry: OBPCacheEntry, retainMs: number): Promise<void>;
+	deleteByPrefix(prefix: string): Promise<void>;
+}
+
+export interface OBPResponseCacheOptions {
+	store: OBPCacheStore;
+	/** How long a response is served without asking OBP again */
+	ttlMs?: number;
+	/** How long an expired entry is kept for ETag revalidation */
+	staleTtlMs?: number;
+}
+
+/** What a cached GET needs from OBPRequests: send with extra headers, get data and response */
+export type OBPCacheFetcher = (
+	headers: Record<string, string>
+) => Promise<{ data: any; response?: Response }>;
+
+export const DEFAULT_CACHE_TTL_MS = 30_000;
+export const DEFAULT_CACHE_STALE_TTL_MS = 5 * 60_000;
+
+/** In-process store, dropping the oldest entries beyond `maxEntries`. */
+export class MemoryCacheStore implements OBPCacheStore {
+	private entries = new Map<string, { entry: OBPCacheEntry; dropAt: number }>();
+
+	constructor(private maxEntries: number = 500) {}
+
+	async get(key: string): Promise<OBPCacheEntry | undefined> {
+		const stored = this.entries.get(key);
+		if (!stored) return undefined;
+		if (stored.dropAt <= Date.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		return stored.entry;
+	}
+
+	async set(key: string, entry: OBPCacheEntry, retainMs: number): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, { entry, dropAt: Date.now() + retainMs });
+		while (this.entries.size > this.maxEntries) {
+			this.entries.delete(this.entries.keys().next().value!);
+		}
+	}
+
+	async deleteByPrefix(prefix: string): Promise<void> {
+		for (const key of this.entries.keys()) {
+			if (key.startsWith(prefix)) this.entries.delete(key);
+		}
+	}
+}
+
+/**
+ * Cache partition for a token, so cached responses are never shared between users.
+ * A SHA-256 of the whole token: its claims are unverified here, so a token claiming
+ * someone else's `sub` must not reach their entries.
+ */
+export async function tokenSubject(accessToken?: string): Promise<string> {
+	if (!accessToken) return 'anonymous';
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(accessToken));
+	return `token:${Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Caches GET responses per endpoint and access token. Fresh entries are served
+ * directly, expired ones are revalidated with If-None-Match when OBP sent an ETag,
+ * and concurrent identical requests share one call to OBP.
+ */
+export class OBPResponseCache {
+	private store: OBPCacheStore;
+	private ttlMs: number;
+	private staleTtlMs: number;
+	private inFlight = new Map<string, Promise<any>>();
+
+	constructor({
+		store,
+		ttlMs = DEFAULT_CACHE_TTL_MS,
+		staleTtlMs = DEFAULT_CACHE_STALE_TTL_MS
+	}: OBPResponseCacheOptions) {
+		this.store = store;
+		this.ttlMs = ttlMs;
+		this.staleTtlMs = staleTtlMs;
+	}
+
+	async key(endpoint: string, accessToken?: string): Promise<string> {
+		return `${endpoint}#${await tokenSubject(accessToken)}`;
+	}
+
+	async fetch(
+		endpoint: string,
+		accessToken: string | undefined,
+		fetcher: OBPCacheFetcher,
+		ttlMs: number = this.ttlMs
+	): Promise<any> {
+		const key = await this.key(endpoint, accessToken);
+		const pending = this.inFlight.get(key);
+		if (pending) {
+			logger.debug(`Joining in-flight GET ${endpoint}`);
+			return pending;
+		}
+
+		const promise = this.load(key, endpoint, fetcher, ttlMs).finally(() => {
+			this.inFlight.delete(key);
+		});
+		this.inFlight.set(key, promise);
+		return promise;
+	}
+
+	/** Drop cached responses for every endpoint starting with `prefix`, for all users. */
+	async invalidate(prefix: string): Promise<void> {
+		try {
+			await this.store.deleteByPrefix(prefix);
+		} catch (e) {
+			logger.warn(`Failed to invalidate ${prefix}:`, e);
+		}
+	}
+
+	private async load(
+		key: string,
+		endpoint: string,
+		fetcher: OBPCacheFetcher,
+		ttlMs: number
+	): Promise<any> {
+		let cached: OBPCacheEntry | undefined;
+		try {
+			cached = await this.store.get(key);
+		} catch (e) {
+			logger.warn('Failed to read from cache:', e);
+		}
+
+		if (cached && cached.expiresAt > Date.now()) {
+			logger.debug(`Cache hit for ${endpoint}`);
+			return cached.data;
+		}
+
+		const headers: Record<string, string> = cached?.etag ? { 'If-None-Match': cached.etag } : {};
+		const { data, response } = await fetcher(headers);
+		if (!response) {
+			// An interceptor recovered from an error; don't cache its fallback
+			return data;
+		}
+
+		let entry: OBPCacheEntry;
+		if (cached && response.status === 304) {
+			logger.debug(`Revalidated ${endpoint}`);
+			entry = { ...cached, expiresAt: Date.now() + ttlMs };
+		} else {
+			entry = {
+				data,
+				etag: response.headers.get('ETag') ?? undefined,
+				expiresAt: Date.now() + ttlMs
+			};
+		}
+
+		try {
+			await this.store.set(key, entry, ttlMs + this.staleTtlMs);
+		} catch (e) {
+			logger.warn('Failed to write to cache:', e);
+		}
+		return entry.data;
+	}
+}
@@ -9,6 +9,10 @@ export interface OBPBank {
   attributes?: { name: string; value: string }[];
 }
 
+export interface OBPBanksResponse {
+  banks: OBPBank[];
+}
+
 export interface OBPConsent {
     consent_reference_id: string;
     consent_id: string;
@@ -37,6 +41,19 @@ export interface OBPConsent {
     api_version: string;
 }
 
+export interface OBPConsentsResponse {
+    consents: OBPConsent[];
+}
+
+export interface OBPImplicitConsentBody {
+    everything: boolean;
+    entitlements: { role_name: string; bank_id: string }[];
+    consumer_id: string;
+    views: { bank_id: string; account_id: string; view_id: string }[];
+    valid_from?: string;
+    time_to_live?: number;
+}
+
 export interface OBPConsentInfo {
     consent_id: string;
     consumer_id: string;
@@ -93,6 +110,31 @@ export interface OBPAddEntitlementBody {
     bank_id?: string;
 }
 
+export interface OBPEntitlement {
+    entitlement_id: string;
+    role_name: string;
+    bank_id: string;
+}
+
+export interface OBPEntitlementsResponse {
+    list: OBPEntitlement[];
+}
+
+export interface OBPEntitlementRequest {
+    entitlement_request_id: string;
+    role_name: string;
+    bank_id: string;
+    created: string;
+    user?: {
+        user_id: string;
+        username: string;
+    };
+}
+
+export interface OBPEntitlementRequestsResponse {
+    entitlement_requests: OBPEntitlementRequest[];
+}
+
 export interface OBPPasswordResetInitiateRequestBody {
     username: string;
     email: string;
@@ -154,6 +196,12 @@ export interface OBPApiCollectionsResponse {
     api_collections: OBPApiCollection[];
 }
 
+export interface OBPApiCollectionCreateBody {
+    api_collection_name: string;
+    is_sharable: boolean;
+    description?: string;
+}
+
 export interface OBPApiCollectionEndpoint {
     api_collection_endpoint_id: string;
     api_collection_id: string;
@@ -1,12 +1,19 @@
 import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('ChatController');
 import type { ChatService, StreamEvent } from '../services/ChatService';
-import type { ToolMessage, UserMessage } from '../types';
+import type { ToolCall, ToolMessage, UserMessage } from '../types';
 import { ChatState } from '../state/ChatState';
+import type { OutboxController } from './OutboxController';
+import { ToolCallController, type ToolCallApprovalContext } from './ToolCallController';
+import type { ApprovalPolicy } from '../utils/approvalPolicy';
+import { toApprovalAuditEntry, type ApprovalAuditLog } from '../services/ApprovalAuditLog';
 
 export class ChatController {
 	private toolInstanceCounts: Record<string, number> = {};
 	private authRefreshCallback?: () => Promise<void>;
+	private outbox?: OutboxController;
+	private toolCallController?: ToolCallController;
+	private auditLog?: ApprovalAuditLog;
 
 	constructor(
 		private service: ChatService,
@@ -71,8 +78,7 @@ export class ChatController {
 						} as ToolMessage); // Cast to ToolMessage for type safety
 						break;
 					case 'tool_token':
-						// We currently dont stream tool ouput, but keep for future compatibility
-						// No action needed for tool token in this implementation
+						state.appendToolOutput(event.toolCallId, event.token);
 						break;
 					case 'tool_complete':
 						// Debug logging for tool completion
@@ -82,9 +88,11 @@ export class ChatController {
 						);
 						logger.debug(`Tool status: ${event.status}`);
 
-						// Update the toolMessage with the output and status
+						// Update the toolMessage with the output and status,
+						// replacing any output streamed so far with the final parsed result
 						const updates: Partial<ToolMessage> = {
 							toolOutput: event.toolOutput,
+							partialOutput: undefined,
 							status: event.status
 						};
 
@@ -99,6 +107,9 @@ export class ChatController {
 
 						state.updateToolMessage(event.toolCallId, updates);
 						state.markMessageComplete(event.toolCallId);
+						if (state.getToolMessageByCallId(event.toolCallId)?.approvalStatus) {
+							this.recordAudit(event.toolCallId, 'outcome');
+						}
 						logger.debug(
 							`FRONTEND_DEBUG: Tool message updated and marked complete for ${event.toolCallId}`
 						);
@@ -142,10 +153,12 @@ export class ChatController {
 								defaultApprovalLevel: event.defaultApprovalLevel
 							}
 						);
+						this.applyApprovalPolicy([event], false);
 						break;
 					case 'batch_approval_request':
 						logger.debug(`Received batch approval request for ${event.toolCalls.length} tools`);
 						state.addBatchApprovalRequest(event.toolCalls);
+						this.applyApprovalPolicy(event.toolCalls, true);
 						break;
 					case 'consent_request':
 						logger.debug(`Received consent request for tool ${event.toolCallId}, operation: ${event.operationId}, roles: ${JSON.stringify(event.requiredRoles)}, count: ${event.toolCallCount}, bankId: ${event.bankId}`);
@@ -168,6 +181,9 @@ export class ChatController {
 			
 			this.state.removeLoadingMessages();
 
+			// A failed stream will never complete the messages it was writing to
+			this.state.stopAllStreaming(false);
+
 			// Don't show errors for aborted streams - user already sees "generation stopped" message
 			if (err.message && err.message.includes('BodyStreamBuffer was aborted')) {
 				logger.debug('Stream was aborted by user, skipping error message');
@@ -198,6 +214,12 @@ export class ChatController {
 	}
 
 	send(text: string): Promise<void> {
+		// Hold the message back until Opey is reachable again
+		if (this.outbox && !this.outbox.isOnline()) {
+			this.outbox.enqueue(text);
+			return Promise.resolve();
+		}
+
 		// Generate correlation ID for tracking
 		const correlationId = crypto.randomUUID();
 		
@@ -250,6 +272,8 @@ export class ChatController {
 			waitingForApproval: false
 			// Note: isStreaming will be set to true when tool_start event arrives
 		});
+		// Recorded now: the tool's outcome streams in before sendApproval resolves
+		this.recordAudit(toolCallId, 'decision');
 
 		try {
 			await this.service.sendApproval(toolCallId, true, this.state.getThreadId(), levelToUse);
@@ -270,7 +294,10 @@ export class ChatController {
 	 * Deny a tool call that's waiting for user approval.
 	 * Updates the UI state and sends denial to backend.
 	 */
-	async denyToolCall(toolCallId: string): Promise<void> {
+	async denyToolCall(
+		toolCallId: string,
+		reason: string = 'Tool execution was denied by user'
+	): Promise<void> {
 		logger.debug(`Denying tool call: ${toolCallId}`);
 
 		// Update state
@@ -280,8 +307,9 @@ export class ChatController {
 			waitingForApproval: false,
 			isStreaming: false,
 			status: 'error',
-			toolOutput: 'Tool execution was denied by user'
+			toolOutput: reason
 		});
+		this.recordAudit(toolCallId, 'decision');
 
 		try {
 			await this.service.sendApproval(toolCallId, false, this.state.getThreadId());
@@ -324,6 +352,7 @@ export class ChatController {
 					toolOutput: 'Tool execution was denied by user'
 				});
 			}
+			this.recordAudit(toolCallId, 'decision');
 		});
 
 		try {
@@ -426,15 +455,15 @@ export class ChatController {
 
 	/**
 	 * Regenerate the assistant's response starting from a specific user message.
-	 * Removes all messages after the specified message and requests a new response.
+	 * The previous response is kept as a sibling branch and a new response is requested.
 	 * 
 	 * @param messageId - The ID of the user message to regenerate from
 	 */
 	async regenerate(messageId: string): Promise<void> {
 		logger.debug(`Regenerating response from message: ${messageId}`);
 
-		// Remove all messages after this one
-		this.state.removeMessagesAfter(messageId);
+		// Move everything after this message into its own branch
+		this.state.forkAfter(messageId);
 
 		// Add a loading message to show user that assistant is thinking
 		const loadingMessageId = crypto.randomUUID();
@@ -456,6 +485,131 @@ export class ChatController {
 		}
 	}
 
+	/**
+	 * Hydrate the state with an existing thread's messages from the backend.
+	 * All messages are loaded with a single state update.
+	 *
+	 * @param threadId - The backend thread to load
+	 * @returns Whether the backend had any messages for the thread
+	 */
+	async loadThread(threadId: string): Promise<boolean> {
+		logger.debug(`Loading thread history: ${threadId}`);
+
+		const messages = await this.service.loadThread(threadId);
+
+		// Continue tool numbering from where the loaded thread left off
+		this.toolInstanceCounts = {};
+		for (const msg of messages) {
+			if (msg.role === 'tool') {
+				const { toolName, instanceNumber } = msg as ToolMessage;
+				this.toolInstanceCounts[toolName] = Math.max(
+					this.toolInstanceCounts[toolName] ?? 0,
+					instanceNumber ?? 0
+				);
+			}
+		}
+
+		this.state.loadSnapshot({ threadId, messages });
+		return messages.length > 0;
+	}
+
+	/**
+	 * Edit a previous user message and resubmit it.
+	 * The original message and its continuation are kept as a sibling branch.
+	 *
+	 * @param messageId - The ID of the user message to edit
+	 * @param text - The new message text
+	 */
+	async editMessage(messageId: string, text: string): Promise<void> {
+		const original = this.state.getMessage(messageId);
+		if (!original || original.role !== 'user') {
+			throw new Error(`Cannot edit message ${messageId}: not a user message`);
+		}
+		// A queued edit would leave an empty branch behind until it is sent
+		if (this.outbox && !this.outbox.isOnline()) {
+			throw new Error('Messages cannot be edited while Opey is unreachable');
+		}
+		logger.debug(`Editing message ${messageId}`);
+
+		this.state.forkAt(messageId);
+		// The new message follows the same parent, so the backend forks the thread there
+		await this.send(text);
+	}
+
+	/**
+	 * Show another sibling branch of a message.
+	 *
+	 * @param messageId - A message with sibling branches
+	 * @param branchIndex - Zero-based index of the branch to show
+	 */
+	switchBranch(messageId: string, branchIndex: number): void {
+		this.state.switchBranch(messageId, branchIndex);
+	}
+
+	/**
+	 * Run approval requests through the policy, if one is set.
+	 * Single requests are decided straight away. A batch is only submitted automatically
+	 * when the policy decides every call in it; otherwise the automatic decisions are
+	 * pre-filled for the user to review.
+	 */
+	private applyApprovalPolicy(
+		requests: Array<
+			{ toolCallId: string; toolName: string; toolInput: Record<string, any> } & ToolCallApprovalContext
+		>,
+		batch: boolean
+	): void {
+		const controller = this.toolCallController;
+		if (!controller) return;
+
+		const decisions = new Map<string, { approved: boolean; level: string }>();
+		for (const request of requests) {
+			const call: ToolCall = {
+				id: request.toolCallId,
+				name: request.toolName,
+				args: request.toolInput,
+				status: 'awaiting_approval'
+			};
+			const evaluation = controller.evaluate(call, request);
+			if (evaluation.decision === 'manual') continue;
+
+			this.state.updateToolMessage(request.toolCallId, {
+				autoApproval: { decision: evaluation.decision, ruleName: evaluation.rule?.name }
+			});
+			decisions.set(request.toolCallId, {
+				approved: evaluation.decision === 'approve',
+				level: evaluation.rule?.level ?? request.defaultApprovalLevel ?? 'once'
+			});
+
+			if (!batch) {
+				controller
+					.apply(call, evaluation, request)
+					.catch((error) => logger.error(`Failed to apply approval policy to ${call.id}:`, error));
+			}
+		}
+
+		if (batch && decisions.size === requests.length) {
+			this.submitBatchApproval(decisions).catch((error) =>
+				logger.error('Failed to submit automatic batch approval:', error)
+			);
+		}
+	}
+
+	/**
+	 * Append an entry for an approval decision or its outcome to the audit log, if one is set.
+	 * Failures are logged rather than surfaced, so auditing never blocks the chat.
+	 */
+	private recordAudit(toolCallId: string, kind: 'decision' | 'outcome'): void {
+		const log = this.auditLog;
+		const tool = this.state.getToolMessageByCallId(toolCallId);
+		if (!log || !tool) return;
+
+		log
+			.record(toApprovalAuditEntry(tool, this.state.getThreadId(), kind))
+			.catch((error) =>
+				logger.error(`Failed to record approval audit entry for ${toolCallId}:`, error)
+			);
+	}
+
 	private assignToolInstance(toolName: string): number {
 		if (!this.toolInstanceCounts[toolName]) {
 			this.toolInstanceCounts[toolName] = 0;
@@ -475,4 +629,34 @@ export class ChatController {
 	onAuthRefreshNeeded(callback: () => Promise<void>): void {
 		this.authRefreshCallback = callback;
 	}
+
+	/**
+	 * Decide approval requests with a client-side policy before asking the user.
+	 * Returns the ToolCallController applying it.
+	 */
+	useApprovalPolicy(policy: ApprovalPolicy): ToolCallController {
+		this.toolCallController = new ToolCallController(
+			{
+				approve: (call, level) => this.approveToolCall(call.id, level),
+				reject: (call, reason) => this.denyToolCall(call.id, reason)
+			},
+			policy
+		);
+		return this.toolCallController;
+	}
+
+	/**
+	 * Queue messages sent while offline in the given outbox instead of sending them.
+	 * Called by OutboxController when it is created.
+	 */
+	setOutbox(outbox: OutboxController): void {
+		this.outbox = outbox;
+	}
+
+	/**
+	 * Record every approval decision, and the result of each approved tool, in the given log.
+	 */
+	setAuditLog(log: ApprovalAuditLog): void {
+		this.auditLog = log;
+	}
 }
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ChatHistoryController } from './ChatHistoryController';
+import { ChatState } from '../state/ChatState';
+import { LocalStorageChatHistoryStore } from '../services/LocalStorageChatHistoryStore';
+import type { UserMessage } from '../types';
+
+function userMessage(text: string): UserMessage {
+	const id = crypto.randomUUID();
+	return { id, correlationId: id, role: 'user', message: text, timestamp: new Date() };
+}
+
+describe('ChatHistoryController', () => {
+	let store: LocalStorageChatHistoryStore;
+	let state: ChatState;
+	let controller: ChatHistoryController;
+
+	beforeEach(() => {
+		localStorage.clear();
+		store = new LocalStorageChatHistoryStore();
+		state = new ChatState('thread-1');
+		controller = new ChatHistoryController(store, state, 0);
+	});
+
+	it('saves threads titled after the first user message, skipping loading placeholders', async () => {
+		state.addMessage(userMessage('How do I list banks?'));
+		state.addMessage({
+			id: 'loading',
+			role: 'assistant',
+			message: '',
+			timestamp: new Date(),
+			isLoading: true
+		});
+		await controller.flush();
+
+		const [thread] = await store.listThreads();
+		expect(thread).toMatchObject({ threadId: 'thread-1', title: 'How do I list banks?' });
+		expect((await store.load('thread-1'))?.messages).toHaveLength(1);
+	});
+
+	it('does not store threads without a user message', async () => {
+		state.addMessage({ id: 'hi', role: 'assistant', message: 'Hello!', timestamp: new Date() });
+		await controller.flush();
+
+		expect(await store.listThreads()).toEqual([]);
+	});
+
+	it('switches between threads and restores their messages', async () => {
+		state.addMessage(userMessage('first'));
+		await controller.newThread();
+		state.addMessage(userMessage('second'));
+		await controller.flush();
+
+		await controller.switchThread('thread-1');
+
+		expect(state.getThreadId()).toBe('thread-1');
+		expect(await controller.refreshThreads()).toHaveLength(2);
+	});
+
+	it('keeps a custom title when the thread is saved again', async () => {
+		state.addMessage(userMessage('original'));
+		await controller.renameThread('thread-1', 'Renamed');
+		state.addMessage(userMessage('more'));
+		await controller.flush();
+
+		const [thread] = await store.listThreads();
+		expect(thread.title).toBe('Renamed');
+	});
+
+	it('moves the stored thread when the backend syncs a new thread ID', async () => {
+		state.addMessage(userMessage('hello'));
+		await controller.flush();
+
+		state.syncThreadId('backend-thread');
+		await controller.flush();
+
+		const threads = await store.listThreads();
+		expect(threads.map((t) => t.threadId)).toEqual(['backend-thread']);
+	});
+
+	it('starts a new thread when the active one is deleted', async () => {
+		state.addMessage(userMessage('hello'));
+		await controller.flush();
+
+		await controller.deleteThread('thread-1');
+
+		expect(state.getThreadId()).not.toBe('thread-1');
+		expect(await store.listThreads()).toEqual([]);
+	});
+});
@@ -0,0 +1,173 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('ChatHistoryController');
+import type { ChatHistoryStore, ChatThreadSummary } from '../services/ChatHistoryStore';
+import type { ChatState, ChatStateSnapshot } from '../state/ChatState';
+
+/**
+ * Keeps a ChatState persisted in a ChatHistoryStore and manages the list of past threads.
+ *
+ * Conversation changes are saved after a short debounce, so streamed tokens
+ * don't each trigger a write. Threads are only stored once they contain a user message.
+ * History failures are logged but never interrupt the chat itself.
+ */
+export class ChatHistoryController {
+	private threads: ChatThreadSummary[] = [];
+	private subscribers: Array<(threads: ChatThreadSummary[]) => void> = [];
+	private currentThreadId: string;
+	private pendingSnapshot?: ChatStateSnapshot;
+	private saveTimer?: ReturnType<typeof setTimeout>;
+	private isSwitching = false;
+
+	constructor(
+		private store: ChatHistoryStore,
+		public state: ChatState,
+		private saveDelayMs: number = 1000
+	) {
+		this.currentThreadId = state.getThreadId();
+		state.subscribe((snapshot) => this.handleStateChange(snapshot));
+	}
+
+	subscribe(fn: (threads: ChatThreadSummary[]) => void): void {
+		this.subscribers.push(fn);
+		fn(this.threads);
+	}
+
+	/** Reload the thread list from the store. */
+	async refreshThreads(): Promise<ChatThreadSummary[]> {
+		try {
+			this.threads = await this.store.listThreads();
+			this.emit();
+		} catch (error) {
+			logger.error('Failed to list chat threads:', error);
+		}
+		return this.threads;
+	}
+
+	/** Restore the most recently active thread, if there is one. */
+	async restoreLatest(): Promise<boolean> {
+		const [latest] = await this.refreshThreads();
+		if (!latest) return false;
+		return this.switchThread(latest.threadId);
+	}
+
+	async switchThread(threadId: string): Promise<boolean> {
+		if (threadId === this.currentThreadId) return true;
+		await this.flush();
+
+		let snapshot: ChatStateSnapshot | null = null;
+		try {
+			snapshot = await this.store.load(threadId);
+		} catch (error) {
+			logger.error(`Failed to load thread ${threadId}:`, error);
+		}
+		if (!snapshot) {
+			logger.warn(`Thread ${threadId} not found in history`);
+			return false;
+		}
+
+		this.isSwitching = true;
+		try {
+			this.state.loadSnapshot(snapshot);
+		} finally {
+			this.isSwitching = false;
+		}
+		return true;
+	}
+
+	/** Save the current thread and start an empty one. */
+	async newThread(): Promise<void> {
+		await this.flush();
+		this.state.setThreadId();
+	}
+
+	async renameThread(threadId: string, title: string): Promise<void> {
+		if (!title.trim()) return;
+		// Make sure the thread exists in the store before renaming it
+		if (threadId === this.currentThreadId) await this.flush();
+
+		try {
+			await this.store.rename(threadId, title.trim());
+		} catch (error) {
+			logger.error(`Failed to rename thread ${threadId}:`, error);
+		}
+		await this.refreshThreads();
+	}
+
+	async deleteThread(threadId: string): Promise<void> {
+		if (threadId === this.currentThreadId) {
+			this.cancelPendingSave();
+		}
+
+		try {
+			await this.store.delete(threadId);
+		} catch (error) {
+			logger.error(`Failed to delete thread ${threadId}:`, error);
+		}
+
+		if (threadId === this.currentThreadId) {
+			this.state.setThreadId();
+		}
+		await this.refreshThreads();
+	}
+
+	/** Write any pending change immediately. */
+	async flush(): Promise<void> {
+		const snapshot = this.pendingSnapshot;
+		this.cancelPendingSave();
+		if (!snapshot) return;
+
+		try {
+			await this.store.save(snapshot);
+		} catch (error) {
+			logger.error(`Failed to save thread ${snapshot.threadId}:`, error);
+			return;
+		}
+		await this.refreshThreads();
+	}
+
+	private handleStateChange(snapshot: ChatStateSnapshot): void {
+		if (snapshot.threadId !== this.currentThreadId) {
+			const previousThreadId = this.currentThreadId;
+			this.currentThreadId = snapshot.threadId;
+
+			if (this.isSwitching) {
+				// Loaded from the store - nothing new to save
+				return;
+			}
+
+			if (snapshot.messages.length > 0) {
+				// Backend assigned a different thread ID to the same conversation; move it
+				logger.debug(`Moving stored thread ${previousThreadId} -> ${snapshot.threadId}`);
+				this.cancelPendingSave();
+				this.store
+					.delete(previousThreadId)
+					.catch((error) => logger.warn(`Failed to remove old thread ${previousThreadId}:`, error));
+			} else {
+				// A new, empty thread; save what was pending for the previous one
+				this.flush();
+				return;
+			}
+		}
+
+		if (!snapshot.messages.some((msg) => msg.role === 'user')) {
+			return;
+		}
+
+		this.pendingSnapshot = snapshot;
+		if (!this.saveTimer) {
+			this.saveTimer = setTimeout(() => this.flush(), this.saveDelayMs);
+		}
+	}
+
+	private cancelPendingSave(): void {
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = undefined;
+		}
+		this.pendingSnapshot = undefined;
+	}
+
+	private emit(): void {
+		this.subscribers.forEach((fn) => fn(this.threads));
+	}
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OutboxController } from './OutboxController';
+import { ChatController } from './ChatController';
+import { ChatState } from '../state/ChatState';
+import { SessionState } from '../state/SessionState';
+import { OutboxState } from '../state/OutboxState';
+import type { ChatService } from '../services/ChatService';
+import type { UserMessage } from '../types';
+
+function fakeChatService() {
+	const sent: string[] = [];
+	let failNext = false;
+	const service = {
+		send: vi.fn(async (msg: UserMessage) => {
+			if (failNext) {
+				failNext = false;
+				throw new Error('Connection lost');
+			}
+			sent.push(msg.message);
+		}),
+		sendApproval: vi.fn(),
+		sendBatchApproval: vi.fn(),
+		sendConsentResponse: vi.fn(),
+		regenerate: vi.fn(),
+		loadThread: vi.fn(async () => []),
+		onStreamEvent: vi.fn(),
+		onError: vi.fn(),
+		cancel: vi.fn()
+	} as unknown as ChatService;
+	return { service, sent, failNextSend: () => void (failNext = true) };
+}
+
+describe('OutboxController', () => {
+	let sessionState: SessionState;
+	let chatState: ChatState;
+	let chat: ChatController;
+	let sent: string[];
+	let failNextSend: () => void;
+
+	beforeEach(() => {
+		localStorage.clear();
+		const fake = fakeChatService();
+		sent = fake.sent;
+		failNextSend = fake.failNextSend;
+		sessionState = new SessionState();
+		chatState = new ChatState('thread-1');
+		chat = new ChatController(fake.service, chatState);
+	});
+
+	it('queues messages while the session is not ready and sends them in order once it is', async () => {
+		const controller = new OutboxController(chat, sessionState, new OutboxState('user-1'));
+		sessionState.setStatus('error', 'Network down');
+
+		await chat.send('first');
+		await chat.send('second');
+
+		expect(sent).toEqual([]);
+		expect(chatState.getThreadId()).toBe('thread-1');
+		expect(controller.outbox.getItems('thread-1').map((m) => m.text)).toEqual(['first', 'second']);
+
+		sessionState.setStatus('ready');
+		await controller.flush();
+
+		expect(sent).toEqual(['first', 'second']);
+		expect(controller.outbox.getItems()).toEqual([]);
+	});
+
+	it('keeps a message queued ahead of later ones until its send succeeds', async () => {
+		const controller = new OutboxController(chat, sessionState, new OutboxState('user-1'));
+		await chat.send('first');
+		await chat.send('second');
+
+		failNextSend();
+		sessionState.setStatus('ready');
+		await controller.flush();
+
+		expect(sent).toEqual([]);
+		expect(controller.outbox.getItems().map((m) => m.text)).toEqual(['first', 'second']);
+
+		sessionState.setStatus('error', 'Network down');
+		await chat.send('third');
+		sessionState.setStatus('ready');
+		await controller.flush();
+
+		expect(sent).toEqual(['first', 'second', 'third']);
+		expect(controller.outbox.getItems()).toEqual([]);
+	});
+
+	it('keeps queued messages across reloads', async () => {
+		new OutboxController(chat, sessionState, new OutboxState('user-1'));
+		await chat.send('survives a reload');
+
+		const reloaded = new OutboxState('user-1');
+
+		expect(reloaded.getItems()).toEqual([
+			expect.objectContaining({ threadId: 'thread-1', text: 'survives a reload' })
+		]);
+		expect(reloaded.getItems()[0].queuedAt).toBeInstanceOf(Date);
+	});
+
+	it("keeps each user's queue apart and drops them all on logout", async () => {
+		new OutboxController(chat, sessionState, new OutboxState('user-1'));
+		await chat.send('from user 1');
+
+		expect(new OutboxState('user-2').getItems()).toEqual([]);
+
+		OutboxState.clearStored();
+
+		expect(new OutboxState('user-1').getItems()).toEqual([]);
+	});
+
+	it('reconnects a failed session when the browser comes back online', async () => {
+		const reconnect = vi.fn(async () => sessionState.setStatus('ready'));
+		new OutboxController(chat, sessionState, new OutboxState('user-1'), reconnect);
+		sessionState.setStatus('error', 'Network down');
+		await chat.send('queued');
+
+		window.dispatchEvent(new Event('online'));
+		await vi.waitFor(() => expect(sent).toEqual(['queued']));
+
+		expect(reconnect).toHaveBeenCalledOnce();
+	});
+
+	it('sends edited text and skips cancelled messages', async () => {
+		const controller = new OutboxController(chat, sessionState, new OutboxState('user-1'));
+		await chat.send('typo');
+		await chat.send('never mind');
+
+		const [first, second] = controller.outbox.getItems();
+		controller.edit(first.id, 'fixed');
+		controller.cancel(second.id);
+
+		sessionState.setStatus('ready');
+		await controller.flush();
+
+		expect(sent).toEqual(['fixed']);
+	});
+
+	it('leaves messages for other threads queued until that thread is active', async () => {
+		const controller = new OutboxController(chat, sessionState, new OutboxState('user-1'));
+		await chat.send('for thread 1');
+		chatState.setThreadId('thread-2');
+
+		sessionState.setStatus('ready');
+		await controller.flush();
+
+		expect(sent).toEqual([]);
+		expect(controller.outbox.getItems('thread-1')).toHaveLength(1);
+	});
+});
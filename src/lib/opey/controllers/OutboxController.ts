@@ -0,0 +1,116 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('OutboxController');
+import type { ChatController } from './ChatController';
+import type { SessionSnapshot, SessionState } from '../state/SessionState';
+import type { OutboxState, QueuedMessage } from '../state/OutboxState';
+
+/**
+ * Queues messages sent while Opey can't be reached and sends them later.
+ *
+ * Once attached, ChatController.send queues instead of sending whenever the session
+ * isn't `ready` or the browser is offline. Queued messages for the active thread are
+ * sent in order as soon as both are back. `reconnect` is called when the browser comes
+ * back online while the session has failed, e.g. to start a new one.
+ */
+export class OutboxController {
+	private session?: SessionSnapshot;
+	private activeThreadId: string;
+	private flushing?: Promise<void>;
+	private handleOnline = async () => {
+		if (this.session?.status === 'error' && this.reconnect) {
+			try {
+				await this.reconnect();
+			} catch (error) {
+				logger.error('Failed to reconnect after coming back online:', error);
+			}
+		}
+		await this.flush();
+	};
+
+	constructor(
+		private chat: ChatController,
+		sessionState: SessionState,
+		public outbox: OutboxState,
+		private reconnect?: () => Promise<void>
+	) {
+		chat.setOutbox(this);
+		this.activeThreadId = chat.state.getThreadId();
+
+		sessionState.subscribe((snapshot) => {
+			this.session = snapshot;
+			this.flush();
+		});
+
+		// Messages queued for another thread go out when the user returns to it
+		chat.state.subscribe(({ threadId }) => {
+			if (threadId === this.activeThreadId) return;
+			this.activeThreadId = threadId;
+			this.flush();
+		});
+
+		if (typeof window !== 'undefined') {
+			window.addEventListener('online', this.handleOnline);
+		}
+	}
+
+	/** Whether messages can be sent right now */
+	isOnline(): boolean {
+		const browserOnline = typeof navigator === 'undefined' || navigator.onLine;
+		return this.session?.status === 'ready' && browserOnline;
+	}
+
+	enqueue(text: string): QueuedMessage {
+		logger.info('Opey is unreachable - queueing message');
+		return this.outbox.enqueue(this.chat.state.getThreadId(), text);
+	}
+
+	edit(id: string, text: string): void {
+		if (!text.trim()) return;
+		this.outbox.update(id, text.trim());
+	}
+
+	cancel(id: string): void {
+		this.outbox.remove(id);
+	}
+
+	/**
+	 * Send the active thread's queued messages in order, stopping if we go offline again.
+	 * A message stays at the front of the queue until its send succeeds, so anything
+	 * queued meanwhile goes out after it.
+	 */
+	flush(): Promise<void> {
+		// Only one flush at a time; callers share the one in progress
+		if (!this.flushing) {
+			this.flushing = this.sendQueued().finally(() => {
+				this.flushing = undefined;
+			});
+		}
+		return this.flushing;
+	}
+
+	private async sendQueued(): Promise<void> {
+		while (this.isOnline()) {
+			const [next] = this.outbox.getItems(this.chat.state.getThreadId());
+			if (!next) break;
+
+			logger.debug(`Sending queued message ${next.id}`);
+			try {
+				await this.chat.send(next.text);
+			} catch (error) {
+				// ChatController already surfaces the failure in the conversation
+				logger.error(
+					`Failed to send queued message ${next.id}, retrying on the next flush:`,
+					error
+				);
+				break;
+			}
+			this.outbox.remove(next.id);
+		}
+	}
+
+	destroy(): void {
+		if (typeof window !== 'undefined') {
+			window.removeEventListener('online', this.handleOnline);
+		}
+	}
+}
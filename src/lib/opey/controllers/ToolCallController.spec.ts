@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ChatController } from './ChatController';
+import { ChatState } from '../state/ChatState';
+import type { ChatService, StreamEvent } from '../services/ChatService';
+import type { ToolMessage } from '../types';
+
+function approvalRequest(toolCallId: string, method: string) {
+	return {
+		toolCallId,
+		toolName: 'obp_requests',
+		toolInput: { method, endpoint: '/obp/v5.1.0/banks' },
+		message: `${method} /obp/v5.1.0/banks`,
+		riskLevel: method === 'GET' ? 'low' : 'high',
+		affectedResources: [],
+		reversible: method === 'GET',
+		estimatedImpact: '',
+		similarOperationsCount: 0,
+		availableApprovalLevels: ['once', 'session'],
+		defaultApprovalLevel: 'once'
+	};
+}
+
+describe('ChatController approval policies', () => {
+	let emit: (event: StreamEvent) => void;
+	let service: ChatService;
+	let state: ChatState;
+	let controller: ChatController;
+
+	beforeEach(() => {
+		service = {
+			send: vi.fn(),
+			sendApproval: vi.fn(async () => {}),
+			sendBatchApproval: vi.fn(async () => {}),
+			sendConsentResponse: vi.fn(),
+			regenerate: vi.fn(),
+			loadThread: vi.fn(),
+			onStreamEvent: vi.fn((fn) => (emit = fn)),
+			onError: vi.fn(),
+			cancel: vi.fn()
+		} as unknown as ChatService;
+		state = new ChatState('thread-1');
+		controller = new ChatController(service, state);
+		controller.useApprovalPolicy({
+			rules: [
+				{ name: 'Reads', method: 'GET', decision: 'approve' },
+				{ name: 'No deletes', method: 'DELETE', decision: 'deny' }
+			]
+		});
+	});
+
+	it('auto-approves and auto-denies single requests and records the rule', () => {
+		emit({ type: 'approval_request', ...approvalRequest('read', 'GET') });
+		emit({ type: 'approval_request', ...approvalRequest('delete', 'DELETE') });
+
+		expect(service.sendApproval).toHaveBeenCalledWith('read', true, 'thread-1', 'once');
+		expect(service.sendApproval).toHaveBeenCalledWith('delete', false, 'thread-1');
+		expect(state.getToolMessageByCallId('read')).toMatchObject({
+			approvalStatus: 'approved',
+			autoApproval: { decision: 'approve', ruleName: 'Reads' }
+		} as Partial<ToolMessage>);
+		expect(state.getToolMessageByCallId('delete')?.toolOutput).toBe(
+			'Denied by approval policy "No deletes"'
+		);
+	});
+
+	it('leaves requests no rule matches for the user', () => {
+		emit({ type: 'approval_request', ...approvalRequest('write', 'POST') });
+
+		expect(service.sendApproval).not.toHaveBeenCalled();
+		expect(state.getToolMessageByCallId('write')?.waitingForApproval).toBe(true);
+	});
+
+	it('submits a batch only when the policy decides every call', () => {
+		emit({
+			type: 'batch_approval_request',
+			toolCalls: [approvalRequest('a', 'GET'), approvalRequest('b', 'POST')],
+			options: []
+		});
+		expect(service.sendBatchApproval).not.toHaveBeenCalled();
+		expect(state.getToolMessageByCallId('a')?.autoApproval?.decision).toBe('approve');
+
+		emit({
+			type: 'batch_approval_request',
+			toolCalls: [approvalRequest('c', 'GET'), approvalRequest('d', 'DELETE')],
+			options: []
+		});
+		expect(service.sendBatchApproval).toHaveBeenCalledWith(
+			{ c: { approved: true, level: 'once' }, d: { approved: false, level: 'once' } },
+			'thread-1'
+		);
+	});
+});
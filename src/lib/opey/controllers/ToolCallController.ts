@@ -1,19 +1,76 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('ToolCallController');
 import type { ToolCall } from '../types';
+import {
+	ApprovalPolicyEngine,
+	type ApprovalEvaluation,
+	type ApprovalPolicy,
+	type ApprovalRequestContext
+} from '../utils/approvalPolicy';
 
-//WIP
+/** Carries out approval decisions, e.g. by sending them to Opey */
 export interface ToolCallApprover {
-    approve(call: ToolCall): Promise<void>;
-    reject(call: ToolCall): void
+	approve(call: ToolCall, level?: string): Promise<void>;
+	reject(call: ToolCall, reason: string): Promise<void>;
 }
 
+/** Details of an approval request used by policies, beyond the tool call itself */
+export type ToolCallApprovalContext = Partial<
+	Pick<ApprovalRequestContext, 'riskLevel' | 'reversible' | 'method' | 'endpoint'>
+> & {
+	/** Approval level used when an approving rule doesn't set one */
+	defaultApprovalLevel?: string;
+};
+
+/**
+ * Decides tool calls awaiting approval using an ApprovalPolicy.
+ * Calls the policy approves or denies are passed to the approver straight away;
+ * everything else is left for the user.
+ */
 export class ToolCallController {
-    constructor(private approver: ToolCallApprover) { }
+	private engine: ApprovalPolicyEngine;
+
+	constructor(
+		private approver: ToolCallApprover,
+		policy?: ApprovalPolicy
+	) {
+		this.engine = new ApprovalPolicyEngine(policy);
+	}
+
+	evaluate(call: ToolCall, context: ToolCallApprovalContext = {}): ApprovalEvaluation {
+		return this.engine.evaluate({ toolName: call.name, toolInput: call.args, ...context });
+	}
 
+	/** Carry out an automatic decision. Does nothing for 'manual'. */
+	async apply(
+		call: ToolCall,
+		evaluation: ApprovalEvaluation,
+		context: ToolCallApprovalContext = {}
+	): Promise<void> {
+		const ruleName = evaluation.rule?.name;
 
-    // Need to implement logic to handle rejecting a call
-    async handle(call: ToolCall) {
-        if (call.status === 'awaiting_approval') {
-            await this.approver.approve(call)
-        }
-    }
-}
\ No newline at end of file
+		if (evaluation.decision === 'approve') {
+			logger.info(`Auto-approving ${call.name} (${call.id}) by rule "${ruleName ?? 'default'}"`);
+			await this.approver.approve(call, evaluation.rule?.level ?? context.defaultApprovalLevel);
+		} else if (evaluation.decision === 'deny') {
+			logger.info(`Auto-denying ${call.name} (${call.id}) by rule "${ruleName ?? 'default'}"`);
+			await this.approver.reject(
+				call,
+				ruleName ? `Denied by approval policy "${ruleName}"` : 'Denied by approval policy'
+			);
+		}
+	}
+
+	/**
+	 * Apply the policy to a call awaiting approval.
+	 * Returns the evaluation, so callers can tell whether the user still has to decide.
+	 */
+	async handle(call: ToolCall, context: ToolCallApprovalContext = {}): Promise<ApprovalEvaluation> {
+		if (call.status !== 'awaiting_approval') {
+			return { decision: 'manual' };
+		}
+		const evaluation = this.evaluate(call, context);
+		await this.apply(call, evaluation, context);
+		return evaluation;
+	}
+}
@@ -2,7 +2,12 @@
 export { ChatController } from './controllers/ChatController.js';
 export { SessionController } from './controllers/SessionController.js';
 export { ToolCallController } from './controllers/ToolCallController.js';
-export type { ToolCallApprover } from './controllers/ToolCallController.js';
+export { ChatHistoryController } from './controllers/ChatHistoryController.js';
+export { OutboxController } from './controllers/OutboxController.js';
+export type {
+	ToolCallApprover,
+	ToolCallApprovalContext
+} from './controllers/ToolCallController.js';
 
 // Services
 export { CookieAuthStrategy } from './services/AuthStrategy.js';
@@ -10,17 +15,79 @@ export type { AuthStrategy } from './services/AuthStrategy.js';
 export type { ChatService, StreamEvent } from './services/ChatService.js';
 export { OpeySessionService } from './services/OpeySessionService.js';
 export { RestChatService } from './services/RestChatService.js';
+export { WebSocketChatService } from './services/WebSocketChatService.js';
+export { fetchThreadMessages, toThreadMessages } from './services/threadHistory.js';
+export type {
+	OpeySocketFrame,
+	WebSocketFactory,
+	WebSocketLike,
+	WebSocketChatServiceOptions
+} from './services/WebSocketChatService.js';
 export type { SessionService } from './services/SessionService.js';
+export { LocalStorageChatHistoryStore } from './services/LocalStorageChatHistoryStore.js';
+export { IndexedDBChatHistoryStore } from './services/IndexedDBChatHistoryStore.js';
+export { ServerChatHistoryStore } from './services/ServerChatHistoryStore.js';
+export type {
+	ChatHistoryStore,
+	ChatThreadSummary,
+	StoredChatThread,
+	StoredThreadSummary
+} from './services/ChatHistoryStore.js';
+export { toApprovalAuditEntry } from './services/ApprovalAuditLog.js';
+export type {
+	ApprovalAuditEntry,
+	ApprovalAuditLog,
+	RecordedApprovalAuditEntry
+} from './services/ApprovalAuditLog.js';
+export { ServerApprovalAuditLog } from './services/ServerApprovalAuditLog.js';
+export { RoleConsentService } from './services/RoleConsentService.js';
+export type { ActiveRoleConsent } from './services/RoleConsentService.js';
+export { EntitlementRequestService } from './services/EntitlementRequestService.js';
+export type {
+	PendingEntitlementRequest,
+	EntitlementRequestStatus
+} from './services/EntitlementRequestService.js';
 
 // State
 export { ChatState } from './state/ChatState.js';
-export type { ChatStateSnapshot } from './state/ChatState.js';
+export type { ChatBranch, ChatStateSnapshot, MessageBranchInfo } from './state/ChatState.js';
 export { SessionState } from './state/SessionState.js';
 export type { SessionSnapshot } from './state/SessionState.js';
+export { OutboxState } from './state/OutboxState.js';
+export type { QueuedMessage } from './state/OutboxState.js';
 
 // Utils
-export { expandRoleRequirements, pickConsentRole, deduplicateRoles } from './utils/roles.js';
+export {
+	expandRoleRequirements,
+	pickConsentRole,
+	deduplicateRoles,
+	deriveRoleSupersession,
+	ROLE_SUPERSEDED_BY
+} from './utils/roles.js';
+export type { RoleSupersession, OBPRoleInfo, RoleRequirement } from './utils/roles.js';
 export { chatToMarkdown, messageToMarkdown } from './utils/chatToMarkdown.js';
+export { SSEDecoder, readSSE } from './utils/sse.js';
+export type { SSEEvent, SSEDecoderOptions } from './utils/sse.js';
+export { ApprovalPolicyEngine } from './utils/approvalPolicy.js';
+export type {
+	ApprovalDecision,
+	ApprovalEvaluation,
+	ApprovalPolicy,
+	ApprovalRequestContext,
+	ApprovalRule
+} from './utils/approvalPolicy.js';
+export {
+	DEFAULT_CONSENT_POLICY,
+	consentDurationOptions,
+	consentRoleOptions,
+	validateConsentRequest,
+	formatConsentDuration
+} from './utils/consentPolicy.js';
+export type {
+	ConsentPolicy,
+	ConsentViewScope,
+	ConsentScopeRequest
+} from './utils/consentPolicy.js';
 
 // Types
 export type {
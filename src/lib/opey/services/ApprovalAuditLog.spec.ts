@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ChatController } from '../controllers/ChatController';
+import { ChatState } from '../state/ChatState';
+import type { ChatService, StreamEvent } from './ChatService';
+import type { ApprovalAuditEntry, ApprovalAuditLog } from './ApprovalAuditLog';
+
+function approvalRequest(toolCallId: string, method: string) {
+	return {
+		toolCallId,
+		toolName: 'obp_requests',
+		toolInput: { method, endpoint: '/obp/v5.1.0/banks' },
+		message: `${method} /obp/v5.1.0/banks`,
+		riskLevel: 'high',
+		affectedResources: ['bank:gh.29.uk'],
+		reversible: false,
+		estimatedImpact: '',
+		similarOperationsCount: 0,
+		availableApprovalLevels: ['once', 'session'],
+		defaultApprovalLevel: 'once'
+	};
+}
+
+describe('ChatController approval auditing', () => {
+	let emit: (event: StreamEvent) => void;
+	let service: ChatService;
+	let entries: ApprovalAuditEntry[];
+	let controller: ChatController;
+	let finishApprovalStream: () => void;
+
+	beforeEach(() => {
+		// Like the real services, approvals resolve only once their stream has ended,
+		// after the tool's events have arrived
+		const approvalStream = () => new Promise<void>((resolve) => (finishApprovalStream = resolve));
+		service = {
+			send: vi.fn(),
+			sendApproval: vi.fn(approvalStream),
+			sendBatchApproval: vi.fn(approvalStream),
+			sendConsentResponse: vi.fn(),
+			regenerate: vi.fn(),
+			loadThread: vi.fn(),
+			onStreamEvent: vi.fn((fn) => (emit = fn)),
+			onError: vi.fn(),
+			cancel: vi.fn()
+		} as unknown as ChatService;
+		entries = [];
+		const log: ApprovalAuditLog = { record: vi.fn(async (entry) => void entries.push(entry)) };
+		controller = new ChatController(service, new ChatState('thread-1'));
+		controller.setAuditLog(log);
+	});
+
+	it('records the decision and the outcome of an approved tool', async () => {
+		emit({ type: 'approval_request', ...approvalRequest('write', 'POST') });
+		const approval = controller.approveToolCall('write', 'session');
+		emit({
+			type: 'tool_complete',
+			toolCallId: 'write',
+			toolName: 'obp_requests',
+			toolOutput: {},
+			status: 'success'
+		});
+		finishApprovalStream();
+		await approval;
+
+		expect(entries).toHaveLength(2);
+		expect(entries[0]).toMatchObject({
+			kind: 'decision',
+			threadId: 'thread-1',
+			toolName: 'obp_requests',
+			decision: 'approved',
+			decidedBy: 'user',
+			approvalLevel: 'session',
+			riskLevel: 'high',
+			affectedResources: ['bank:gh.29.uk'],
+			toolStatus: 'pending'
+		});
+		expect(entries[1]).toMatchObject({ kind: 'outcome', toolStatus: 'success' });
+	});
+
+	it('records policy decisions in a batch', async () => {
+		controller.useApprovalPolicy({
+			rules: [{ name: 'No deletes', method: 'DELETE', decision: 'deny' }]
+		});
+		emit({
+			type: 'batch_approval_request',
+			toolCalls: [approvalRequest('a', 'DELETE'), approvalRequest('b', 'DELETE')],
+			options: []
+		});
+		await vi.waitFor(() => expect(entries).toHaveLength(2));
+
+		expect(entries.map((e) => [e.toolCallId, e.decision, e.decidedBy, e.ruleName])).toEqual([
+			['a', 'denied', 'policy', 'No deletes'],
+			['b', 'denied', 'policy', 'No deletes']
+		]);
+	});
+});
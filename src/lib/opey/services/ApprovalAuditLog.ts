@@ -0,0 +1,60 @@
+import type { ToolMessage } from '../types';
+
+/**
+ * One record in the approval audit trail.
+ *
+ * A 'decision' entry is written when a tool call is approved or denied, and an
+ * 'outcome' entry once an approved tool has finished, carrying its final status.
+ */
+export interface ApprovalAuditEntry {
+	kind: 'decision' | 'outcome';
+	threadId: string;
+	toolCallId: string;
+	toolName: string;
+	toolInput: Record<string, any>;
+	decision: 'approved' | 'denied';
+	/** Whether the user or a client-side approval policy decided */
+	decidedBy: 'user' | 'policy';
+	ruleName?: string;
+	approvalLevel?: string;
+	riskLevel?: string;
+	affectedResources?: string[];
+	toolStatus: 'pending' | 'success' | 'error';
+	/** ISO timestamp of the decision or outcome */
+	timestamp: string;
+}
+
+/** An entry as stored by the server, which adds who made it and when it arrived */
+export interface RecordedApprovalAuditEntry extends ApprovalAuditEntry {
+	id: string;
+	userId: string;
+	recordedAt: string;
+}
+
+/** Append-only destination for approval audit entries. */
+export interface ApprovalAuditLog {
+	record(entry: ApprovalAuditEntry): Promise<void>;
+}
+
+/** Build an audit entry from a tool message that has an approval decision. */
+export function toApprovalAuditEntry(
+	tool: ToolMessage,
+	threadId: string,
+	kind: ApprovalAuditEntry['kind']
+): ApprovalAuditEntry {
+	return {
+		kind,
+		threadId,
+		toolCallId: tool.toolCallId,
+		toolName: tool.toolName,
+		toolInput: tool.toolInput,
+		decision: tool.approvalStatus === 'approved' ? 'approved' : 'denied',
+		decidedBy: tool.autoApproval ? 'policy' : 'user',
+		ruleName: tool.autoApproval?.ruleName,
+		approvalLevel: tool.approvalLevel,
+		riskLevel: tool.riskLevel,
+		affectedResources: tool.affectedResources,
+		toolStatus: tool.status ?? 'pending',
+		timestamp: new Date().toISOString()
+	};
+}
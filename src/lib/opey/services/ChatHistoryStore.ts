@@ -0,0 +1,124 @@
+/**
+ * Base interface for persisting Opey conversations. Implementations store one
+ * ChatStateSnapshot per threadId, e.g. LocalStorageChatHistoryStore,
+ * IndexedDBChatHistoryStore or ServerChatHistoryStore.
+ */
+
+import type { BaseMessage } from '../types';
+import type { ChatStateSnapshot } from '../state/ChatState';
+
+/** Summary of a stored thread, for listing past conversations. */
+export interface ChatThreadSummary {
+	threadId: string;
+	title: string;
+	lastActivity: Date;
+	messageCount: number;
+}
+
+export interface ChatHistoryStore {
+	/** All stored threads, most recently active first. */
+	listThreads(): Promise<ChatThreadSummary[]>;
+	load(threadId: string): Promise<ChatStateSnapshot | null>;
+	save(snapshot: ChatStateSnapshot): Promise<void>;
+	rename(threadId: string, title: string): Promise<void>;
+	delete(threadId: string): Promise<void>;
+}
+
+export type StoredChatMessage = Omit<BaseMessage, 'timestamp'> & { timestamp: string };
+
+/**
+ * JSON-safe form of a thread, shared by every backend.
+ * Timestamps are ISO strings; `customTitle` is set once the user renames the thread.
+ * `branchTails` holds the inactive branches, as in ChatStateSnapshot.
+ */
+export interface StoredChatThread {
+	threadId: string;
+	title: string;
+	customTitle?: boolean;
+	lastActivity: string;
+	messages: StoredChatMessage[];
+	branchTails?: Record<string, { tails: StoredChatMessage[][]; active: number }>;
+}
+
+const MAX_TITLE_LENGTH = 60;
+const DEFAULT_TITLE = 'New chat';
+
+/** Derive a thread title from its first user message. */
+export function deriveThreadTitle(messages: BaseMessage[]): string {
+	const firstUserMessage = messages.find((msg) => msg.role === 'user' && msg.message.trim());
+	if (!firstUserMessage) return DEFAULT_TITLE;
+
+	const text = firstUserMessage.message.trim().replace(/\s+/g, ' ');
+	return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Convert a snapshot to its stored form. Loading placeholders are dropped since
+ * they can never resolve after a reload. A custom title from `existing` is kept.
+ */
+export function toStoredThread(
+	snapshot: ChatStateSnapshot,
+	existing?: StoredChatThread | null
+): StoredChatThread {
+	const toStored = (messages: BaseMessage[]): StoredChatMessage[] =>
+		messages
+			.filter((msg) => !msg.isLoading)
+			.map((msg) => ({ ...msg, timestamp: new Date(msg.timestamp).toISOString() }));
+
+	const branchTails: StoredChatThread['branchTails'] = {};
+	for (const [key, branch] of Object.entries(snapshot.branchTails ?? {})) {
+		branchTails[key] = { tails: branch.tails.map(toStored), active: branch.active };
+	}
+
+	return {
+		threadId: snapshot.threadId,
+		title: existing?.customTitle ? existing.title : deriveThreadTitle(snapshot.messages),
+		customTitle: existing?.customTitle,
+		lastActivity: new Date().toISOString(),
+		messages: toStored(snapshot.messages),
+		branchTails
+	};
+}
+
+/**
+ * Convert a stored thread back into a snapshot. Anything that was still streaming
+ * when it was saved is marked as no longer streaming.
+ */
+export function fromStoredThread(stored: StoredChatThread): ChatStateSnapshot {
+	const fromStored = (messages: StoredChatMessage[]): BaseMessage[] =>
+		messages.map((msg) => ({
+			...msg,
+			timestamp: new Date(msg.timestamp),
+			isStreaming: false
+		}));
+
+	const branchTails: ChatStateSnapshot['branchTails'] = {};
+	for (const [key, branch] of Object.entries(stored.branchTails ?? {})) {
+		branchTails[key] = { tails: branch.tails.map(fromStored), active: branch.active };
+	}
+
+	return {
+		threadId: stored.threadId,
+		messages: fromStored(stored.messages),
+		branchTails
+	};
+}
+
+/** Stored thread without its messages, kept in each backend's thread index. */
+export type StoredThreadSummary = Omit<StoredChatThread, 'messages' | 'branchTails'> & {
+	messageCount: number;
+};
+
+export function summarizeThread(stored: StoredChatThread): StoredThreadSummary {
+	const { messages, branchTails, ...rest } = stored;
+	return { ...rest, messageCount: messages.length };
+}
+
+export function toThreadSummary(summary: StoredThreadSummary): ChatThreadSummary {
+	return {
+		threadId: summary.threadId,
+		title: summary.title,
+		lastActivity: new Date(summary.lastActivity),
+		messageCount: summary.messageCount
+	};
+}
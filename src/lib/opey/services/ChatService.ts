@@ -3,7 +3,7 @@
  * 
  */
 
-import type { UserMessage, AssistantMessage, ToolMessage } from '../types'
+import type { UserMessage, AssistantMessage, ToolMessage, BaseMessage } from '../types'
 
 // Only modify if there is some base logic that needs to be shared across all chat services.
 // Else just create a new implementation of ChatService.
@@ -14,6 +14,12 @@ export interface ChatService {
     sendConsentResponse(toolCallId: string, consentJwt: string | null, threadId: string): Promise<void>
     regenerate(messageId: string, threadId: string): Promise<void>
 
+    /**
+     * Fetch the prior messages of an existing thread, including tool calls, tool outputs,
+     * approval and consent outcomes. Resolves to an empty list if the backend doesn't know the thread.
+     */
+    loadThread(threadId: string): Promise<BaseMessage[]>
+
     /**
      * Called for streaming events during chat interactions.
      * Handles token-by-token streaming, tool calls, and message lifecycle events.
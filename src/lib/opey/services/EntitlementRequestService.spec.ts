@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EntitlementRequestService } from './EntitlementRequestService';
+
+function statusResponse(missingRoles: string[]) {
+	return new Response(JSON.stringify({ requests: [], missingRoles }), { status: 200 });
+}
+
+describe('EntitlementRequestService.poll', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	it('checks the roles at the bank until stopped', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(statusResponse(['CanCreateAccount']))
+			.mockResolvedValueOnce(statusResponse([]));
+		vi.stubGlobal('fetch', fetchMock);
+		const statuses: string[][] = [];
+
+		const stop = new EntitlementRequestService('/api/entitlements').poll(
+			['CanCreateAccount'],
+			'gh.29.uk',
+			(status) => {
+				statuses.push(status.missingRoles);
+				if (status.missingRoles.length === 0) stop();
+			},
+			{ intervalMs: 1000 }
+		);
+
+		await vi.advanceTimersByTimeAsync(5000);
+
+		expect(statuses).toEqual([['CanCreateAccount'], []]);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(fetchMock.mock.calls[0][0]).toBe(
+			'/api/entitlements?roles=CanCreateAccount&bank_id=gh.29.uk'
+		);
+	});
+
+	it('keeps polling after a failed check', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi
+				.fn()
+				.mockResolvedValueOnce(new Response(null, { status: 502, statusText: 'Bad Gateway' }))
+				.mockResolvedValue(statusResponse([]))
+		);
+		const onStatus = vi.fn();
+		const onError = vi.fn();
+
+		const stop = new EntitlementRequestService().poll(['CanGetAnyUser'], undefined, onStatus, {
+			intervalMs: 1000,
+			onError
+		});
+		await vi.advanceTimersByTimeAsync(2000);
+		stop();
+		await vi.advanceTimersByTimeAsync(5000);
+
+		expect(onError).toHaveBeenCalledOnce();
+		expect(onStatus).toHaveBeenCalledOnce();
+	});
+});
@@ -0,0 +1,87 @@
+/** An OBP entitlement request waiting for an administrator */
+export interface PendingEntitlementRequest {
+	entitlementRequestId: string;
+	roleName: string;
+	/** Unset for system-wide roles */
+	bankId?: string;
+	/** ISO timestamp */
+	created: string;
+}
+
+export interface EntitlementRequestStatus {
+	/** The user's pending requests for the roles asked about */
+	requests: PendingEntitlementRequest[];
+	/** Roles asked about that the user still can't satisfy */
+	missingRoles: string[];
+}
+
+/**
+ * Requests missing entitlements through the host app's entitlement-requests route,
+ * and checks whether they have been granted.
+ */
+export class EntitlementRequestService {
+	constructor(private endpoint: string = '/api/opey/entitlement-requests') {}
+
+	/** Pending requests and still-missing roles among `roles`. */
+	async status(roles: string[], bankId?: string): Promise<EntitlementRequestStatus> {
+		const params = new URLSearchParams({ roles: roles.join(',') });
+		if (bankId) params.set('bank_id', bankId);
+
+		const res = await fetch(`${this.endpoint}?${params}`, { credentials: 'include' });
+		if (!res.ok) {
+			throw new Error(`Failed to check entitlement requests: ${res.statusText}`);
+		}
+		return res.json();
+	}
+
+	/**
+	 * Check `roles` every `intervalMs` until stopped, passing each status to `onStatus`.
+	 * A failed check is passed to `onError` and polling carries on. Returns a function
+	 * that stops polling.
+	 */
+	poll(
+		roles: string[],
+		bankId: string | undefined,
+		onStatus: (status: EntitlementRequestStatus) => void | Promise<void>,
+		{
+			intervalMs = 15000,
+			onError
+		}: { intervalMs?: number; onError?: (error: unknown) => void } = {}
+	): () => void {
+		let stopped = false;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+
+		// The next check is scheduled once the previous one finishes, so they never overlap
+		const schedule = () => {
+			timer = setTimeout(async () => {
+				try {
+					const status = await this.status(roles, bankId);
+					if (!stopped) await onStatus(status);
+				} catch (error) {
+					onError?.(error);
+				}
+				if (!stopped) schedule();
+			}, intervalMs);
+		};
+		schedule();
+
+		return () => {
+			stopped = true;
+			clearTimeout(timer);
+		};
+	}
+
+	async request(roles: string[], bankId?: string): Promise<EntitlementRequestStatus> {
+		const res = await fetch(this.endpoint, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			credentials: 'include',
+			body: JSON.stringify({ roles, bank_id: bankId })
+		});
+		if (!res.ok) {
+			const data = await res.json().catch(() => ({}));
+			throw new Error(data.error || `Failed to request entitlements: ${res.statusText}`);
+		}
+		return res.json();
+	}
+}
@@ -0,0 +1,123 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('IndexedDBChatHistoryStore');
+import type { ChatStateSnapshot } from '../state/ChatState';
+import {
+	fromStoredThread,
+	summarizeThread,
+	toStoredThread,
+	toThreadSummary,
+	type ChatHistoryStore,
+	type ChatThreadSummary,
+	type StoredChatThread,
+	type StoredThreadSummary
+} from './ChatHistoryStore';
+
+const DB_VERSION = 1;
+const THREADS_STORE = 'threads';
+const SUMMARIES_STORE = 'summaries';
+
+/**
+ * Stores chat history in IndexedDB. Better suited than localStorage to long
+ * conversations with large tool outputs.
+ *
+ * Summaries are kept in their own object store so listing threads never
+ * has to read every message.
+ */
+export class IndexedDBChatHistoryStore implements ChatHistoryStore {
+	private db?: Promise<IDBDatabase>;
+
+	constructor(private dbName: string = 'opey-chat-history') {}
+
+	async listThreads(): Promise<ChatThreadSummary[]> {
+		const summaries = await this.run<StoredThreadSummary[]>(SUMMARIES_STORE, 'readonly', (tx) =>
+			tx.objectStore(SUMMARIES_STORE).getAll()
+		);
+		return summaries
+			.map(toThreadSummary)
+			.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
+	}
+
+	async load(threadId: string): Promise<ChatStateSnapshot | null> {
+		const stored = await this.readThread(threadId);
+		return stored ? fromStoredThread(stored) : null;
+	}
+
+	async save(snapshot: ChatStateSnapshot): Promise<void> {
+		const stored = toStoredThread(snapshot, await this.readThread(snapshot.threadId));
+		await this.writeThread(stored);
+	}
+
+	async rename(threadId: string, title: string): Promise<void> {
+		const stored = await this.readThread(threadId);
+		if (!stored) {
+			logger.warn(`Cannot rename unknown thread ${threadId}`);
+			return;
+		}
+		await this.writeThread({ ...stored, title, customTitle: true });
+	}
+
+	async delete(threadId: string): Promise<void> {
+		await this.run([THREADS_STORE, SUMMARIES_STORE], 'readwrite', (tx) => {
+			tx.objectStore(THREADS_STORE).delete(threadId);
+			return tx.objectStore(SUMMARIES_STORE).delete(threadId);
+		});
+	}
+
+	private async readThread(threadId: string): Promise<StoredChatThread | null> {
+		const stored = await this.run<StoredChatThread | undefined>(THREADS_STORE, 'readonly', (tx) =>
+			tx.objectStore(THREADS_STORE).get(threadId)
+		);
+		return stored ?? null;
+	}
+
+	private async writeThread(stored: StoredChatThread): Promise<void> {
+		await this.run([THREADS_STORE, SUMMARIES_STORE], 'readwrite', (tx) => {
+			tx.objectStore(THREADS_STORE).put(stored);
+			return tx.objectStore(SUMMARIES_STORE).put(summarizeThread(stored));
+		});
+	}
+
+	/**
+	 * Run a request inside a transaction, resolving with its result once the
+	 * whole transaction has committed.
+	 */
+	private async run<T>(
+		storeNames: string | string[],
+		mode: IDBTransactionMode,
+		operation: (tx: IDBTransaction) => IDBRequest
+	): Promise<T> {
+		const db = await this.open();
+		return new Promise<T>((resolve, reject) => {
+			const tx = db.transaction(storeNames, mode);
+			const request = operation(tx);
+			tx.oncomplete = () => resolve(request.result as T);
+			tx.onerror = () => reject(tx.error);
+			tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+		});
+	}
+
+	private open(): Promise<IDBDatabase> {
+		if (!this.db) {
+			this.db = new Promise((resolve, reject) => {
+				const request = indexedDB.open(this.dbName, DB_VERSION);
+				request.onupgradeneeded = () => {
+					const db = request.result;
+					if (!db.objectStoreNames.contains(THREADS_STORE)) {
+						db.createObjectStore(THREADS_STORE, { keyPath: 'threadId' });
+					}
+					if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+						db.createObjectStore(SUMMARIES_STORE, { keyPath: 'threadId' });
+					}
+				};
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => {
+					logger.error(`Failed to open IndexedDB database ${this.dbName}:`, request.error);
+					// Allow a later call to retry opening
+					this.db = undefined;
+					reject(request.error);
+				};
+			});
+		}
+		return this.db;
+	}
+}
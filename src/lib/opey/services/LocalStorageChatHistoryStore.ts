@@ -0,0 +1,95 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('LocalStorageChatHistoryStore');
+import type { ChatStateSnapshot } from '../state/ChatState';
+import {
+	fromStoredThread,
+	summarizeThread,
+	toStoredThread,
+	toThreadSummary,
+	type ChatHistoryStore,
+	type ChatThreadSummary,
+	type StoredChatThread,
+	type StoredThreadSummary
+} from './ChatHistoryStore';
+
+/**
+ * Stores chat history in window.localStorage.
+ * Each thread is kept under its own key, with a small index used for listing.
+ * Suited to short histories - localStorage is synchronous and limited to a few MB.
+ */
+export class LocalStorageChatHistoryStore implements ChatHistoryStore {
+	constructor(private keyPrefix: string = 'opey-chat-history') {}
+
+	async listThreads(): Promise<ChatThreadSummary[]> {
+		return this.readIndex()
+			.map(toThreadSummary)
+			.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
+	}
+
+	async load(threadId: string): Promise<ChatStateSnapshot | null> {
+		const stored = this.readThread(threadId);
+		return stored ? fromStoredThread(stored) : null;
+	}
+
+	async save(snapshot: ChatStateSnapshot): Promise<void> {
+		const stored = toStoredThread(snapshot, this.readThread(snapshot.threadId));
+		this.writeThread(stored);
+	}
+
+	async rename(threadId: string, title: string): Promise<void> {
+		const stored = this.readThread(threadId);
+		if (!stored) {
+			logger.warn(`Cannot rename unknown thread ${threadId}`);
+			return;
+		}
+		this.writeThread({ ...stored, title, customTitle: true });
+	}
+
+	async delete(threadId: string): Promise<void> {
+		localStorage.removeItem(this.threadKey(threadId));
+		this.writeIndex(this.readIndex().filter((summary) => summary.threadId !== threadId));
+	}
+
+	private writeThread(stored: StoredChatThread): void {
+		try {
+			localStorage.setItem(this.threadKey(stored.threadId), JSON.stringify(stored));
+		} catch (error) {
+			// Usually QuotaExceededError - leave the index untouched so it never lists a missing thread
+			logger.error(`Failed to save thread ${stored.threadId}:`, error);
+			throw error;
+		}
+
+		const index = this.readIndex().filter((s) => s.threadId !== stored.threadId);
+		this.writeIndex([summarizeThread(stored), ...index]);
+	}
+
+	private readThread(threadId: string): StoredChatThread | null {
+		const raw = localStorage.getItem(this.threadKey(threadId));
+		if (!raw) return null;
+		try {
+			return JSON.parse(raw);
+		} catch (error) {
+			logger.error(`Corrupt history entry for thread ${threadId}:`, error);
+			return null;
+		}
+	}
+
+	private readIndex(): StoredThreadSummary[] {
+		const raw = localStorage.getItem(`${this.keyPrefix}:index`);
+		if (!raw) return [];
+		try {
+			return JSON.parse(raw);
+		} catch (error) {
+			logger.error('Corrupt history index, starting fresh:', error);
+			return [];
+		}
+	}
+
+	private writeIndex(index: StoredThreadSummary[]): void {
+		localStorage.setItem(`${this.keyPrefix}:index`, JSON.stringify(index));
+	}
+
+	private threadKey(threadId: string): string {
+		return `${this.keyPrefix}:thread:${threadId}`;
+	}
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RestChatService } from './RestChatService';
+import type { StreamEvent } from './ChatService';
+import type { UserMessage } from '../types';
+
+const message: UserMessage = {
+	id: 'corr-1',
+	correlationId: 'corr-1',
+	role: 'user',
+	message: 'hello',
+	timestamp: new Date(),
+	isPending: true
+};
+
+function sse(id: string | null, data: Record<string, any>): string {
+	return `${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(data)}\n\n`;
+}
+
+/** A response body that emits the given chunks, then optionally fails like a dropped connection. */
+function streamResponse(chunks: string[], dropAfter = false): Response {
+	const encoder = new TextEncoder();
+	const queue = [...chunks];
+	// Pull one chunk per read - erroring the stream up front would discard queued chunks
+	const body = new ReadableStream<Uint8Array>({
+		pull(controller) {
+			const chunk = queue.shift();
+			if (chunk !== undefined) {
+				controller.enqueue(encoder.encode(chunk));
+			} else if (dropAfter) {
+				controller.error(new TypeError('network error'));
+			} else {
+				controller.close();
+			}
+		}
+	});
+	return new Response(body, { status: 200 });
+}
+
+const token = (id: string, content: string) =>
+	sse(id, { type: 'assistant_token', message_id: 'm1', content });
+
+describe('RestChatService stream resumption', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('resumes a dropped stream from the last event ID without duplicating tokens', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(streamResponse([token('1', 'Hel'), token('2', 'lo')], true))
+			// Opey replays event 2 again before continuing
+			.mockResolvedValueOnce(
+				streamResponse([
+					token('2', 'lo'),
+					token('3', ' world'),
+					sse('4', { type: 'assistant_complete', message_id: 'm1' })
+				])
+			);
+		vi.stubGlobal('fetch', fetchMock);
+
+		const service = new RestChatService('http://opey.test');
+		const events: StreamEvent[] = [];
+		const errors: Error[] = [];
+		service.onStreamEvent((e) => events.push(e));
+		service.onError((e) => errors.push(e));
+
+		await service.send(message, 'thread-1');
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		const [resumeUrl, resumeInit] = fetchMock.mock.calls[1];
+		expect(resumeUrl).toBe('http://opey.test/stream/thread-1/resume');
+		expect(resumeInit.headers['Last-Event-ID']).toBe('2');
+
+		const tokens = events.flatMap((e) => (e.type === 'assistant_token' ? [e.token] : []));
+		expect(tokens.join('')).toBe('Hello world');
+		expect(events.at(-1)).toEqual({ type: 'assistant_complete', messageId: 'm1' });
+		expect(errors).toHaveLength(0);
+	});
+
+	it('skips replayed events by position when the stream has no IDs', async () => {
+		const plainToken = (content: string) =>
+			sse(null, { type: 'assistant_token', message_id: 'm1', content });
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(streamResponse([plainToken('a')], true))
+			.mockResolvedValueOnce(streamResponse([plainToken('a'), plainToken('b')]));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const service = new RestChatService('http://opey.test');
+		const tokens: string[] = [];
+		service.onStreamEvent((e) => e.type === 'assistant_token' && tokens.push(e.token));
+
+		await service.send(message, 'thread-1');
+
+		expect(fetchMock.mock.calls[1][1].headers['Last-Event-ID']).toBeUndefined();
+		expect(tokens).toEqual(['a', 'b']);
+	});
+
+	it('reports an error once the stream can no longer be resumed', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(streamResponse([token('1', 'Hel')], true))
+			.mockResolvedValueOnce(new Response(null, { status: 410 }));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const service = new RestChatService('http://opey.test');
+		const errors: Error[] = [];
+		service.onStreamEvent(() => {});
+		service.onError((e) => errors.push(e));
+
+		await service.send(message, 'thread-1');
+
+		expect(errors).toHaveLength(1);
+		expect(errors[0].message).toContain('no longer available');
+	});
+
+	it('lets Stop cancel a dropped approval stream instead of resuming it', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(streamResponse([token('1', 'Hel')], true))
+			.mockResolvedValueOnce(streamResponse([token('2', 'lo')]));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const service = new RestChatService('http://opey.test');
+		const errors: Error[] = [];
+		service.onError((e) => errors.push(e));
+		service.onStreamEvent(() => {
+			void service.cancel();
+		});
+
+		await service.sendApproval('call-1', true, 'thread-1');
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true);
+		expect(errors).toHaveLength(0);
+	});
+});
@@ -2,7 +2,28 @@ import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('RestChatService');
 import type { ChatService, StreamEvent } from './ChatService';
 import { CookieAuthStrategy, type AuthStrategy } from './AuthStrategy';
-import type { UserMessage } from '../types';
+import type { BaseMessage, UserMessage } from '../types';
+import { toStreamEvent } from './streamEvents';
+import { fetchThreadMessages } from './threadHistory';
+import { SSEDecoder, readSSE } from '../utils/sse';
+
+// Reconnect attempts after a stream drops mid-response
+const MAX_RESUME_ATTEMPTS = 5;
+const RESUME_BASE_DELAY_MS = 500;
+const RESUME_MAX_DELAY_MS = 10000;
+
+/** Tracks how far we got through a stream, so a dropped connection can be resumed. */
+interface StreamCursor {
+	/** ID of the last SSE event applied, sent back as Last-Event-ID. */
+	lastEventId?: string;
+	seenEventIds: Set<string>;
+	/** Number of events applied, used to skip replayed events when Opey sends no IDs. */
+	eventCount: number;
+	/** Message the stream was writing to when it dropped. */
+	messageId?: string;
+	/** Reconnection delay hinted by the stream's `retry:` field, used as the backoff base. */
+	retryMs?: number;
+}
 
 export class RestChatService implements ChatService {
 	private errorCallback?: (err: Error) => void;
@@ -36,13 +57,17 @@ export class RestChatService implements ChatService {
 			}
 		};
 		
+		// Create new AbortController so Stop also cancels the post-approval stream and its resumes
+		this.abortController = new AbortController();
+
 		const init = await this.buildInit({
 			method: 'POST',
 			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify(payload)
+			body: JSON.stringify(payload),
+			signal: this.abortController.signal
 		});
 
-		return this.handleStreamingResponse(`${this.baseUrl}/stream`, init);
+		return this.handleStreamingResponse(`${this.baseUrl}/stream`, init, threadId);
 	}
 
 	async sendBatchApproval(
@@ -59,13 +84,17 @@ export class RestChatService implements ChatService {
 			}
 		};
 		
+		// Create new AbortController so Stop also cancels the post-approval stream and its resumes
+		this.abortController = new AbortController();
+
 		const init = await this.buildInit({
 			method: 'POST',
 			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify(payload)
+			body: JSON.stringify(payload),
+			signal: this.abortController.signal
 		});
 
-		return this.handleStreamingResponse(`${this.baseUrl}/stream`, init);
+		return this.handleStreamingResponse(`${this.baseUrl}/stream`, init, threadId);
 	}
 
 	async sendConsentResponse(
@@ -85,13 +114,17 @@ export class RestChatService implements ChatService {
 
 		logger.info(`Consent payload:`, JSON.stringify(payload, null, 2));
 
+		// Create new AbortController so Stop also cancels the post-approval stream and its resumes
+		this.abortController = new AbortController();
+
 		const init = await this.buildInit({
 			method: 'POST',
 			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify(payload)
+			body: JSON.stringify(payload),
+			signal: this.abortController.signal
 		});
 
-		return this.handleStreamingResponse(`${this.baseUrl}/stream`, init);
+		return this.handleStreamingResponse(`${this.baseUrl}/stream`, init, threadId);
 	}
 
 	async regenerate(messageId: string, threadId: string): Promise<void> {
@@ -112,6 +145,11 @@ export class RestChatService implements ChatService {
 		);
 	}
 
+	async loadThread(threadId: string): Promise<BaseMessage[]> {
+		logger.info(`Loading thread history for threadId=${threadId}`);
+		return fetchThreadMessages(this.baseUrl, threadId, await this.buildInit());
+	}
+
 	private async buildInit(init: RequestInit = {}): Promise<RequestInit> {
 		const headers = { ...(init.headers || {}), ...(await this.auth.getHeaders()) };
 		return { ...init, headers, credentials: 'include' };
@@ -123,6 +161,7 @@ export class RestChatService implements ChatService {
 			message: msg.message,
 			thread_id: threadId,
 			correlation_id: msg.correlationId, // Add correlation ID for tracking
+			parent_message_id: msg.parentId, // Lets the backend fork edited conversations
 			stream_tokens: true
 		};
 
@@ -140,6 +179,9 @@ export class RestChatService implements ChatService {
 	}
 
 	private async handleStreamingResponse(url: string, init: RequestInit, threadId?: string): Promise<void> {
+		const cursor: StreamCursor = { seenEventIds: new Set(), eventCount: 0 };
+		let streamStarted = false;
+
 		try {
 			const res = await fetch(url, init);
 
@@ -151,6 +193,7 @@ export class RestChatService implements ChatService {
 						type: 'thread_sync',
 						threadId: responseThreadId
 					})
+					threadId = responseThreadId;
 				}
 			}
 
@@ -186,172 +229,169 @@ export class RestChatService implements ChatService {
 				return;
 			}
 
-			await this.processStream(reader);
+			streamStarted = true;
+			await this.processStream(reader, cursor);
 		} catch (error: any) {
 			// Don't treat abort as an error
 			if (error.name === 'AbortError') {
 				logger.info('Stream aborted by user');
 				return;
 			}
+
+			// The connection dropped mid-response - pick up where we left off
+			if (streamStarted && threadId) {
+				await this.resumeStream(threadId, cursor, init.signal ?? undefined, error);
+				return;
+			}
+
 			this.errorCallback?.(error);
 		}
 	}
 
-	private async processStream(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<void> {
-		const decoder = new TextDecoder();
-		let buffer = '';
+	/**
+	 * Reconnect to a stream that dropped mid-response, with exponential backoff.
+	 *
+	 * Sends the last SSE event ID as `Last-Event-ID` so Opey replays only the events we missed.
+	 * Events already applied (by ID, or by position when Opey does not send IDs) are skipped,
+	 * so tokens are never appended twice.
+	 */
+	private async resumeStream(
+		threadId: string,
+		cursor: StreamCursor,
+		signal: AbortSignal | undefined,
+		cause: Error
+	): Promise<void> {
+		let lastError = cause;
+
+		for (let attempt = 1; attempt <= MAX_RESUME_ATTEMPTS; attempt++) {
+			const baseDelay = cursor.retryMs ?? RESUME_BASE_DELAY_MS;
+			const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), RESUME_MAX_DELAY_MS);
+			logger.warn(
+				`Stream for thread ${threadId} dropped (${lastError.message}), resuming in ${delay}ms ` +
+				`(attempt ${attempt}/${MAX_RESUME_ATTEMPTS}, lastEventId=${cursor.lastEventId ?? 'none'}, message=${cursor.messageId ?? 'none'})`
+			);
+
+			await new Promise((resolve) => setTimeout(resolve, delay));
+			if (signal?.aborted) {
+				logger.info('Stream aborted by user while resuming');
+				return;
+			}
 
-		try {
-			while (true) {
-				const { done, value } = await reader.read();
-				if (done) break;
-
-				buffer += decoder.decode(value, { stream: true });
-				const lines = buffer.split('\n');
-				buffer = lines.pop() || ''; // Keep the last incomplete line
-
-				for (const line of lines) {
-					//logger.debug(line);
-					if (line.startsWith('data: ')) {
-						let eventData;
-
-						if (line.slice(6).trim() === '[DONE]') {
-							break; // Skip the [DONE] line
-						}
-						try {
-							eventData = JSON.parse(line.slice(6));
-							this.handleStreamEvent(eventData);
-						} catch (error) {
-							logger.error('Failed to parse event data:', error);
-							this.errorCallback?.(new Error(`Failed to parse event data: ${error}`));
-							continue; // Skip this line if parsing fails
-						}
-					}
+			try {
+				const headers: Record<string, string> = {};
+				if (cursor.lastEventId) {
+					headers['Last-Event-ID'] = cursor.lastEventId;
+				}
+
+				const init = await this.buildInit({ method: 'GET', headers, signal });
+				const res = await fetch(`${this.baseUrl}/stream/${threadId}/resume`, init);
+
+				if (res.status === 401) {
+					logger.info('Received 401 while resuming stream, requesting auth refresh');
+					this.streamEventCallback?.({ type: 'auth_refresh_needed' });
+					return;
+				}
+
+				if (res.status === 404 || res.status === 410) {
+					// Opey no longer has this stream buffered - nothing left to resume
+					lastError = new Error(`Stream is no longer available (HTTP ${res.status})`);
+					break;
+				}
+
+				if (!res.ok) {
+					throw new Error(`HTTP ${res.status}: ${res.statusText}`);
 				}
+
+				const reader = res.body?.getReader();
+				if (!reader) {
+					throw new Error('No response body');
+				}
+
+				await this.processStream(reader, cursor);
+				logger.info(`Resumed stream for thread ${threadId} after ${attempt} attempt(s)`);
+				return;
+			} catch (error: any) {
+				if (error.name === 'AbortError') {
+					logger.info('Stream aborted by user while resuming');
+					return;
+				}
+				lastError = error;
+			}
+		}
+
+		logger.error(`Giving up on resuming stream for thread ${threadId}:`, lastError);
+		this.errorCallback?.(new Error(`Lost connection to Opey: ${lastError.message}`));
+	}
+
+	/**
+	 * Read SSE events from the response and dispatch them.
+	 * Network errors are thrown to the caller so the stream can be resumed.
+	 */
+	private async processStream(
+		reader: ReadableStreamDefaultReader<Uint8Array>,
+		cursor: StreamCursor
+	): Promise<void> {
+		const decoder = new SSEDecoder({ onRetry: (retryMs) => (cursor.retryMs = retryMs) });
+		let position = 0; // Position of the event within this response
+		let previousId: string | undefined;
+		let previousWasReplay = false;
+
+		for await (const event of readSSE(reader, decoder)) {
+			if (event.data.trim() === '[DONE]') {
+				await reader.cancel().catch(() => {});
+				return;
+			}
+
+			// IDs are sticky in SSE: an event without its own id inherits the previous one,
+			// so only a new ID is looked up, otherwise it follows the previous event.
+			position++;
+			const eventId = event.lastEventId || undefined;
+			let isReplay: boolean;
+			if (!eventId) {
+				isReplay = position <= cursor.eventCount;
+			} else if (eventId === previousId) {
+				isReplay = previousWasReplay;
+			} else {
+				isReplay = cursor.seenEventIds.has(eventId);
+			}
+			previousId = eventId;
+			previousWasReplay = isReplay;
+
+			if (isReplay) {
+				logger.debug(`Skipping already applied event ${eventId ?? `#${position}`}`);
+				continue;
+			}
+			if (eventId) {
+				cursor.seenEventIds.add(eventId);
+				cursor.lastEventId = eventId;
 			}
-		} catch (error) {
-			this.errorCallback?.(error as Error);
-		} finally {
-			reader.releaseLock();
+			cursor.eventCount++;
+
+			let eventData;
+			try {
+				eventData = JSON.parse(event.data);
+			} catch (error) {
+				logger.error('Failed to parse event data:', error);
+				this.errorCallback?.(new Error(`Failed to parse event data: ${error}`));
+				continue; // Skip this event if parsing fails
+			}
+
+			// Named SSE events carry their type in the event field rather than the payload
+			if (!eventData.type && event.type !== 'message') {
+				eventData.type = event.type;
+			}
+			if (eventData.message_id) {
+				cursor.messageId = eventData.message_id;
+			}
+			this.handleStreamEvent(eventData);
 		}
 	}
 
 	private handleStreamEvent(eventData: any): void {
 		logger.debug('Received stream event data:', eventData);
-		switch (eventData.type) {
-			case 'user_message_confirmed':
-				this.streamEventCallback?.({
-					type: 'user_message_confirmed',
-					messageId: eventData.message_id,
-					correlationId: eventData.correlation_id,
-					content: eventData.content,
-					timestamp: eventData.timestamp
-				});
-				break;
-			case 'assistant_start':
-				this.streamEventCallback?.({
-					type: 'assistant_start',
-					messageId: eventData.message_id,
-					timestamp: new Date(eventData.timestamp)
-				});
-				break;
-			case 'assistant_token':
-				this.streamEventCallback?.({
-					type: 'assistant_token',
-					messageId: eventData.message_id,
-					token: eventData.content
-				});
-				break;
-			case 'assistant_complete':
-				this.streamEventCallback?.({
-					type: 'assistant_complete',
-					messageId: eventData.message_id
-				});
-				break;
-			case 'tool_start':
-				this.streamEventCallback?.({
-					type: 'tool_start',
-					toolCallId: eventData.tool_call_id,
-					toolInput: eventData.tool_input,
-					toolName: eventData.tool_name
-				});
-				break;
-			case 'tool_token':
-				this.streamEventCallback?.({
-					type: 'tool_token',
-					toolCallId: eventData.tool_call_id,
-					token: eventData.content
-				});
-				break;
-			case 'tool_complete':
-				this.streamEventCallback?.({
-					type: 'tool_complete',
-					toolCallId: eventData.tool_call_id,
-					toolName: eventData.tool_name,
-					toolOutput: eventData.tool_output,
-					status: eventData.status
-				});
-				break;
-			case 'error':
-				this.streamEventCallback?.({
-					type: 'error',
-					messageId: eventData.for_message_id,
-					error: eventData.error_message || eventData.error
-				});
-				break;
-			case 'approval_request':
-				this.streamEventCallback?.({
-					type: 'approval_request',
-					toolCallId: eventData.tool_call_id,
-					toolName: eventData.tool_name,
-					toolInput: eventData.tool_input,
-					message: eventData.message || 'Approval required',
-					riskLevel: eventData.risk_level || 'medium',
-					affectedResources: eventData.affected_resources || [],
-					reversible: eventData.reversible !== undefined ? eventData.reversible : true,
-					estimatedImpact: eventData.estimated_impact || '',
-					similarOperationsCount: eventData.similar_operations_count || 0,
-					availableApprovalLevels: eventData.available_approval_levels || ['user'],
-					defaultApprovalLevel: eventData.default_approval_level || 'user'
-				});
-				break;
-			case 'batch_approval_request':
-				this.streamEventCallback?.({
-					type: 'batch_approval_request',
-					toolCalls: eventData.tool_calls.map((tc: any) => ({
-						toolCallId: tc.tool_call_id,
-						toolName: tc.tool_name,
-						toolInput: tc.tool_input,
-						message: tc.message || 'Approval required',
-						riskLevel: tc.risk_level || 'moderate',
-						affectedResources: tc.affected_resources || [],
-						reversible: tc.reversible !== undefined ? tc.reversible : true,
-						estimatedImpact: tc.estimated_impact || '',
-						similarOperationsCount: tc.similar_operations_count || 0,
-						availableApprovalLevels: tc.available_approval_levels || ['once', 'session'],
-						defaultApprovalLevel: tc.default_approval_level || 'once',
-						operation: tc.operation,
-						endpoint: tc.endpoint,
-						method: tc.method
-					})),
-					options: eventData.options || []
-				});
-				break;
-			case 'consent_request':
-				this.streamEventCallback?.({
-					type: 'consent_request',
-					toolCallId: eventData.tool_call_id,
-					toolName: eventData.tool_name,
-					operationId: eventData.operation_id || null,
-					requiredRoles: eventData.required_roles || [],
-					timestamp: eventData.timestamp || Date.now() / 1000,
-					toolCallCount: eventData.tool_call_count ?? 1,
-					bankId: eventData.bank_id || null
-				});
-				break;
-			default:
-				console.warn(`Unknown event type: ${eventData.type}`);
-				break;
+		const event = toStreamEvent(eventData);
+		if (event) {
+			this.streamEventCallback?.(event);
 		}
 	}
 
@@ -0,0 +1,69 @@
+import type { ConsentPolicy, ConsentViewScope } from '../utils/consentPolicy';
+import type { RoleSupersession } from '../utils/roles';
+
+/** A role-scoped consent the server holds for the current user. The JWT itself stays server-side. */
+export interface ActiveRoleConsent {
+	consentId: string;
+	/** Roles the consent grants, as picked from the user's entitlements */
+	roles: string[];
+	bankId?: string;
+	/** Account views the consent is restricted to, if any */
+	views?: ConsentViewScope[];
+	/** ISO timestamps */
+	createdAt: string;
+	expiresAt: string;
+}
+
+/**
+ * Lists and revokes the role-specific consents created through the host app's
+ * consent route (see createRoleConsentHandlers in server/opey).
+ */
+export class RoleConsentService {
+	constructor(private endpoint: string = '/api/opey/consent') {}
+
+	async list(): Promise<ActiveRoleConsent[]> {
+		const res = await fetch(this.endpoint, { credentials: 'include' });
+		if (res.status === 401) return [];
+		if (!res.ok) {
+			throw new Error(`Failed to list consents: ${res.statusText}`);
+		}
+		const data = await res.json();
+		return data.consents ?? [];
+	}
+
+	/** The limits the server applies to new consents */
+	async getPolicy(): Promise<ConsentPolicy> {
+		const res = await fetch(`${this.endpoint}/policy`, { credentials: 'include' });
+		if (!res.ok) {
+			throw new Error(`Failed to load consent policy: ${res.statusText}`);
+		}
+		return res.json();
+	}
+
+	/** Which broader roles supersede each bank-scoped role, as derived from OBP */
+	async getRoleSupersession(): Promise<RoleSupersession> {
+		const res = await fetch(`${this.endpoint}/roles`, { credentials: 'include' });
+		if (!res.ok) {
+			throw new Error(`Failed to load role supersession: ${res.statusText}`);
+		}
+		const data = await res.json();
+		return data.supersededBy;
+	}
+
+	async revoke(consentId: string): Promise<void> {
+		const res = await fetch(`${this.endpoint}/${encodeURIComponent(consentId)}`, {
+			method: 'DELETE',
+			credentials: 'include'
+		});
+		if (!res.ok) {
+			throw new Error(`Failed to revoke consent: ${res.statusText}`);
+		}
+	}
+
+	async revokeAll(): Promise<void> {
+		const res = await fetch(this.endpoint, { method: 'DELETE', credentials: 'include' });
+		if (!res.ok) {
+			throw new Error(`Failed to revoke consents: ${res.statusText}`);
+		}
+	}
+}
@@ -0,0 +1,28 @@
+import type { ApprovalAuditEntry, ApprovalAuditLog } from './ApprovalAuditLog';
+
+/**
+ * Sends approval audit entries to the host app's audit route
+ * (see createApprovalAuditHandlers in server/opey), which appends them to Redis.
+ */
+export class ServerApprovalAuditLog implements ApprovalAuditLog {
+	constructor(private endpoint: string = '/api/opey/audit') {}
+
+	async record(entry: ApprovalAuditEntry): Promise<void> {
+		const res = await fetch(this.endpoint, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			credentials: 'include',
+			body: JSON.stringify(entry)
+		});
+		if (!res.ok) {
+			throw new Error(`Failed to record approval audit entry: ${res.statusText}`);
+		}
+	}
+
+	/** URL of the current user's audit trail export */
+	exportUrl(format: 'json' | 'csv' = 'json', threadId?: string): string {
+		const params = new URLSearchParams({ format });
+		if (threadId) params.set('threadId', threadId);
+		return `${this.endpoint}?${params}`;
+	}
+}
@@ -0,0 +1,69 @@
+import type { ChatStateSnapshot } from '../state/ChatState';
+import {
+	fromStoredThread,
+	toStoredThread,
+	toThreadSummary,
+	type ChatHistoryStore,
+	type ChatThreadSummary,
+	type StoredChatThread,
+	type StoredThreadSummary
+} from './ChatHistoryStore';
+
+/**
+ * Stores chat history on the server through the host app's history route
+ * (see createChatHistoryHandlers in server/opey), which keeps it in Redis
+ * per user. History then follows the user across browsers and devices.
+ */
+export class ServerChatHistoryStore implements ChatHistoryStore {
+	constructor(private endpoint: string = '/api/opey/history') {}
+
+	async listThreads(): Promise<ChatThreadSummary[]> {
+		const res = await fetch(this.endpoint, { credentials: 'include' });
+		if (!res.ok) {
+			throw new Error(`Failed to list chat history: ${res.statusText}`);
+		}
+		const data: { threads: StoredThreadSummary[] } = await res.json();
+		return data.threads.map(toThreadSummary);
+	}
+
+	async load(threadId: string): Promise<ChatStateSnapshot | null> {
+		const res = await fetch(this.threadUrl(threadId), { credentials: 'include' });
+		if (res.status === 404) {
+			return null;
+		}
+		if (!res.ok) {
+			throw new Error(`Failed to load chat thread: ${res.statusText}`);
+		}
+		const stored: StoredChatThread = await res.json();
+		return fromStoredThread(stored);
+	}
+
+	async save(snapshot: ChatStateSnapshot): Promise<void> {
+		// The server keeps any custom title already stored for this thread
+		await this.send(snapshot.threadId, 'PUT', toStoredThread(snapshot));
+	}
+
+	async rename(threadId: string, title: string): Promise<void> {
+		await this.send(threadId, 'PATCH', { title });
+	}
+
+	async delete(threadId: string): Promise<void> {
+		await this.send(threadId, 'DELETE');
+	}
+
+	private async send(threadId: string, method: string, body?: unknown): Promise<void> {
+		const res = await fetch(this.threadUrl(threadId), {
+			method,
+			credentials: 'include',
+			headers: body ? { 'Content-Type': 'application/json' } : undefined,
+			body: body ? JSON.stringify(body) : undefined
+		});
+		if (!res.ok) {
+			throw new Error(`Chat history ${method} failed: ${res.statusText}`);
+		}
+	}
+
+	private threadUrl(threadId: string): string {
+		return `${this.endpoint}/${encodeURIComponent(threadId)}`;
+	}
+}
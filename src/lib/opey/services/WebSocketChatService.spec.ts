@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WebSocketChatService } from './WebSocketChatService';
+import { MockOpeySocketServer } from '../testing/MockOpeySocketServer';
+import type { StreamEvent } from './ChatService';
+import type { UserMessage } from '../types';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function userMessage(text: string): UserMessage {
+	return {
+		id: 'corr-1',
+		correlationId: 'corr-1',
+		role: 'user',
+		message: text,
+		timestamp: new Date(),
+		isPending: true
+	};
+}
+
+describe('WebSocketChatService', () => {
+	let server: MockOpeySocketServer;
+	let service: WebSocketChatService;
+	let events: StreamEvent[];
+	let errors: Error[];
+
+	beforeEach(() => {
+		server = new MockOpeySocketServer();
+		service = new WebSocketChatService('http://opey.test', {
+			socketFactory: server.socketFactory
+		});
+		events = [];
+		errors = [];
+		service.onStreamEvent((e) => events.push(e));
+		service.onError((e) => errors.push(e));
+	});
+
+	it('streams a reply to a user message as StreamEvents', async () => {
+		await service.send(userMessage('hello'), 'thread-1');
+		await flush();
+
+		expect(events.map((e) => e.type)).toEqual([
+			'user_message_confirmed',
+			'assistant_start',
+			'assistant_token',
+			'assistant_complete'
+		]);
+		expect(events[2]).toMatchObject({ type: 'assistant_token', token: 'hello' });
+	});
+
+	it('reuses one connection per thread for every frame type', async () => {
+		await service.send(userMessage('hi'), 'thread-1');
+		await service.sendApproval('tc-1', true, 'thread-1', 'session');
+		await service.sendBatchApproval({ 'tc-2': { approved: false, level: 'once' } }, 'thread-1');
+		await service.sendConsentResponse('tc-3', null, 'thread-1');
+		await service.regenerate('msg-1', 'thread-1');
+		await service.cancel('thread-1');
+
+		expect(server.connections).toHaveLength(1);
+		expect(server.connection('thread-1')?.frames).toEqual([
+			{ type: 'message', message: 'hi', correlation_id: 'corr-1', stream_tokens: true },
+			{
+				type: 'approval',
+				tool_call_approval: { approval: 'approve', level: 'session', tool_call_id: 'tc-1' }
+			},
+			{
+				type: 'approval',
+				tool_call_approval: { batch_decisions: { 'tc-2': { approved: false, level: 'once' } } }
+			},
+			{ type: 'consent', tool_call_approval: { consent_denied: true } },
+			{ type: 'regenerate', message_id: 'msg-1' },
+			{ type: 'stop' }
+		]);
+	});
+
+	it('opens a separate connection for each thread', async () => {
+		await service.send(userMessage('a'), 'thread-1');
+		await service.send(userMessage('b'), 'thread-2');
+
+		expect(server.connections.map((c) => c.threadId)).toEqual(['thread-1', 'thread-2']);
+	});
+
+	it('maps server events such as approval requests', async () => {
+		server.onFrame((frame, connection) => {
+			connection.emit({
+				type: 'approval_request',
+				tool_call_id: 'tc-1',
+				tool_name: 'obp_requests',
+				tool_input: { method: 'DELETE' }
+			});
+		});
+
+		await service.send(userMessage('delete it'), 'thread-1');
+		await flush();
+
+		expect(events[0]).toMatchObject({
+			type: 'approval_request',
+			toolCallId: 'tc-1',
+			riskLevel: 'medium',
+			availableApprovalLevels: ['user']
+		});
+	});
+
+	it('reports a dropped connection and reconnects on the next frame', async () => {
+		await service.send(userMessage('hi'), 'thread-1');
+		server.connection('thread-1')?.close(1006, 'network');
+		await flush();
+
+		expect(errors).toHaveLength(1);
+
+		await service.send(userMessage('again'), 'thread-1');
+		expect(server.connections).toHaveLength(2);
+	});
+
+	it('requests an auth refresh when the server rejects the session', async () => {
+		server.rejectConnections(4401);
+
+		await expect(service.send(userMessage('hi'), 'thread-1')).rejects.toThrow();
+		expect(events).toEqual([{ type: 'auth_refresh_needed' }]);
+		expect(errors).toHaveLength(0);
+	});
+
+	it('loads thread history over HTTP with the same auth as the REST service', async () => {
+		const fetchMock = vi.fn(async () => Response.json({ messages: [] }));
+		vi.stubGlobal('fetch', fetchMock);
+		const authed = new WebSocketChatService('http://opey.test', {
+			socketFactory: server.socketFactory,
+			auth: { getHeaders: async () => ({ Authorization: 'Bearer opey-token' }) }
+		});
+
+		try {
+			await authed.loadThread('thread-1');
+		} finally {
+			vi.unstubAllGlobals();
+		}
+
+		expect(fetchMock).toHaveBeenCalledWith(
+			'http://opey.test/threads/thread-1/messages',
+			expect.objectContaining({
+				headers: { Authorization: 'Bearer opey-token' },
+				credentials: 'include'
+			})
+		);
+		expect(server.connections).toHaveLength(0);
+	});
+});
@@ -0,0 +1,295 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('WebSocketChatService');
+import type { ChatService, StreamEvent } from './ChatService';
+import { CookieAuthStrategy, type AuthStrategy } from './AuthStrategy';
+import type { BaseMessage, UserMessage } from '../types';
+import { toStreamEvent } from './streamEvents';
+import { fetchThreadMessages } from './threadHistory';
+
+/**
+ * Frames sent from the client to Opey over the socket.
+ * The payloads mirror the JSON bodies RestChatService POSTs to /stream.
+ */
+export type OpeySocketFrame =
+	| {
+			type: 'message';
+			message: string;
+			correlation_id: string;
+			parent_message_id?: string;
+			stream_tokens: boolean;
+	  }
+	| {
+			type: 'approval';
+			tool_call_approval:
+				| { approval: 'approve' | 'deny'; level: string; tool_call_id: string }
+				| { batch_decisions: Record<string, { approved: boolean; level: string }> };
+	  }
+	| {
+			type: 'consent';
+			tool_call_approval: { consent_jwt: string } | { consent_denied: true };
+	  }
+	| { type: 'regenerate'; message_id: string }
+	| { type: 'stop' };
+
+/**
+ * The subset of the browser WebSocket API the service relies on.
+ * Lets tests and host apps swap in a different socket implementation.
+ */
+export interface WebSocketLike {
+	readonly readyState: number;
+	onopen: ((ev: any) => void) | null;
+	onmessage: ((ev: any) => void) | null;
+	onerror: ((ev: any) => void) | null;
+	onclose: ((ev: any) => void) | null;
+	send(data: string): void;
+	close(code?: number, reason?: string): void;
+}
+
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
+export interface WebSocketChatServiceOptions {
+	/** Creates the underlying socket. Defaults to the global WebSocket. */
+	socketFactory?: WebSocketFactory;
+	/** Path appended to the socket base URL, followed by the thread ID. Defaults to '/ws'. */
+	path?: string;
+	/** Authenticates the HTTP requests made alongside the socket. Defaults to cookies. */
+	auth?: AuthStrategy;
+}
+
+// Matches WebSocket.OPEN without depending on the global
+const SOCKET_OPEN = 1;
+
+// Close code Opey uses when the session token is missing or expired
+const CLOSE_UNAUTHORIZED = 4401;
+
+/**
+ * ChatService implementation that keeps one duplex WebSocket per thread.
+ *
+ * Messages, approvals, consent responses, regenerate and stop requests are sent as
+ * JSON frames on the thread's socket. Opey replies with the same events it sends
+ * over SSE, which are mapped to StreamEvents exactly as RestChatService does.
+ *
+ * Unlike RestChatService, send() and friends resolve once the frame is written,
+ * not when the response has finished streaming.
+ */
+export class WebSocketChatService implements ChatService {
+	private errorCallback?: (err: Error) => void;
+	private streamEventCallback?: (event: StreamEvent) => void;
+	private sockets = new Map<string, WebSocketLike>();
+	private pendingConnections = new Map<string, Promise<WebSocketLike>>();
+	private socketFactory: WebSocketFactory;
+	private path: string;
+	private auth: AuthStrategy;
+
+	constructor(
+		private baseUrl: string,
+		options: WebSocketChatServiceOptions = {}
+	) {
+		this.socketFactory = options.socketFactory ?? ((url) => new WebSocket(url));
+		this.path = options.path ?? '/ws';
+		this.auth = options.auth ?? new CookieAuthStrategy();
+
+		logger.info('Initialized Opey WebSocket Chat with baseUrl:', baseUrl);
+	}
+
+	async send(msg: UserMessage, threadId?: string): Promise<void> {
+		await this.sendFrame(threadId ?? crypto.randomUUID(), {
+			type: 'message',
+			message: msg.message,
+			correlation_id: msg.correlationId,
+			parent_message_id: msg.parentId,
+			stream_tokens: true
+		});
+	}
+
+	async sendApproval(
+		toolCallId: string,
+		approved: boolean,
+		threadId: string,
+		approvalLevel?: string
+	): Promise<void> {
+		logger.info(
+			`Sending approval for toolCallId=${toolCallId}, approved=${approved}, level=${approvalLevel}, threadId=${threadId}`
+		);
+
+		await this.sendFrame(threadId, {
+			type: 'approval',
+			tool_call_approval: {
+				approval: approved ? 'approve' : 'deny',
+				level: approvalLevel || 'once',
+				tool_call_id: toolCallId
+			}
+		});
+	}
+
+	async sendBatchApproval(
+		decisions: Record<string, { approved: boolean; level: string }>,
+		threadId: string
+	): Promise<void> {
+		logger.info(
+			`Sending batch approval for ${Object.keys(decisions).length} tools, threadId=${threadId}`
+		);
+
+		await this.sendFrame(threadId, {
+			type: 'approval',
+			tool_call_approval: { batch_decisions: decisions }
+		});
+	}
+
+	async sendConsentResponse(
+		toolCallId: string,
+		consentJwt: string | null,
+		threadId: string
+	): Promise<void> {
+		logger.info(
+			`Sending consent response for toolCallId=${toolCallId}, threadId=${threadId}, hasJwt=${!!consentJwt}`
+		);
+
+		await this.sendFrame(threadId, {
+			type: 'consent',
+			tool_call_approval:
+				consentJwt !== null ? { consent_jwt: consentJwt } : { consent_denied: true }
+		});
+	}
+
+	async regenerate(messageId: string, threadId: string): Promise<void> {
+		logger.info(`Regenerating response from messageId=${messageId}, threadId=${threadId}`);
+		await this.sendFrame(threadId, { type: 'regenerate', message_id: messageId });
+	}
+
+	async loadThread(threadId: string): Promise<BaseMessage[]> {
+		// History is a one-off read, so it goes over HTTP rather than opening a socket
+		logger.info(`Loading thread history for threadId=${threadId}`);
+		const headers = await this.auth.getHeaders();
+		return fetchThreadMessages(this.baseUrl, threadId, { headers });
+	}
+
+	async cancel(threadId?: string): Promise<void> {
+		if (!threadId) return;
+
+		// Only send stop over an already open socket - no point connecting just to stop
+		const socket = this.sockets.get(threadId);
+		if (socket?.readyState === SOCKET_OPEN) {
+			socket.send(JSON.stringify({ type: 'stop' } satisfies OpeySocketFrame));
+			logger.info(`Sent stop frame for thread ${threadId}`);
+		}
+	}
+
+	onStreamEvent(fn: (event: StreamEvent) => void) {
+		this.streamEventCallback = fn;
+	}
+
+	onError(fn: (err: Error) => void) {
+		this.errorCallback = fn;
+	}
+
+	/**
+	 * Close the socket for a thread, or every socket if no thread ID is given.
+	 */
+	disconnect(threadId?: string): void {
+		const threadIds = threadId ? [threadId] : [...this.sockets.keys()];
+		for (const id of threadIds) {
+			const socket = this.sockets.get(id);
+			this.sockets.delete(id);
+			socket?.close(1000, 'Client disconnect');
+		}
+	}
+
+	private async sendFrame(threadId: string, frame: OpeySocketFrame): Promise<void> {
+		const socket = await this.getSocket(threadId);
+		socket.send(JSON.stringify(frame));
+	}
+
+	private getSocket(threadId: string): Promise<WebSocketLike> {
+		const existing = this.sockets.get(threadId);
+		if (existing?.readyState === SOCKET_OPEN) {
+			return Promise.resolve(existing);
+		}
+
+		const pending = this.pendingConnections.get(threadId);
+		if (pending) return pending;
+
+		const connection = this.connect(threadId).finally(() => {
+			this.pendingConnections.delete(threadId);
+		});
+		this.pendingConnections.set(threadId, connection);
+		return connection;
+	}
+
+	private connect(threadId: string): Promise<WebSocketLike> {
+		const url = `${this.baseUrl.replace(/^http/, 'ws')}${this.path}/${encodeURIComponent(threadId)}`;
+		logger.debug(`Opening socket for thread ${threadId}: ${url}`);
+
+		return new Promise((resolve, reject) => {
+			const socket = this.socketFactory(url);
+			let opened = false;
+			this.sockets.set(threadId, socket);
+
+			socket.onopen = () => {
+				logger.info(`Socket open for thread ${threadId}`);
+				opened = true;
+				resolve(socket);
+			};
+
+			socket.onmessage = (ev) => this.handleFrame(socket, ev.data);
+
+			socket.onerror = () => {
+				// The close handler reports the failure; error events carry no detail in browsers
+				logger.warn(`Socket error for thread ${threadId}`);
+			};
+
+			socket.onclose = (ev) => {
+				const wasTracked = this.forgetSocket(socket);
+
+				if (ev.code === CLOSE_UNAUTHORIZED) {
+					logger.info('Socket closed as unauthorized - requesting auth refresh');
+					this.streamEventCallback?.({ type: 'auth_refresh_needed' });
+				} else if (opened && wasTracked && ev.code !== 1000) {
+					// Unexpected drop of a live connection; the next frame will reconnect
+					logger.warn(`Socket for thread ${threadId} closed: ${ev.code} ${ev.reason}`);
+					this.errorCallback?.(
+						new Error(`Connection to Opey lost (${ev.code}${ev.reason ? `: ${ev.reason}` : ''})`)
+					);
+				}
+
+				if (!opened) {
+					reject(new Error(`Could not connect to Opey (${ev.code})`));
+				}
+			};
+		});
+	}
+
+	/** Stop tracking a socket. Returns false if it had already been disconnected. */
+	private forgetSocket(socket: WebSocketLike): boolean {
+		for (const [id, tracked] of this.sockets) {
+			if (tracked === socket) {
+				this.sockets.delete(id);
+				return true;
+			}
+		}
+		return false;
+	}
+
+	private handleFrame(socket: WebSocketLike, data: any): void {
+		let eventData;
+		try {
+			eventData = JSON.parse(typeof data === 'string' ? data : String(data));
+		} catch (error) {
+			logger.error('Failed to parse socket frame:', error);
+			this.errorCallback?.(new Error(`Failed to parse event data: ${error}`));
+			return;
+		}
+
+		logger.debug('Received socket event data:', eventData);
+
+		// Opey may move the conversation to a different thread ID; re-key the socket
+		if (eventData.type === 'thread_sync' && this.forgetSocket(socket)) {
+			this.sockets.set(eventData.thread_id, socket);
+		}
+
+		const event = toStreamEvent(eventData);
+		if (event) {
+			this.streamEventCallback?.(event);
+		}
+	}
+}
@@ -0,0 +1,121 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('streamEvents');
+import type { StreamEvent } from './ChatService';
+
+/**
+ * Map a raw Opey wire event (snake_case, as sent over SSE or WebSocket) to a StreamEvent.
+ * Shared by every ChatService implementation so all transports emit the same union.
+ *
+ * Returns null for unknown event types.
+ */
+export function toStreamEvent(eventData: any): StreamEvent | null {
+	switch (eventData.type) {
+		case 'user_message_confirmed':
+			return {
+				type: 'user_message_confirmed',
+				messageId: eventData.message_id,
+				correlationId: eventData.correlation_id,
+				content: eventData.content,
+				timestamp: eventData.timestamp
+			};
+		case 'assistant_start':
+			return {
+				type: 'assistant_start',
+				messageId: eventData.message_id,
+				timestamp: new Date(eventData.timestamp)
+			};
+		case 'assistant_token':
+			return {
+				type: 'assistant_token',
+				messageId: eventData.message_id,
+				token: eventData.content
+			};
+		case 'assistant_complete':
+			return {
+				type: 'assistant_complete',
+				messageId: eventData.message_id
+			};
+		case 'tool_start':
+			return {
+				type: 'tool_start',
+				toolCallId: eventData.tool_call_id,
+				toolInput: eventData.tool_input,
+				toolName: eventData.tool_name
+			};
+		case 'tool_token':
+			return {
+				type: 'tool_token',
+				toolCallId: eventData.tool_call_id,
+				token: eventData.content
+			};
+		case 'tool_complete':
+			return {
+				type: 'tool_complete',
+				toolCallId: eventData.tool_call_id,
+				toolName: eventData.tool_name,
+				toolOutput: eventData.tool_output,
+				status: eventData.status
+			};
+		case 'error':
+			return {
+				type: 'error',
+				messageId: eventData.for_message_id,
+				error: eventData.error_message || eventData.error
+			};
+		case 'approval_request':
+			return {
+				type: 'approval_request',
+				toolCallId: eventData.tool_call_id,
+				toolName: eventData.tool_name,
+				toolInput: eventData.tool_input,
+				message: eventData.message || 'Approval required',
+				riskLevel: eventData.risk_level || 'medium',
+				affectedResources: eventData.affected_resources || [],
+				reversible: eventData.reversible !== undefined ? eventData.reversible : true,
+				estimatedImpact: eventData.estimated_impact || '',
+				similarOperationsCount: eventData.similar_operations_count || 0,
+				availableApprovalLevels: eventData.available_approval_levels || ['user'],
+				defaultApprovalLevel: eventData.default_approval_level || 'user'
+			};
+		case 'batch_approval_request':
+			return {
+				type: 'batch_approval_request',
+				toolCalls: eventData.tool_calls.map((tc: any) => ({
+					toolCallId: tc.tool_call_id,
+					toolName: tc.tool_name,
+					toolInput: tc.tool_input,
+					message: tc.message || 'Approval required',
+					riskLevel: tc.risk_level || 'moderate',
+					affectedResources: tc.affected_resources || [],
+					reversible: tc.reversible !== undefined ? tc.reversible : true,
+					estimatedImpact: tc.estimated_impact || '',
+					similarOperationsCount: tc.similar_operations_count || 0,
+					availableApprovalLevels: tc.available_approval_levels || ['once', 'session'],
+					defaultApprovalLevel: tc.default_approval_level || 'once',
+					operation: tc.operation,
+					endpoint: tc.endpoint,
+					method: tc.method
+				})),
+				options: eventData.options || []
+			};
+		case 'consent_request':
+			return {
+				type: 'consent_request',
+				toolCallId: eventData.tool_call_id,
+				toolName: eventData.tool_name,
+				operationId: eventData.operation_id || null,
+				requiredRoles: eventData.required_roles || [],
+				timestamp: eventData.timestamp || Date.now() / 1000,
+				toolCallCount: eventData.tool_call_count ?? 1,
+				bankId: eventData.bank_id || null
+			};
+		case 'thread_sync':
+			return {
+				type: 'thread_sync',
+				threadId: eventData.thread_id
+			};
+		default:
+			logger.warn(`Unknown event type: ${eventData.type}`);
+			return null;
+	}
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchThreadMessages, toThreadMessages } from './threadHistory';
+import type { AssistantMessage, ToolMessage, UserMessage } from '../types';
+
+const storedThread = [
+	{ id: 'u1', role: 'user', content: 'Create a bank account', timestamp: 1700000000 },
+	{
+		id: 'a1',
+		role: 'assistant',
+		content: 'Let me do that.',
+		timestamp: '2023-11-14T22:13:25Z',
+		tool_calls: [
+			{ id: 'call-1', name: 'obp_requests', args: { method: 'POST' } },
+			{ id: 'call-2', name: 'obp_requests', args: { method: 'GET' } }
+		]
+	},
+	{
+		role: 'tool',
+		tool_call_id: 'call-1',
+		tool_name: 'obp_requests',
+		tool_output: { account_id: 'acc-1' },
+		status: 'success',
+		approval_status: 'approved',
+		approval_level: 'once'
+	},
+	{
+		role: 'tool',
+		tool_call_id: 'call-2',
+		tool_name: 'obp_requests',
+		tool_output: 'Consent denied',
+		consent_status: 'denied',
+		consent_required_roles: ['CanGetAnyUser']
+	}
+];
+
+describe('toThreadMessages', () => {
+	it('maps stored messages into user, assistant and tool messages', () => {
+		const [user, assistant, approved, denied] = toThreadMessages(storedThread);
+
+		expect(user).toMatchObject({ id: 'u1', correlationId: 'u1', role: 'user' } as UserMessage);
+		expect(user.timestamp.getTime()).toBe(1700000000 * 1000);
+		expect(assistant).toMatchObject({ id: 'a1', role: 'assistant', message: 'Let me do that.' });
+
+		expect(approved).toMatchObject({
+			toolCallId: 'call-1',
+			toolInput: { method: 'POST' },
+			status: 'success',
+			approvalStatus: 'approved',
+			approvalLevel: 'once',
+			instanceNumber: 1
+		} as Partial<ToolMessage>);
+		expect(denied).toMatchObject({
+			status: 'error',
+			consentStatus: 'denied',
+			consentRequiredRoles: ['CanGetAnyUser'],
+			instanceNumber: 2
+		} as Partial<ToolMessage>);
+	});
+
+	it('links assistant tool calls to their tool messages', () => {
+		const assistant = toThreadMessages(storedThread)[1] as AssistantMessage;
+
+		expect(assistant.toolCalls).toEqual([
+			expect.objectContaining({ id: 'call-1', status: 'success', result: { account_id: 'acc-1' } }),
+			expect.objectContaining({ id: 'call-2', status: 'error', result: 'Consent denied' })
+		]);
+	});
+});
+
+describe('fetchThreadMessages', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('returns no messages for a thread the backend does not know', async () => {
+		vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 404 })));
+
+		expect(await fetchThreadMessages('http://opey', 'missing')).toEqual([]);
+		expect(fetch).toHaveBeenCalledWith(
+			'http://opey/threads/missing/messages',
+			expect.objectContaining({ method: 'GET' })
+		);
+	});
+});
@@ -0,0 +1,171 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('threadHistory');
+import type { AssistantMessage, BaseMessage, ToolCall, ToolMessage, UserMessage } from '../types';
+
+/**
+ * Fetch the stored messages of a thread from Opey and map them to chat messages.
+ * Shared by every ChatService implementation. Returns an empty list for unknown threads.
+ */
+export async function fetchThreadMessages(
+	baseUrl: string,
+	threadId: string,
+	init: RequestInit = {}
+): Promise<BaseMessage[]> {
+	const res = await fetch(`${baseUrl}/threads/${encodeURIComponent(threadId)}/messages`, {
+		...init,
+		method: 'GET',
+		credentials: 'include'
+	});
+
+	if (res.status === 404) {
+		logger.info(`Thread ${threadId} not found on the backend`);
+		return [];
+	}
+	if (!res.ok) {
+		throw new Error(`Failed to load thread history: HTTP ${res.status}: ${res.statusText}`);
+	}
+
+	const data = await res.json();
+	return toThreadMessages(data.messages ?? []);
+}
+
+/**
+ * Map Opey's stored thread messages (snake_case) to UserMessage / AssistantMessage /
+ * ToolMessage, including tool outputs, approval and consent outcomes.
+ * Each AssistantMessage.toolCalls entry is linked to the ToolMessage that ran it.
+ */
+export function toThreadMessages(rawMessages: any[]): BaseMessage[] {
+	const messages: BaseMessage[] = [];
+	const toolCallArgs = new Map<string, Record<string, any>>();
+	const toolInstanceCounts: Record<string, number> = {};
+
+	for (const raw of rawMessages) {
+		switch (raw.role ?? raw.type) {
+			case 'user':
+			case 'human': {
+				const id = raw.message_id ?? raw.id;
+				messages.push({
+					id,
+					correlationId: raw.correlation_id ?? id,
+					role: 'user',
+					message: raw.content ?? '',
+					timestamp: parseTimestamp(raw.timestamp)
+				} as UserMessage);
+				break;
+			}
+			case 'assistant':
+			case 'ai': {
+				const toolCalls: ToolCall[] = (raw.tool_calls ?? []).map((tc: any) => {
+					toolCallArgs.set(tc.id, tc.args ?? {});
+					return { id: tc.id, name: tc.name, args: tc.args ?? {}, status: 'pending' };
+				});
+				messages.push({
+					id: raw.message_id ?? raw.id,
+					role: 'assistant',
+					message: raw.content ?? '',
+					timestamp: parseTimestamp(raw.timestamp),
+					toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+				} as AssistantMessage);
+				break;
+			}
+			case 'tool': {
+				const toolCallId = raw.tool_call_id;
+				const toolName = raw.tool_name ?? raw.name;
+				toolInstanceCounts[toolName] = (toolInstanceCounts[toolName] ?? 0) + 1;
+				messages.push(
+					toToolMessage(raw, toolCallArgs.get(toolCallId), toolInstanceCounts[toolName])
+				);
+				break;
+			}
+			default:
+				logger.warn(`Skipping thread message with unknown role: ${raw.role ?? raw.type}`);
+				break;
+		}
+	}
+
+	linkToolCalls(messages);
+	return messages;
+}
+
+function toToolMessage(
+	raw: any,
+	callArgs: Record<string, any> | undefined,
+	instanceNumber: number
+): ToolMessage {
+	const output = raw.tool_output ?? raw.content;
+	const status: ToolMessage['status'] =
+		raw.status === 'error' || raw.approval_status === 'denied' || raw.consent_status === 'denied'
+			? 'error'
+			: output !== undefined && output !== null
+				? 'success'
+				: undefined;
+
+	const message: ToolMessage = {
+		id: raw.tool_call_id,
+		role: 'tool',
+		message: '',
+		timestamp: parseTimestamp(raw.timestamp),
+		toolCallId: raw.tool_call_id,
+		toolName: raw.tool_name ?? raw.name,
+		toolInput: raw.tool_input ?? callArgs ?? {},
+		toolOutput: output,
+		status,
+		instanceNumber,
+		isStreaming: false
+	};
+
+	if (status === 'error' && output) {
+		const errorOutput = typeof output === 'string' ? output : JSON.stringify(output);
+		message.error = `Tool execution failed: ${errorOutput}`;
+	}
+
+	if (raw.approval_status) {
+		message.approvalStatus = raw.approval_status;
+		message.approvalLevel = raw.approval_level;
+		message.approvalMessage = raw.approval_message;
+		message.riskLevel = raw.risk_level;
+		message.affectedResources = raw.affected_resources;
+		message.reversible = raw.reversible;
+	}
+
+	if (raw.consent_status) {
+		message.consentStatus = raw.consent_status;
+		message.consentOperationId = raw.consent_operation_id ?? undefined;
+		message.consentRequiredRoles = raw.consent_required_roles ?? [];
+		message.consentBankId = raw.consent_bank_id ?? undefined;
+	}
+
+	return message;
+}
+
+/** Point each AssistantMessage tool call at the result of its ToolMessage. */
+function linkToolCalls(messages: BaseMessage[]): void {
+	const toolMessages = new Map<string, ToolMessage>();
+	for (const msg of messages) {
+		if (msg.role === 'tool') {
+			toolMessages.set((msg as ToolMessage).toolCallId, msg as ToolMessage);
+		}
+	}
+
+	for (const msg of messages) {
+		if (msg.role !== 'assistant') continue;
+		for (const call of (msg as AssistantMessage).toolCalls ?? []) {
+			const tool = toolMessages.get(call.id);
+			if (!tool) continue;
+			call.status = tool.status ?? 'pending';
+			call.result = tool.toolOutput;
+			call.error = tool.error;
+		}
+	}
+}
+
+/** Opey sends either epoch seconds or ISO strings. */
+function parseTimestamp(value: unknown): Date {
+	if (typeof value === 'number') {
+		return new Date(value < 1e12 ? value * 1000 : value);
+	}
+	if (typeof value === 'string') {
+		return new Date(value);
+	}
+	return new Date();
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ChatState, type ChatStateSnapshot } from './ChatState';
+import type { BaseMessage } from '../types';
+import { fromStoredThread, toStoredThread } from '../services/ChatHistoryStore';
+
+function message(id: string, role: BaseMessage['role'] = 'user'): BaseMessage {
+	return { id, correlationId: id, role, message: id, timestamp: new Date() };
+}
+
+describe('ChatState branching', () => {
+	let state: ChatState;
+	let snapshot: ChatStateSnapshot;
+
+	beforeEach(() => {
+		state = new ChatState('thread-1');
+		state.subscribe((s) => (snapshot = s));
+		['u1', 'a1', 'u2', 'a2'].forEach((id) =>
+			state.addMessage(message(id, id.startsWith('u') ? 'user' : 'assistant'))
+		);
+	});
+
+	it('links each message to the one before it', () => {
+		expect(snapshot.messages.map((m) => m.parentId)).toEqual([undefined, 'u1', 'a1', 'u2']);
+	});
+
+	it('keeps the original continuation as a sibling when a message is edited', () => {
+		state.forkAt('u2');
+		state.addMessage(message('u2-edit'));
+
+		expect(snapshot.messages.map((m) => m.id)).toEqual(['u1', 'a1', 'u2-edit']);
+		expect(snapshot.messages[2].parentId).toBe('a1');
+		expect(snapshot.branches).toEqual({ 'u2-edit': { index: 1, count: 2 } });
+
+		state.switchBranch('u2-edit', 0);
+
+		expect(snapshot.messages.map((m) => m.id)).toEqual(['u1', 'a1', 'u2', 'a2']);
+		expect(snapshot.branches).toEqual({ u2: { index: 0, count: 2 } });
+	});
+
+	it('restores the latest state of a branch when switching back to it', () => {
+		state.forkAt('u2');
+		state.addMessage(message('u2-edit'));
+		state.switchBranch('u2-edit', 0);
+		state.switchBranch('u2', 1);
+		state.addMessage(message('a2-edit', 'assistant'));
+		state.switchBranch('u2-edit', 0);
+		state.switchBranch('u2', 1);
+
+		expect(snapshot.messages.map((m) => m.id)).toEqual(['u1', 'a1', 'u2-edit', 'a2-edit']);
+	});
+
+	it('branches responses when regenerating after a message', () => {
+		state.forkAfter('u2');
+		state.addMessage(message('a2-regen', 'assistant'));
+
+		expect(snapshot.branches).toEqual({ 'a2-regen': { index: 1, count: 2 } });
+	});
+
+	it('keeps branches reachable after the backend confirms a message ID', () => {
+		state.addMessage({ ...message('temp-u3'), isPending: true });
+		state.addMessage(message('a3', 'assistant'));
+		state.forkAfter('temp-u3');
+		state.addMessage(message('a3-regen', 'assistant'));
+
+		state.syncUserMessage('u3', 'temp-u3');
+		state.switchBranch('a3-regen', 0);
+
+		expect(snapshot.messages.map((m) => m.id)).toEqual(['u1', 'a1', 'u2', 'a2', 'u3', 'a3']);
+		expect(snapshot.messages[5].parentId).toBe('u3');
+	});
+
+	it('keeps branches when a stored thread is loaded again', () => {
+		state.forkAt('u2');
+		state.addMessage(message('u2-edit'));
+		const stored = JSON.parse(JSON.stringify(toStoredThread(snapshot)));
+
+		const restored = new ChatState();
+		restored.subscribe((s) => (snapshot = s));
+		restored.loadSnapshot(fromStoredThread(stored));
+
+		expect(snapshot.messages.map((m) => m.id)).toEqual(['u1', 'a1', 'u2-edit']);
+		expect(snapshot.branches).toEqual({ 'u2-edit': { index: 1, count: 2 } });
+
+		restored.switchBranch('u2-edit', 0);
+
+		expect(snapshot.messages.map((m) => m.id)).toEqual(['u1', 'a1', 'u2', 'a2']);
+		expect(snapshot.messages[3].parentId).toBe('u2');
+	});
+});
+
+describe('ChatState tool output streaming', () => {
+	it('accumulates streamed tool tokens in partialOutput', () => {
+		const state = new ChatState('thread-1');
+		let snapshot: ChatStateSnapshot | undefined;
+		state.subscribe((s) => (snapshot = s));
+		state.addToolMessage({
+			id: 'call-1',
+			role: 'tool',
+			message: '',
+			timestamp: new Date(),
+			toolCallId: 'call-1',
+			toolName: 'obp_requests',
+			toolInput: {},
+			isStreaming: true
+		});
+
+		state.appendToolOutput('call-1', '{"banks": ');
+		state.appendToolOutput('call-1', '[]}');
+
+		expect(snapshot?.messages[0]).toMatchObject({ partialOutput: '{"banks": []}' });
+	});
+});
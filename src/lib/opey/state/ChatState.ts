@@ -2,14 +2,41 @@ import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('ChatState');
 import type { BaseMessage, ToolMessage } from '../types';
 
+/** Position of a message among its sibling branches, e.g. branch 2 of 3 */
+export interface MessageBranchInfo {
+	index: number;
+	count: number;
+}
+
 export interface ChatStateSnapshot {
 	threadId: string;
+	/** The active branch of the conversation, in order */
 	messages: BaseMessage[];
+	/** Branch position of messages that have siblings, keyed by message ID */
+	branches?: Record<string, MessageBranchInfo>;
+	/**
+	 * Every branch point, keyed by the ID of the message it follows ('' for the start
+	 * of the thread), so persisted threads keep their branches. The active tail is
+	 * left empty since it is `messages`.
+	 */
+	branchTails?: Record<string, ChatBranch>;
 }
 
+/** Alternative continuations after the same message */
+export interface ChatBranch {
+	tails: BaseMessage[][];
+	active: number;
+}
+
+// Branch key for alternatives to the first message of the thread
+const ROOT_BRANCH_KEY = '';
+
 export class ChatState {
 	private threadId: string;
 	private messages: BaseMessage[] = [];
+	// Keyed by the ID of the message the alternatives follow. The active tail lives in
+	// this.messages and is only copied back into its branch when switching away from it.
+	private branches = new Map<string, ChatBranch>();
 	private subscribers: Array<(snapshot: ChatStateSnapshot) => void> = [];
 	private sessionStartTime: Date = new Date();
 
@@ -27,10 +54,27 @@ export class ChatState {
 	setThreadId(newId: string = crypto.randomUUID()): void {
 		this.threadId = newId;
 		this.messages = [];
+		this.branches.clear();
 		this.sessionStartTime = new Date();
 		this.emit(); // Notify subscribers about the change
 	}
 
+	/** replaces the whole conversation (e.g. restoring a saved thread), emitting once */
+	loadSnapshot(snapshot: ChatStateSnapshot): void {
+		this.threadId = snapshot.threadId;
+		this.messages = [...snapshot.messages];
+		this.branches.clear();
+		for (const [key, branch] of Object.entries(snapshot.branchTails ?? {})) {
+			this.branches.set(key, {
+				tails: branch.tails.map((tail) => [...tail]),
+				active: branch.active
+			});
+		}
+		this.linkParents();
+		this.sessionStartTime = new Date();
+		this.emit();
+	}
+
 	/** synchronizes thread_id with backend without clearing messages */
 	syncThreadId(backendThreadId: string): void {
 		if (this.threadId !== backendThreadId) {
@@ -62,6 +106,8 @@ export class ChatState {
 			logger.debug(`Syncing message via correlation ID: ${correlationId} → backend ID: ${backendId}`);
 			this.messages[index].id = backendId;
 			this.messages[index].isPending = false;
+			this.renameBranchKey(correlationId, backendId);
+			this.linkParents();
 			this.messages = [...this.messages]; // Trigger reactivity
 			this.emit();
 		} else {
@@ -77,6 +123,7 @@ export class ChatState {
 			logger.warn(`Duplicate message ID detected: ${message.id}. Skipping duplicate message.`);
 			return;
 		}
+		message.parentId = this.messages[this.messages.length - 1]?.id;
 		this.messages.push(message);
 		this.emit();
 	}
@@ -89,6 +136,7 @@ export class ChatState {
 			);
 			return;
 		}
+		toolMessage.parentId = this.messages[this.messages.length - 1]?.id;
 		this.messages.push(toolMessage);
 		this.emit();
 	}
@@ -319,6 +367,7 @@ export class ChatState {
 	/** Remove any loading messages (typically when actual assistant message arrives) */
 	removeLoadingMessages(): void {
 		this.messages = this.messages.filter((msg) => !msg.isLoading);
+		this.linkParents();
 		this.emit();
 	}
 
@@ -333,6 +382,18 @@ export class ChatState {
 		}
 	}
 
+	/** Append a streamed chunk of tool output to the tool message's partialOutput */
+	appendToolOutput(toolCallId: string, text: string): void {
+		const toolMessage = this.getToolMessageByCallId(toolCallId);
+		if (!toolMessage) {
+			logger.debug(`Tool message with toolCallId ${toolCallId} not found for tool output`);
+			return;
+		}
+		toolMessage.partialOutput = (toolMessage.partialOutput ?? '') + text;
+		this.messages = [...this.messages]; // Force Svelte reactivity
+		this.emit();
+	}
+
 	markMessageComplete(messageId: string): void {
 		const message = this.messages.find((msg) => msg.id === messageId);
 		if (!message) {
@@ -387,21 +448,22 @@ export class ChatState {
 	subscribe(fn: (msgs: ChatStateSnapshot) => void): void {
 		this.subscribers.push(fn);
 		logger.debug('ChatState: Subscribed to messages');
-		fn({ threadId: this.threadId, messages: this.messages }); // Send current state immediately
+		fn(this.snapshot()); // Send current state immediately
 	}
 
 	/**
 	 * Mark all currently streaming messages as complete.
 	 * Used when cancelling/stopping a stream to prevent new messages from being appended.
+	 * Pass cancelled=false when the stream ended on its own (e.g. the connection was lost).
 	 */
-	stopAllStreaming(): void {
+	stopAllStreaming(cancelled: boolean = true): void {
 		logger.debug('Stopping all streaming messages');
 		let updated = false;
 		
 		this.messages.forEach(message => {
 			if (message.isStreaming) {
 				message.isStreaming = false;
-				message.cancelled = true;
+				message.cancelled = cancelled;
 				updated = true;
 				logger.debug(`Marked message ${message.id} as cancelled`);
 			}
@@ -431,8 +493,60 @@ export class ChatState {
 		this.emit();
 	}
 
+	/**
+	 * Start a new, empty branch in place of `messageId` and everything after it.
+	 * The replaced messages are kept as a sibling branch that can be switched back to.
+	 * Used when editing a user message.
+	 */
+	forkAt(messageId: string): void {
+		const index = this.messages.findIndex((msg) => msg.id === messageId);
+		if (index === -1) {
+			logger.warn(`Message with ID ${messageId} not found for forkAt`);
+			return;
+		}
+		this.fork(index);
+	}
+
+	/**
+	 * Start a new, empty branch after `messageId`, keeping everything that followed it
+	 * as a sibling branch. Used when regenerating a response.
+	 */
+	forkAfter(messageId: string): void {
+		const index = this.messages.findIndex((msg) => msg.id === messageId);
+		if (index === -1) {
+			logger.warn(`Message with ID ${messageId} not found for forkAfter`);
+			return;
+		}
+		this.fork(index + 1);
+	}
+
+	/**
+	 * Make another sibling branch of `messageId` the active one.
+	 *
+	 * @param messageId - A message on the active path that has siblings
+	 * @param branchIndex - Zero-based index of the sibling branch to show
+	 */
+	switchBranch(messageId: string, branchIndex: number): void {
+		const index = this.messages.findIndex((msg) => msg.id === messageId);
+		const key = index > 0 ? this.messages[index - 1].id : ROOT_BRANCH_KEY;
+		const branch = index === -1 ? undefined : this.branches.get(key);
+
+		if (!branch || branchIndex < 0 || branchIndex >= branch.tails.length) {
+			logger.warn(`No branch ${branchIndex} found for message ${messageId}`);
+			return;
+		}
+		if (branchIndex === branch.active) return;
+
+		branch.tails[branch.active] = this.messages.slice(index);
+		branch.active = branchIndex;
+		this.messages = [...this.messages.slice(0, index), ...branch.tails[branchIndex]];
+		logger.debug(`Switched message ${messageId} to branch ${branchIndex + 1}/${branch.tails.length}`);
+		this.emit();
+	}
+
 	clear(): void {
 		this.messages = [];
+		this.branches.clear();
 		this.sessionStartTime = new Date();
 		this.emit();
 	}
@@ -447,12 +561,82 @@ export class ChatState {
 		return false;
 	}
 
-	// Notify subscribers
-	private emit(): void {
-		const snapshot = {
+	private fork(index: number): void {
+		const tail = this.messages.slice(index);
+		if (tail.length === 0) return;
+
+		const key = index > 0 ? this.messages[index - 1].id : ROOT_BRANCH_KEY;
+		let branch = this.branches.get(key);
+		if (branch) {
+			branch.tails[branch.active] = tail;
+		} else {
+			branch = { tails: [tail], active: 0 };
+			this.branches.set(key, branch);
+		}
+		branch.tails.push([]);
+		branch.active = branch.tails.length - 1;
+
+		this.messages = this.messages.slice(0, index);
+		logger.debug(`Forked conversation after ${key || 'the start'} (${branch.tails.length} branches)`);
+		this.emit();
+	}
+
+	/** Point every message on the active path at the one before it */
+	private linkParents(): void {
+		this.messages.forEach((msg, i) => {
+			msg.parentId = this.messages[i - 1]?.id;
+		});
+	}
+
+	/** Keep branches reachable when the message they follow gets its backend ID */
+	private renameBranchKey(oldId: string, newId: string): void {
+		const branch = this.branches.get(oldId);
+		if (!branch) return;
+		this.branches.delete(oldId);
+		this.branches.set(newId, branch);
+		branch.tails.forEach((tail) => {
+			if (tail[0]) tail[0].parentId = newId;
+		});
+	}
+
+	private branchInfo(): Record<string, MessageBranchInfo> {
+		const info: Record<string, MessageBranchInfo> = {};
+		for (const [key, branch] of this.branches) {
+			if (branch.tails.length < 2) continue;
+			// Only branches hanging off the active path are visible
+			const index =
+				key === ROOT_BRANCH_KEY ? 0 : this.messages.findIndex((msg) => msg.id === key) + 1;
+			const first = index > 0 || key === ROOT_BRANCH_KEY ? this.messages[index] : undefined;
+			if (first) {
+				info[first.id] = { index: branch.active, count: branch.tails.length };
+			}
+		}
+		return info;
+	}
+
+	private branchTails(): Record<string, ChatBranch> {
+		const tails: Record<string, ChatBranch> = {};
+		for (const [key, branch] of this.branches) {
+			tails[key] = {
+				tails: branch.tails.map((tail, i) => (i === branch.active ? [] : tail)),
+				active: branch.active
+			};
+		}
+		return tails;
+	}
+
+	private snapshot(): ChatStateSnapshot {
+		return {
 			threadId: this.threadId,
-			messages: this.messages
+			messages: this.messages,
+			branches: this.branchInfo(),
+			branchTails: this.branchTails()
 		};
+	}
+
+	// Notify subscribers
+	private emit(): void {
+		const snapshot = this.snapshot();
 		this.subscribers.forEach((fn) => fn(snapshot));
 	}
 }
@@ -0,0 +1,97 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('OutboxState');
+
+/** A user message waiting to be sent once Opey is reachable again */
+export interface QueuedMessage {
+	id: string;
+	threadId: string;
+	text: string;
+	queuedAt: Date;
+}
+
+const STORAGE_KEY_PREFIX = 'opey-outbox:';
+
+/**
+ * Observable queue of messages written while offline.
+ * Persisted to localStorage under the user's ID so queued messages survive a page
+ * reload; without a user ID it is kept in memory only.
+ */
+export class OutboxState {
+	private items: QueuedMessage[];
+	private subscribers: Array<(items: QueuedMessage[]) => void> = [];
+	private storageKey?: string;
+
+	constructor(userId?: string) {
+		this.storageKey = userId ? `${STORAGE_KEY_PREFIX}${userId}` : undefined;
+		this.items = this.read();
+	}
+
+	/** Drop every user's persisted queue, e.g. on logout */
+	static clearStored(): void {
+		if (typeof localStorage === 'undefined') return;
+		Object.keys(localStorage)
+			.filter((key) => key.startsWith(STORAGE_KEY_PREFIX))
+			.forEach((key) => localStorage.removeItem(key));
+	}
+
+	subscribe(fn: (items: QueuedMessage[]) => void): void {
+		this.subscribers.push(fn);
+		fn(this.items);
+	}
+
+	/** Queued messages in send order, optionally only those for one thread */
+	getItems(threadId?: string): QueuedMessage[] {
+		return threadId ? this.items.filter((item) => item.threadId === threadId) : this.items;
+	}
+
+	enqueue(threadId: string, text: string): QueuedMessage {
+		const item: QueuedMessage = { id: crypto.randomUUID(), threadId, text, queuedAt: new Date() };
+		this.items = [...this.items, item];
+		this.persist();
+		return item;
+	}
+
+	update(id: string, text: string): void {
+		if (!this.items.some((item) => item.id === id)) {
+			logger.warn(`Queued message ${id} not found for update`);
+			return;
+		}
+		this.items = this.items.map((item) => (item.id === id ? { ...item, text } : item));
+		this.persist();
+	}
+
+	remove(id: string): void {
+		this.items = this.items.filter((item) => item.id !== id);
+		this.persist();
+	}
+
+	private read(): QueuedMessage[] {
+		if (!this.storageKey || typeof localStorage === 'undefined') return [];
+		try {
+			const raw = localStorage.getItem(this.storageKey);
+			const stored: Array<Omit<QueuedMessage, 'queuedAt'> & { queuedAt: string }> = raw
+				? JSON.parse(raw)
+				: [];
+			return stored.map((item) => ({ ...item, queuedAt: new Date(item.queuedAt) }));
+		} catch (error) {
+			logger.error('Failed to read the outbox:', error);
+			return [];
+		}
+	}
+
+	private persist(): void {
+		if (this.storageKey && typeof localStorage !== 'undefined') {
+			try {
+				localStorage.setItem(this.storageKey, JSON.stringify(this.items));
+			} catch (error) {
+				// Keep the in-memory queue working even if it can't be persisted
+				logger.error('Failed to persist the outbox:', error);
+			}
+		}
+		this.emit();
+	}
+
+	private emit(): void {
+		this.subscribers.forEach((fn) => fn(this.items));
+	}
+}
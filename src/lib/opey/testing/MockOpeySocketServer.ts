@@ -0,0 +1,144 @@
+import type {
+	OpeySocketFrame,
+	WebSocketFactory,
+	WebSocketLike
+} from '../services/WebSocketChatService';
+
+type FrameHandler = (frame: OpeySocketFrame, connection: MockOpeyConnection) => void;
+
+/**
+ * One client connection to the mock server, as seen from the server side.
+ */
+export class MockOpeyConnection {
+	/** Frames received from the client, in order. */
+	readonly frames: OpeySocketFrame[] = [];
+
+	constructor(
+		readonly threadId: string,
+		private socket: MockOpeySocket
+	) {}
+
+	/** Send a raw Opey wire event (snake_case) to the client. */
+	emit(event: Record<string, any>): void {
+		this.socket.deliver(JSON.stringify(event));
+	}
+
+	/** Close the connection from the server side. */
+	close(code = 1000, reason = ''): void {
+		this.socket.serverClose(code, reason);
+	}
+}
+
+/**
+ * In-memory WebSocket that talks to a MockOpeySocketServer instead of the network.
+ * Events are dispatched on microtasks so callers see the same ordering as a real socket.
+ */
+class MockOpeySocket implements WebSocketLike {
+	readyState = 0;
+	onopen: ((ev: any) => void) | null = null;
+	onmessage: ((ev: { data: any }) => void) | null = null;
+	onerror: ((ev: any) => void) | null = null;
+	onclose: ((ev: { code: number; reason: string }) => void) | null = null;
+
+	constructor(private onClientFrame: (data: string) => void) {}
+
+	send(data: string): void {
+		if (this.readyState !== 1) {
+			throw new Error('MockOpeySocket is not open');
+		}
+		this.onClientFrame(data);
+	}
+
+	close(code = 1000, reason = ''): void {
+		this.serverClose(code, reason);
+	}
+
+	open(): void {
+		queueMicrotask(() => {
+			this.readyState = 1;
+			this.onopen?.({});
+		});
+	}
+
+	deliver(data: string): void {
+		queueMicrotask(() => {
+			if (this.readyState === 1) this.onmessage?.({ data });
+		});
+	}
+
+	serverClose(code: number, reason: string): void {
+		if (this.readyState >= 2) return;
+		this.readyState = 2;
+		queueMicrotask(() => {
+			this.readyState = 3;
+			this.onclose?.({ code, reason });
+		});
+	}
+}
+
+/**
+ * Local test double of the Opey socket server, for exercising WebSocketChatService offline.
+ *
+ * Pass `server.socketFactory` to the service. By default the server answers a
+ * 'message' frame with a confirmed user message and an echoed assistant reply;
+ * use `onFrame` to script other behaviour (tool calls, approvals, errors).
+ *
+ * @example
+ * const server = new MockOpeySocketServer();
+ * const service = new WebSocketChatService('http://opey.test', { socketFactory: server.socketFactory });
+ */
+export class MockOpeySocketServer {
+	readonly connections: MockOpeyConnection[] = [];
+	private handler: FrameHandler = echoHandler;
+	private rejectCode: number | null = null;
+
+	readonly socketFactory: WebSocketFactory = (url: string) => {
+		const threadId = decodeURIComponent(url.split('/').pop() ?? '');
+		let connection: MockOpeyConnection;
+		const socket = new MockOpeySocket((data) => {
+			const frame = JSON.parse(data) as OpeySocketFrame;
+			connection.frames.push(frame);
+			this.handler(frame, connection);
+		});
+		connection = new MockOpeyConnection(threadId, socket);
+		this.connections.push(connection);
+
+		if (this.rejectCode !== null) {
+			socket.serverClose(this.rejectCode, 'Rejected by mock server');
+		} else {
+			socket.open();
+		}
+		return socket;
+	};
+
+	/** Replace the default echo behaviour with a custom frame handler. */
+	onFrame(handler: FrameHandler): void {
+		this.handler = handler;
+	}
+
+	/** Refuse new connections with the given close code (e.g. 4401), or accept them again with null. */
+	rejectConnections(code: number | null): void {
+		this.rejectCode = code;
+	}
+
+	/** The most recent connection for a thread. */
+	connection(threadId: string): MockOpeyConnection | undefined {
+		return this.connections.filter((c) => c.threadId === threadId).pop();
+	}
+}
+
+function echoHandler(frame: OpeySocketFrame, connection: MockOpeyConnection): void {
+	if (frame.type !== 'message') return;
+
+	const messageId = `msg-${connection.frames.length}`;
+	connection.emit({
+		type: 'user_message_confirmed',
+		message_id: `user-${messageId}`,
+		correlation_id: frame.correlation_id,
+		content: frame.message,
+		timestamp: Date.now() / 1000
+	});
+	connection.emit({ type: 'assistant_start', message_id: messageId, timestamp: Date.now() });
+	connection.emit({ type: 'assistant_token', message_id: messageId, content: frame.message });
+	connection.emit({ type: 'assistant_complete', message_id: messageId });
+}
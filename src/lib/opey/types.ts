@@ -4,6 +4,7 @@ export type Role = 'user' | 'assistant' | 'tool' | 'error' | 'approval_request';
 export interface BaseMessage {
 	id: string; // i.e. UUID4
 	correlationId?: string; // Temporary ID for optimistic UI updates
+	parentId?: string; // ID of the message this one follows in the conversation tree
 	role: Role;
 	message: string;
 	timestamp: Date; // ISO string
@@ -38,6 +39,7 @@ export interface ToolMessage extends BaseMessage {
 	toolInput: Record<string, any>; // Input parameters for the tool call
 	status?: 'success' | 'error';
 	toolOutput?: any; // Output from the tool call, if available
+	partialOutput?: string; // Raw output streamed so far, cleared once the tool completes
 	instanceNumber?: number; // Instance number for display (e.g., "retrieve_endpoints (2)")
 	waitingForApproval?: boolean; // Whether tool is waiting for user approval
 	approvalStatus?: 'approved' | 'denied'; // Whether tool was approved or denied by user
@@ -51,6 +53,7 @@ export interface ToolMessage extends BaseMessage {
 	similarOperationsCount?: number;
 	availableApprovalLevels?: string[];
 	defaultApprovalLevel?: string;
+	autoApproval?: { decision: 'approve' | 'deny'; ruleName?: string }; // Set when an approval policy decided
 	// Consent request fields (for consent_request events)
 	waitingForConsent?: boolean; // Whether tool is waiting for user to provide consent JWT
 	consentStatus?: 'pending' | 'granted' | 'denied'; // Status of the consent request
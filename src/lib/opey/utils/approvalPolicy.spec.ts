@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { ApprovalPolicyEngine, type ApprovalPolicy } from './approvalPolicy';
+
+const policy: ApprovalPolicy = {
+	rules: [
+		{ name: 'No deletes', toolName: 'obp_requests', method: 'DELETE', decision: 'deny' },
+		{
+			name: 'Read-only bank data',
+			toolName: 'obp_requests',
+			method: 'get',
+			endpoint: '/obp/*/banks/**',
+			decision: 'approve',
+			level: 'session'
+		},
+		{ name: 'Safe tools', riskLevel: ['low'], reversible: true, decision: 'approve' }
+	]
+};
+
+describe('ApprovalPolicyEngine', () => {
+	const engine = new ApprovalPolicyEngine(policy);
+
+	it('applies the first matching rule', () => {
+		const result = engine.evaluate({
+			toolName: 'obp_requests',
+			toolInput: { method: 'GET', endpoint: '/obp/v5.1.0/banks/gh.29.uk/accounts?limit=10' }
+		});
+
+		expect(result.decision).toBe('approve');
+		expect(result.rule?.name).toBe('Read-only bank data');
+	});
+
+	it('matches methods case-insensitively and endpoint globs by segment', () => {
+		expect(
+			engine.evaluate({
+				toolName: 'obp_requests',
+				toolInput: { method: 'delete', endpoint: '/obp/v5.1.0/banks/x' }
+			}).rule?.name
+		).toBe('No deletes');
+
+		expect(
+			engine.evaluate({
+				toolName: 'obp_requests',
+				toolInput: { method: 'GET', endpoint: '/obp/v5.1.0/users/current' }
+			}).decision
+		).toBe('manual');
+	});
+
+	it('matches on risk level and reversibility', () => {
+		expect(
+			engine.evaluate({
+				toolName: 'retrieve_glossary',
+				toolInput: {},
+				riskLevel: 'low',
+				reversible: true
+			}).decision
+		).toBe('approve');
+		expect(
+			engine.evaluate({
+				toolName: 'retrieve_glossary',
+				toolInput: {},
+				riskLevel: 'low',
+				reversible: false
+			}).decision
+		).toBe('manual');
+	});
+
+	it('falls back to the default decision', () => {
+		const strict = new ApprovalPolicyEngine({ rules: [], defaultDecision: 'deny' });
+
+		expect(strict.evaluate({ toolName: 'anything', toolInput: {} })).toEqual({ decision: 'deny' });
+	});
+});
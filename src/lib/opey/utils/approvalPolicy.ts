@@ -0,0 +1,111 @@
+/**
+ * Client-side approval policies for tool calls.
+ *
+ * Rules are checked in order and the first match decides. A rule matches when every
+ * criterion it sets matches; criteria left out match anything.
+ */
+
+export type ApprovalDecision = 'approve' | 'deny' | 'manual';
+
+export interface ApprovalRule {
+	/** Shown to the user when the rule decides a tool call */
+	name: string;
+	toolName?: string | string[];
+	/** HTTP method of OBP requests, case-insensitive */
+	method?: string | string[];
+	/**
+	 * Endpoint path. Strings are globs: `*` matches one path segment, `**` any number.
+	 * e.g. '/obp/v5.1.0/banks/**'
+	 */
+	endpoint?: string | RegExp;
+	riskLevel?: string | string[];
+	reversible?: boolean;
+	decision: ApprovalDecision;
+	/** Approval level to use when auto-approving. Defaults to the request's default level. */
+	level?: string;
+}
+
+export interface ApprovalPolicy {
+	rules: ApprovalRule[];
+	/** Decision when no rule matches. Defaults to 'manual'. */
+	defaultDecision?: ApprovalDecision;
+}
+
+/** What a policy needs to know about a tool call waiting for approval */
+export interface ApprovalRequestContext {
+	toolName: string;
+	toolInput: Record<string, any>;
+	riskLevel?: string;
+	reversible?: boolean;
+	method?: string;
+	endpoint?: string;
+}
+
+export interface ApprovalEvaluation {
+	decision: ApprovalDecision;
+	/** The rule that decided, if any */
+	rule?: ApprovalRule;
+}
+
+export class ApprovalPolicyEngine {
+	constructor(private policy: ApprovalPolicy = { rules: [] }) {}
+
+	evaluate(request: ApprovalRequestContext): ApprovalEvaluation {
+		const method = request.method ?? request.toolInput?.method;
+		const endpoint = request.endpoint ?? request.toolInput?.endpoint ?? request.toolInput?.path;
+
+		const rule = this.policy.rules.find(
+			(rule) =>
+				matchesAny(rule.toolName, request.toolName) &&
+				matchesAny(rule.method, method, true) &&
+				matchesAny(rule.riskLevel, request.riskLevel) &&
+				(rule.reversible === undefined || rule.reversible === request.reversible) &&
+				matchesEndpoint(rule.endpoint, endpoint)
+		);
+
+		if (rule) {
+			return { decision: rule.decision, rule };
+		}
+		return { decision: this.policy.defaultDecision ?? 'manual' };
+	}
+}
+
+function matchesAny(
+	expected: string | string[] | undefined,
+	actual: string | undefined,
+	ignoreCase = false
+): boolean {
+	if (expected === undefined) return true;
+	if (actual === undefined) return false;
+
+	const normalize = (value: string) => (ignoreCase ? value.toUpperCase() : value);
+	const candidates = Array.isArray(expected) ? expected : [expected];
+	return candidates.some((candidate) => normalize(candidate) === normalize(actual));
+}
+
+function matchesEndpoint(
+	pattern: string | RegExp | undefined,
+	endpoint: string | undefined
+): boolean {
+	if (pattern === undefined) return true;
+	if (!endpoint) return false;
+
+	// Ignore any query string when matching the path
+	const path = endpoint.split('?')[0];
+	return (pattern instanceof RegExp ? pattern : globToRegExp(pattern)).test(path);
+}
+
+function globToRegExp(glob: string): RegExp {
+	const source = glob
+		.split('/')
+		.map((segment) =>
+			segment === '**'
+				? '.*'
+				: segment
+						.split('*')
+						.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+						.join('[^/]*')
+		)
+		.join('/');
+	return new RegExp(`^${source}/?$`);
+}
@@ -126,7 +126,8 @@ function renderAssistantMessage(
 }
 
 /**
- * Serialize the full conversation to markdown.
+ * Serialize the conversation to markdown.
+ * Pass the active branch (ChatStateSnapshot.messages); sibling branches are not exported.
  */
 export function chatToMarkdown(messages: BaseMessage[]): string {
 	const toolMap = buildToolMap(messages);
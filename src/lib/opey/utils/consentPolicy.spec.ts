@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+	DEFAULT_CONSENT_POLICY,
+	consentDurationOptions,
+	formatConsentDuration,
+	validateConsentRequest,
+	type ConsentPolicy
+} from './consentPolicy';
+
+const policy: ConsentPolicy = {
+	...DEFAULT_CONSENT_POLICY,
+	minTimeToLiveSeconds: 600,
+	maxTimeToLiveSeconds: 7200,
+	defaultTimeToLiveSeconds: 1800
+};
+
+describe('validateConsentRequest', () => {
+	it('accepts durations within bounds and superseding roles', () => {
+		expect(
+			validateConsentRequest(
+				{
+					requiredRoles: ['CanCreateCustomer'],
+					roleChoices: { CanCreateCustomer: 'CanCreateCustomerAtAnyBank' },
+					timeToLiveSeconds: 3600
+				},
+				policy
+			)
+		).toEqual([]);
+	});
+
+	it('rejects durations outside bounds and roles that do not supersede', () => {
+		const errors = validateConsentRequest(
+			{
+				requiredRoles: ['CanCreateCustomer'],
+				roleChoices: { CanCreateCustomer: 'CanCreateBank' },
+				timeToLiveSeconds: 86400
+			},
+			policy
+		);
+
+		expect(errors).toHaveLength(2);
+		expect(errors[1]).toContain('CanCreateBank');
+	});
+
+	it('enforces the superseding-role and view switches', () => {
+		const locked = { ...policy, allowSupersedingRoles: false, allowViewRestriction: false };
+
+		expect(
+			validateConsentRequest(
+				{
+					requiredRoles: ['CanCreateCustomer'],
+					roleChoices: { CanCreateCustomer: 'CanCreateCustomerAtAnyBank' },
+					views: [{ bank_id: 'gh.29.uk', account_id: 'acc-1', view_id: 'owner' }]
+				},
+				locked
+			)
+		).toHaveLength(2);
+	});
+});
+
+describe('consent durations', () => {
+	it('offers options within bounds, including the default', () => {
+		expect(consentDurationOptions(policy)).toEqual([900, 1800, 3600]);
+	});
+
+	it('formats durations for the card', () => {
+		expect(formatConsentDuration(900)).toBe('15 min');
+		expect(formatConsentDuration(3600)).toBe('1 hr');
+		expect(formatConsentDuration(4 * 3600)).toBe('4 hrs');
+		expect(formatConsentDuration(86400)).toBe('1 day');
+	});
+});
@@ -0,0 +1,130 @@
+import { ROLE_SUPERSEDED_BY, type RoleSupersession } from './roles';
+
+/**
+ * Admin-configured limits on the role-specific consents users can grant Opey.
+ * Shared by ConsentRequestCard, which offers choices within it, and the consent route,
+ * which rejects requests outside it.
+ */
+export interface ConsentPolicy {
+	minTimeToLiveSeconds: number;
+	maxTimeToLiveSeconds: number;
+	defaultTimeToLiveSeconds: number;
+	/** Durations offered in the picker; those outside the bounds are ignored */
+	durationOptionsSeconds: number[];
+	/** Whether users may grant a superseding (broader) role instead of the exact one */
+	allowSupersedingRoles: boolean;
+	/** Whether users may restrict a consent to particular account views */
+	allowViewRestriction: boolean;
+}
+
+/** An account view a consent is restricted to, in the shape OBP expects */
+export interface ConsentViewScope {
+	bank_id: string;
+	account_id: string;
+	view_id: string;
+}
+
+export interface ConsentScopeRequest {
+	/** Deduplicated roles Opey asked for */
+	requiredRoles: string[];
+	/** Role the user chose for a required role, when it differs from the default pick */
+	roleChoices?: Record<string, string>;
+	timeToLiveSeconds?: number;
+	views?: ConsentViewScope[];
+}
+
+export const DEFAULT_CONSENT_POLICY: ConsentPolicy = {
+	minTimeToLiveSeconds: 5 * 60,
+	maxTimeToLiveSeconds: 24 * 3600,
+	defaultTimeToLiveSeconds: 3600,
+	durationOptionsSeconds: [15 * 60, 3600, 4 * 3600, 24 * 3600],
+	allowSupersedingRoles: true,
+	allowViewRestriction: true
+};
+
+/** Durations to offer in the picker, always including the default. */
+export function consentDurationOptions(policy: ConsentPolicy): number[] {
+	const options = policy.durationOptionsSeconds.filter(
+		(seconds) => seconds >= policy.minTimeToLiveSeconds && seconds <= policy.maxTimeToLiveSeconds
+	);
+	if (!options.includes(policy.defaultTimeToLiveSeconds)) {
+		options.push(policy.defaultTimeToLiveSeconds);
+	}
+	return options.sort((a, b) => a - b);
+}
+
+/** Roles the user may pick for a required role under the policy, exact role first. */
+export function consentRoleOptions(
+	requiredRole: string,
+	policy: ConsentPolicy,
+	supersededBy: RoleSupersession = ROLE_SUPERSEDED_BY
+): string[] {
+	return policy.allowSupersedingRoles
+		? [requiredRole, ...(supersededBy[requiredRole] ?? [])]
+		: [requiredRole];
+}
+
+/**
+ * Check a consent request against the policy.
+ * Returns a list of problems; an empty list means the request is allowed.
+ */
+export function validateConsentRequest(
+	request: ConsentScopeRequest,
+	policy: ConsentPolicy,
+	supersededBy: RoleSupersession = ROLE_SUPERSEDED_BY
+): string[] {
+	const errors: string[] = [];
+
+	const ttl = request.timeToLiveSeconds;
+	if (ttl !== undefined) {
+		if (!Number.isInteger(ttl)) {
+			errors.push('time_to_live must be a whole number of seconds');
+		} else if (ttl < policy.minTimeToLiveSeconds || ttl > policy.maxTimeToLiveSeconds) {
+			errors.push(
+				`time_to_live must be between ${policy.minTimeToLiveSeconds} and ${policy.maxTimeToLiveSeconds} seconds`
+			);
+		}
+	}
+
+	for (const [requiredRole, chosen] of Object.entries(request.roleChoices ?? {})) {
+		if (!request.requiredRoles.includes(requiredRole)) {
+			errors.push(`${requiredRole} is not one of the required roles`);
+		} else if (!consentRoleOptions(requiredRole, policy, supersededBy).includes(chosen)) {
+			errors.push(`${chosen} cannot be granted in place of ${requiredRole}`);
+		}
+	}
+
+	if (request.views && request.views.length > 0) {
+		if (!policy.allowViewRestriction) {
+			errors.push('Restricting consents to views is not allowed');
+		}
+		for (const view of request.views) {
+			if (
+				typeof view?.bank_id !== 'string' ||
+				typeof view?.account_id !== 'string' ||
+				typeof view?.view_id !== 'string' ||
+				!view.bank_id ||
+				!view.account_id ||
+				!view.view_id
+			) {
+				errors.push('Each view needs a bank_id, account_id and view_id');
+				break;
+			}
+		}
+	}
+
+	return errors;
+}
+
+/** Human-readable duration for the consent card, e.g. "15 min", "1 hr", "1 day". */
+export function formatConsentDuration(seconds: number): string {
+	if (seconds % 86400 === 0) {
+		const days = seconds / 86400;
+		return `${days} ${days === 1 ? 'day' : 'days'}`;
+	}
+	if (seconds % 3600 === 0) {
+		const hours = seconds / 3600;
+		return `${hours} ${hours === 1 ? 'hr' : 'hrs'}`;
+	}
+	return `${Math.round(seconds / 60)} min`;
+}
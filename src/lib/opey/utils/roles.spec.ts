@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import {
+	deriveRoleSupersession,
+	deduplicateRoles,
+	pickConsentRole,
+	type OBPRoleInfo
+} from './roles';
+
+const catalogue: OBPRoleInfo[] = [
+	{ role: 'CanCreateAtm', requires_bank_id: true },
+	{ role: 'CanCreateAtmAtAnyBank', requires_bank_id: false },
+	{ role: 'CanGetCustomersAtOneBank', requires_bank_id: true },
+	{ role: 'CanGetCustomersAtAllBanks', requires_bank_id: false },
+	{ role: 'CanGetEntitlementsForOneBank', requires_bank_id: true },
+	{ role: 'CanGetEntitlementsForAnyBank', requires_bank_id: false },
+	{ role: 'CanCreateHistoricalTransactionAtBank', requires_bank_id: true },
+	{ role: 'CanCreateHistoricalTransaction', requires_bank_id: false },
+	{ role: 'CanCreateBranch', requires_bank_id: true },
+	{ role: 'CanCreateBank', requires_bank_id: false }
+];
+
+describe('deriveRoleSupersession', () => {
+	it('maps bank-scoped roles to their all-banks variants', () => {
+		expect(deriveRoleSupersession(catalogue)).toEqual({
+			CanCreateAtm: ['CanCreateAtmAtAnyBank'],
+			CanGetCustomersAtOneBank: ['CanGetCustomersAtAllBanks'],
+			CanGetEntitlementsForOneBank: ['CanGetEntitlementsForAnyBank'],
+			CanCreateHistoricalTransactionAtBank: ['CanCreateHistoricalTransaction']
+		});
+	});
+
+	it('feeds role picking and deduplication', () => {
+		const supersededBy = { CanCreateBranch: ['CanCreateBranchEverywhere'] };
+
+		expect(
+			pickConsentRole('CanCreateBranch', new Set(['CanCreateBranchEverywhere']), supersededBy)
+		).toBe('CanCreateBranchEverywhere');
+		expect(
+			deduplicateRoles(['CanCreateBranch', 'CanCreateBranchEverywhere'], supersededBy)
+		).toEqual(['CanCreateBranchEverywhere']);
+	});
+});
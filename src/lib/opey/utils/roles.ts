@@ -1,13 +1,25 @@
 /**
- * OBP role superseding map.
+ * Role superseding map.
  * Key   = role that OBP may report as "required"
  * Value = roles that are ALSO sufficient (broader grants)
+ */
+export type RoleSupersession = Record<string, string[]>;
+
+/** A role as listed by OBP's roles endpoint */
+export interface OBPRoleInfo {
+	role: string;
+	requires_bank_id: boolean;
+}
+
+/**
+ * Static OBP role superseding map, used when the role catalogue can't be
+ * loaded from OBP (see getRoleCatalogue in server/obp).
  *
  * Source: full role list from OBP, confirmed 2026-02-17.
  * Rule:   a role with requires_bank_id=false supersedes the
  *         corresponding requires_bank_id=true variant.
  */
-export const ROLE_SUPERSEDED_BY: Record<string, string[]> = {
+export const ROLE_SUPERSEDED_BY: RoleSupersession = {
 	// AddUserToGroup
 	CanAddUserToGroupAtOneBank: ['CanAddUserToGroupAtAllBanks'],
 	// ATM
@@ -93,14 +105,51 @@ export interface RoleRequirement {
 	alternatives: string[];
 }
 
+/**
+ * Derive the superseding map from OBP's full role list.
+ *
+ * A bank-scoped role is superseded by the role without requires_bank_id whose name
+ * swaps the bank qualifier for an all-banks one, e.g.
+ *   CanCreateAtm                     → CanCreateAtmAtAnyBank
+ *   CanGetCustomersAtOneBank         → CanGetCustomersAtAllBanks
+ *   CanGetEntitlementsForOneBank     → CanGetEntitlementsForAnyBank
+ *   CanCreateHistoricalTransactionAtBank → CanCreateHistoricalTransaction
+ */
+export function deriveRoleSupersession(roles: OBPRoleInfo[]): RoleSupersession {
+	const systemRoles = new Set(roles.filter((r) => !r.requires_bank_id).map((r) => r.role));
+	const supersededBy: RoleSupersession = {};
+
+	for (const { role, requires_bank_id } of roles) {
+		if (!requires_bank_id) continue;
+
+		const candidates = [`${role}AtAnyBank`, `${role}AtAllBanks`];
+		if (role.includes('OneBank')) {
+			candidates.push(role.replace('OneBank', 'AnyBank'), role.replace('OneBank', 'AllBanks'));
+		}
+		if (role.endsWith('AtBank')) {
+			candidates.push(role.slice(0, -'AtBank'.length));
+		}
+
+		const broader = [...new Set(candidates)].filter((c) => systemRoles.has(c));
+		if (broader.length > 0) {
+			supersededBy[role] = broader;
+		}
+	}
+
+	return supersededBy;
+}
+
 /**
  * Enrich a required_roles list with the alternative (broader) roles that
  * would also satisfy each requirement.
  */
-export function expandRoleRequirements(requiredRoles: string[]): RoleRequirement[] {
+export function expandRoleRequirements(
+	requiredRoles: string[],
+	supersededBy: RoleSupersession = ROLE_SUPERSEDED_BY
+): RoleRequirement[] {
 	return requiredRoles.map((role) => ({
 		role,
-		alternatives: ROLE_SUPERSEDED_BY[role] ?? []
+		alternatives: supersededBy[role] ?? []
 	}));
 }
 
@@ -113,9 +162,13 @@ export function expandRoleRequirements(requiredRoles: string[]): RoleRequirement
  *   2. The first superseding role the user holds
  *   3. null — user holds neither; consent JWT cannot be created
  */
-export function pickConsentRole(requiredRole: string, userRoles: Set<string>): string | null {
+export function pickConsentRole(
+	requiredRole: string,
+	userRoles: Set<string>,
+	supersededBy: RoleSupersession = ROLE_SUPERSEDED_BY
+): string | null {
 	if (userRoles.has(requiredRole)) return requiredRole;
-	for (const alt of ROLE_SUPERSEDED_BY[requiredRole] ?? []) {
+	for (const alt of supersededBy[requiredRole] ?? []) {
 		if (userRoles.has(alt)) return alt;
 	}
 	return null;
@@ -128,10 +181,13 @@ export function pickConsentRole(requiredRole: string, userRoles: Set<string>): s
  * Example: ["CanCreateEntitlementAtOneBank", "CanCreateEntitlementAtAnyBank"]
  *   → ["CanCreateEntitlementAtAnyBank"]
  */
-export function deduplicateRoles(roles: string[]): string[] {
+export function deduplicateRoles(
+	roles: string[],
+	supersededBy: RoleSupersession = ROLE_SUPERSEDED_BY
+): string[] {
 	const roleSet = new Set(roles);
 	return roles.filter((role) => {
-		const supersedersPresent = (ROLE_SUPERSEDED_BY[role] ?? []).some((s) => roleSet.has(s));
+		const supersedersPresent = (supersededBy[role] ?? []).some((s) => roleSet.has(s));
 		return !supersedersPresent;
 	});
 }
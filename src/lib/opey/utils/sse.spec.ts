@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { SSEDecoder, readSSE } from './sse';
+
+describe('SSEDecoder', () => {
+	it('decodes a simple data event', () => {
+		const decoder = new SSEDecoder();
+		expect(decoder.decode('data: hello\n\n')).toEqual([
+			{ type: 'message', data: 'hello', lastEventId: '' }
+		]);
+	});
+
+	it('joins multi-line data with newlines', () => {
+		const decoder = new SSEDecoder();
+		const [event] = decoder.decode('data: first\ndata:second\ndata\n\n');
+		expect(event.data).toBe('first\nsecond\n');
+	});
+
+	it('handles CR, LF and CRLF line endings, including CRLF split across chunks', () => {
+		const decoder = new SSEDecoder();
+		const events = [
+			...decoder.decode('data: a\r\n\r'),
+			...decoder.decode('\ndata: b\r\rdata: c\n\n')
+		];
+		expect(events.map((e) => e.data)).toEqual(['a', 'b', 'c']);
+	});
+
+	it('buffers partial lines until they are complete', () => {
+		const decoder = new SSEDecoder();
+		expect(decoder.decode('da')).toEqual([]);
+		expect(decoder.decode('ta: {"x":')).toEqual([]);
+		expect(decoder.decode('1}\n\n')[0].data).toBe('{"x":1}');
+	});
+
+	it('ignores comments and unknown fields, and only strips one leading space', () => {
+		const decoder = new SSEDecoder();
+		const [event] = decoder.decode(': keep-alive\nfoo: bar\ndata:  spaced\n\n');
+		expect(event.data).toBe(' spaced');
+	});
+
+	it('uses named event types and resets them after each event', () => {
+		const decoder = new SSEDecoder();
+		const events = decoder.decode('event: tool_start\ndata: 1\n\ndata: 2\n\n');
+		expect(events.map((e) => e.type)).toEqual(['tool_start', 'message']);
+	});
+
+	it('keeps the last event ID across events and ignores IDs containing NULL', () => {
+		const decoder = new SSEDecoder();
+		const events = decoder.decode('id: 7\ndata: a\n\ndata: b\n\nid: x\0y\ndata: c\n\n');
+		expect(events.map((e) => e.lastEventId)).toEqual(['7', '7', '7']);
+	});
+
+	it('reports valid retry hints only', () => {
+		const hints: number[] = [];
+		const decoder = new SSEDecoder({ onRetry: (ms) => hints.push(ms) });
+		decoder.decode('retry: 3000\nretry: soon\nretry: 1.5\n\n');
+		expect(hints).toEqual([3000]);
+		expect(decoder.retry).toBe(3000);
+	});
+
+	it('does not dispatch events without data', () => {
+		const decoder = new SSEDecoder();
+		expect(decoder.decode('event: ping\n\nid: 1\n\n')).toEqual([]);
+	});
+
+	it('strips a leading byte order mark', () => {
+		const decoder = new SSEDecoder();
+		expect(decoder.decode('\uFEFFdata: x\n\n')[0].data).toBe('x');
+	});
+});
+
+describe('readSSE', () => {
+	it('yields events from a byte stream and discards an unterminated final event', async () => {
+		const encoder = new TextEncoder();
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(encoder.encode('data: one\n\ndata: t'));
+				controller.enqueue(encoder.encode('wo\n\ndata: incomplete'));
+				controller.close();
+			}
+		});
+
+		const data: string[] = [];
+		for await (const event of readSSE(body.getReader())) {
+			data.push(event.data);
+		}
+		expect(data).toEqual(['one', 'two']);
+	});
+});
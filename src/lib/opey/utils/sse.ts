@@ -0,0 +1,183 @@
+/**
+ * Server-Sent Events decoder following the WHATWG event-stream grammar:
+ * https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ *
+ * Handles CR, LF and CRLF line endings (including CRLF split across chunks),
+ * comments, multi-line `data`, named events, sticky `id` and `retry` hints.
+ */
+
+export interface SSEEvent {
+	/** Event type from the `event:` field, 'message' if none was given. */
+	type: string;
+	/** Concatenated `data:` lines, joined with '\n'. */
+	data: string;
+	/** Last event ID seen on the stream (persists across events, as in the spec). */
+	lastEventId: string;
+}
+
+export interface SSEDecoderOptions {
+	/** Called when the stream sends a valid `retry:` reconnection time, in milliseconds. */
+	onRetry?: (retryMs: number) => void;
+}
+
+export class SSEDecoder {
+	/** Latest reconnection time hint from a `retry:` field, in milliseconds. */
+	retry?: number;
+	lastEventId = '';
+
+	private buffer = '';
+	private data = '';
+	private hasData = false;
+	private eventType = '';
+	private isFirstChunk = true;
+	private pendingCR = false;
+
+	constructor(private options: SSEDecoderOptions = {}) {}
+
+	/**
+	 * Feed decoded text into the parser. Returns the events completed by this chunk.
+	 */
+	decode(chunk: string): SSEEvent[] {
+		if (this.isFirstChunk && chunk.length > 0) {
+			// A leading byte order mark is not part of the stream
+			if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1);
+			this.isFirstChunk = false;
+		}
+
+		// A CR at the end of the previous chunk may be the first half of a CRLF
+		if (this.pendingCR) {
+			this.pendingCR = false;
+			if (chunk.startsWith('\n')) chunk = chunk.slice(1);
+		}
+
+		this.buffer += chunk;
+		const events: SSEEvent[] = [];
+
+		let start = 0;
+		for (let i = 0; i < this.buffer.length; i++) {
+			const char = this.buffer[i];
+			if (char !== '\r' && char !== '\n') continue;
+
+			const event = this.processLine(this.buffer.slice(start, i));
+			if (event) events.push(event);
+
+			if (char === '\r') {
+				if (i + 1 === this.buffer.length) {
+					this.pendingCR = true;
+				} else if (this.buffer[i + 1] === '\n') {
+					i++;
+				}
+			}
+			start = i + 1;
+		}
+
+		this.buffer = this.buffer.slice(start);
+		return events;
+	}
+
+	/**
+	 * Signal the end of the stream. Per the spec, an event that was not terminated
+	 * by a blank line is discarded, so this never returns events - it only resets state.
+	 */
+	end(): void {
+		this.buffer = '';
+		this.resetEvent();
+		this.pendingCR = false;
+	}
+
+	private processLine(line: string): SSEEvent | null {
+		if (line === '') {
+			return this.dispatch();
+		}
+
+		// Comment
+		if (line.startsWith(':')) {
+			return null;
+		}
+
+		const colon = line.indexOf(':');
+		let field: string;
+		let value: string;
+		if (colon === -1) {
+			field = line;
+			value = '';
+		} else {
+			field = line.slice(0, colon);
+			value = line.slice(colon + 1);
+			if (value.startsWith(' ')) value = value.slice(1);
+		}
+
+		switch (field) {
+			case 'event':
+				this.eventType = value;
+				break;
+			case 'data':
+				this.data += value + '\n';
+				this.hasData = true;
+				break;
+			case 'id':
+				if (!value.includes('\0')) this.lastEventId = value;
+				break;
+			case 'retry':
+				if (/^\d+$/.test(value)) {
+					this.retry = parseInt(value, 10);
+					this.options.onRetry?.(this.retry);
+				}
+				break;
+			default:
+				// Unknown fields are ignored
+				break;
+		}
+		return null;
+	}
+
+	private dispatch(): SSEEvent | null {
+		if (!this.hasData) {
+			this.resetEvent();
+			return null;
+		}
+
+		const event: SSEEvent = {
+			type: this.eventType || 'message',
+			data: this.data.endsWith('\n') ? this.data.slice(0, -1) : this.data,
+			lastEventId: this.lastEventId
+		};
+		this.resetEvent();
+		return event;
+	}
+
+	private resetEvent(): void {
+		this.data = '';
+		this.hasData = false;
+		this.eventType = '';
+	}
+}
+
+/**
+ * Read a byte stream as Server-Sent Events.
+ * Releases the reader lock when iteration finishes or is stopped early.
+ *
+ * @example
+ * for await (const event of readSSE(res.body!.getReader())) {
+ *     if (event.data === '[DONE]') break;
+ *     handle(JSON.parse(event.data));
+ * }
+ */
+export async function* readSSE(
+	reader: ReadableStreamDefaultReader<Uint8Array>,
+	decoder: SSEDecoder = new SSEDecoder()
+): AsyncGenerator<SSEEvent> {
+	const textDecoder = new TextDecoder();
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			yield* decoder.decode(textDecoder.decode(value, { stream: true }));
+		}
+		yield* decoder.decode(textDecoder.decode());
+		decoder.end();
+	} finally {
+		reader.releaseLock();
+	}
+}
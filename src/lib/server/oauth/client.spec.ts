@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import { OAuth2ClientWithConfig } from './client';
+import { OIDCTokenVerifier } from './tokenVerifier';
+import { createSigningKey, type TestSigningKey } from '../testing/signingKey';
+import type { OAuth2ClientOptions, OpenIdConnectConfiguration } from './types';
+
+const config = {
+	issuer: 'https://idp.example.com',
+	jwks_uri: 'https://idp.example.com/jwks',
+	id_token_signing_alg_values_supported: ['RS256']
+} as OpenIdConnectConfiguration;
+
+describe('OAuth2ClientWithConfig.accessTokenExpiresAt', () => {
+	let key: TestSigningKey;
+	const exp = Math.floor(Date.now() / 1000) + 300;
+
+	beforeAll(async () => {
+		key = await createSigningKey();
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	function client(options: OAuth2ClientOptions = {}) {
+		const client = new OAuth2ClientWithConfig(
+			'portal',
+			'secret',
+			'http://portal/cb',
+			'idp',
+			options
+		);
+		client.OIDCConfig = config;
+		client.tokenVerifier = new OIDCTokenVerifier(config, 'portal');
+		return client;
+	}
+
+	it('reads exp unverified for providers without accessTokenVerification', async () => {
+		const fetchMock = vi.fn(async () => Response.json({ keys: [key.jwk] }));
+		vi.stubGlobal('fetch', fetchMock);
+		const expired = Math.floor(Date.now() / 1000) - 60;
+		const accessToken = await key.sign({
+			iss: 'https://api.example.com',
+			aud: 'obp',
+			exp: expired
+		});
+
+		expect(await client().accessTokenExpiresAt(accessToken)).toBe(expired * 1000);
+		expect(await client().checkAccessTokenExpiration(accessToken)).toBe(true);
+		expect(await client().accessTokenExpiresAt('opaque-token')).toBeUndefined();
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it('reads the verified exp for providers with accessTokenVerification', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => Response.json({ keys: [key.jwk] }))
+		);
+		const verifying = client({ accessTokenVerification: { audience: 'obp' } });
+
+		expect(
+			await verifying.accessTokenExpiresAt(await key.sign({ iss: config.issuer, aud: 'obp', exp }))
+		).toBe(exp * 1000);
+		await expect(
+			verifying.accessTokenExpiresAt(await key.sign({ iss: config.issuer, aud: 'other', exp }))
+		).rejects.toThrow('audience');
+	});
+});
+
+describe('OAuth2ClientWithConfig.mapClaims', () => {
+	it('reads the identity through the claim mapping, defaulting to standard claims', () => {
+		const claims = { sub: 's-1', oid: 'o-1', email: 'a@example.com', preferred_username: 'alice' };
+		const mapped = new OAuth2ClientWithConfig('portal', '', 'http://portal/cb', 'azure-ad', {
+			claimMapping: { userId: 'oid' }
+		});
+
+		expect(mapped.mapClaims(claims)).toEqual({
+			userId: 'o-1',
+			email: 'a@example.com',
+			username: 'alice',
+			name: undefined
+		});
+		expect(
+			new OAuth2ClientWithConfig('portal', '', 'http://portal/cb').mapClaims(claims).userId
+		).toBe('s-1');
+	});
+});
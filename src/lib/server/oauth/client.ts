@@ -1,11 +1,28 @@
 import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('OAuth2Client');
-import { OAuth2Client } from 'arctic';
-import type { OpenIdConnectConfiguration, OAuth2AccessTokenPayload } from './types';
+import { OAuth2Client, OAuth2Tokens } from 'arctic';
+import type {
+	AccessTokenVerification,
+	OpenIdConnectConfiguration,
+	OAuth2AccessTokenPayload,
+	OAuth2ClientOptions,
+	OIDCClaimMapping,
+	OIDCUserClaims,
+	TokenEndpointAuthMethod
+} from './types';
 import { jwtDecode } from 'jwt-decode';
+import { OIDCTokenVerifier, JWKSUnavailableError } from './tokenVerifier';
+
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
 
 export class OAuth2ClientWithConfig extends OAuth2Client {
 	OIDCConfig?: OpenIdConnectConfiguration;
+	tokenVerifier?: OIDCTokenVerifier;
+	readonly scopes: string[];
+	readonly authorizationParams: Record<string, string>;
+	private readonly tokenEndpointAuthMethod?: TokenEndpointAuthMethod;
+	private readonly claimMapping: OIDCClaimMapping;
+	private readonly accessTokenVerification?: AccessTokenVerification;
 	private readonly storedClientId: string;
 	private readonly storedClientSecret: string;
 	private readonly storedRedirectURI: string;
@@ -15,7 +32,8 @@ export class OAuth2ClientWithConfig extends OAuth2Client {
 		clientId: string,
 		clientSecret: string,
 		redirectUri: string,
-		providerType: string = 'default'
+		providerType: string = 'default',
+		options: OAuth2ClientOptions = {}
 	) {
 		super(clientId, clientSecret, redirectUri);
 
@@ -24,6 +42,11 @@ export class OAuth2ClientWithConfig extends OAuth2Client {
 		this.storedClientSecret = clientSecret;
 		this.storedRedirectURI = redirectUri;
 		this.providerType = providerType;
+		this.scopes = options.scopes ?? DEFAULT_SCOPES;
+		this.authorizationParams = options.authorizationParams ?? {};
+		this.tokenEndpointAuthMethod = options.tokenEndpointAuthMethod;
+		this.claimMapping = options.claimMapping ?? {};
+		this.accessTokenVerification = options.accessTokenVerification;
 	}
 
 	async initOIDCConfig(OIDCConfigUrl: string): Promise<void> {
@@ -52,38 +75,148 @@ export class OAuth2ClientWithConfig extends OAuth2Client {
 
 		// Assign after validation
 		this.OIDCConfig = config as OpenIdConnectConfiguration;
+		this.tokenVerifier = new OIDCTokenVerifier(this.OIDCConfig, this.storedClientId);
 		logger.info('OIDC config initialization success.');
 		logger.debug(`Configured authorization endpoint: ${this.OIDCConfig.authorization_endpoint}`);
 		logger.debug(`Configured token endpoint: ${this.OIDCConfig.token_endpoint}`);
 	}
 
-	async checkAccessTokenExpiration(accessToken: string): Promise<boolean> {
-		// Returns true if the access token is expired, false if it is valid
-		logger.debug('Checking access token expiration...');
+	/**
+	 * Verify an ID token against the provider's JWKS and this client's ID.
+	 * Throws TokenVerificationError when it doesn't check out.
+	 */
+	async verifyIdToken(idToken: string, nonce?: string): Promise<OAuth2AccessTokenPayload> {
+		if (!this.tokenVerifier) {
+			throw new Error('OIDC configuration not initialized; cannot verify ID token.');
+		}
+		return this.tokenVerifier.verifyIdToken(idToken, nonce);
+	}
+
+	/**
+	 * Verify a back-channel logout token from the provider.
+	 * Throws TokenVerificationError when it doesn't check out.
+	 */
+	async verifyLogoutToken(logoutToken: string): Promise<OAuth2AccessTokenPayload> {
+		if (!this.tokenVerifier) {
+			throw new Error('OIDC configuration not initialized; cannot verify logout token.');
+		}
+		return this.tokenVerifier.verifyLogoutToken(logoutToken);
+	}
+
+	/**
+	 * URL ending the user's session at the provider (OIDC RP-Initiated Logout), or
+	 * null when the provider has no end_session_endpoint. The provider sends the
+	 * browser back to `postLogoutRedirectUri`, which must be registered with it.
+	 */
+	createEndSessionURL(idTokenHint?: string, postLogoutRedirectUri?: string): URL | null {
+		const endpoint = this.OIDCConfig?.end_session_endpoint;
+		if (!endpoint) return null;
+
+		const url = new URL(endpoint);
+		if (idTokenHint) url.searchParams.set('id_token_hint', idTokenHint);
+		if (postLogoutRedirectUri) {
+			url.searchParams.set('post_logout_redirect_uri', postLogoutRedirectUri);
+		}
+		url.searchParams.set('client_id', this.storedClientId);
+		return url;
+	}
+
+	/**
+	 * The access token's claims, signature-checked against the provider's JWKS when the
+	 * provider has accessTokenVerification. Throws TokenVerificationError for a forged or
+	 * foreign token; if the JWKS can't be fetched, falls back to the unverified claims so
+	 * an identity provider outage doesn't end every session.
+	 */
+	private async accessTokenClaims(accessToken: string): Promise<OAuth2AccessTokenPayload> {
+		const verification = this.accessTokenVerification;
+		if (verification && this.tokenVerifier) {
+			try {
+				return await this.tokenVerifier.verifyAccessToken(accessToken, verification);
+			} catch (error) {
+				if (!(error instanceof JWKSUnavailableError)) throw error;
+				logger.warn('JWKS unavailable, checking access token claims unverified:', error.message);
+			}
+		}
+		return jwtDecode(accessToken) as OAuth2AccessTokenPayload;
+	}
+
+	/**
+	 * When the access token expires (epoch ms), from its exp claim: verified for providers
+	 * with accessTokenVerification, decoded otherwise. Undefined for opaque tokens and
+	 * tokens without exp. Throws TokenVerificationError like checkAccessTokenExpiration.
+	 */
+	async accessTokenExpiresAt(accessToken: string): Promise<number | undefined> {
+		if (accessToken.split('.').length !== 3) {
+			// Opaque token (e.g. Google's): nothing to check locally, OBP rejects it once expired
+			logger.debug('Access token is opaque; no local expiry.');
+			return undefined;
+		}
 		try {
-			const payload = jwtDecode(accessToken) as OAuth2AccessTokenPayload;
+			const payload = await this.accessTokenClaims(accessToken);
 			if (!payload || !payload.exp) {
 				logger.warn('Access token payload is invalid or missing expiration.');
-				return false;
+				return undefined;
 			}
-			const isExpired = Date.now() >= payload.exp * 1000;
-			logger.debug(`Access token is ${isExpired ? 'expired' : 'valid'}.`);
-			return isExpired;
+			return payload.exp * 1000;
 		} catch (error) {
-			logger.error('Error decoding access token:', error);
+			logger.error('Error verifying access token:', error);
 			throw error;
 		}
 	}
 
+	async checkAccessTokenExpiration(accessToken: string): Promise<boolean> {
+		// Returns true if the access token is expired, false if it is valid
+		logger.debug('Checking access token expiration...');
+		const expiresAt = await this.accessTokenExpiresAt(accessToken);
+		if (expiresAt === undefined) {
+			return false;
+		}
+		const isExpired = Date.now() >= expiresAt;
+		logger.debug(`Access token is ${isExpired ? 'expired' : 'valid'}.`);
+		return isExpired;
+	}
+
+	/**
+	 * The user's identity from verified ID token claims, read through the provider's
+	 * claim mapping (standard OIDC claim names by default).
+	 */
+	mapClaims(claims: Record<string, any>): OIDCUserClaims {
+		const read = (claim: string) =>
+			typeof claims[claim] === 'string' ? (claims[claim] as string) : undefined;
+		return {
+			userId: read(this.claimMapping.userId ?? 'sub'),
+			email: read(this.claimMapping.email ?? 'email'),
+			username: read(this.claimMapping.username ?? 'preferred_username'),
+			name: read(this.claimMapping.name ?? 'name')
+		};
+	}
+
+	/**
+	 * Whether logins should use PKCE (S256): when the provider advertises it in
+	 * code_challenge_methods_supported, and always for public clients.
+	 */
+	supportsPKCE(): boolean {
+		const methods = this.OIDCConfig?.code_challenge_methods_supported;
+		return !!methods?.includes('S256') || !this.storedClientSecret;
+	}
+
 	createAuthorizationURL(authEndpoint: string, state: string, scopes: string[]): URL {
 		return super.createAuthorizationURL(authEndpoint, state, scopes);
 	}
 
+	/** Add the provider's configured extra parameters to an authorization URL */
+	applyAuthorizationParams(url: URL): URL {
+		for (const [name, value] of Object.entries(this.authorizationParams)) {
+			url.searchParams.set(name, value);
+		}
+		return url;
+	}
+
 	async validateAuthorizationCode(
 		tokenEndpoint: string,
 		code: string,
 		codeVerifier: string | null
-	): Promise<any> {
+	): Promise<OAuth2Tokens> {
 		// Use a unified modern flow for all providers with built-in fallback
 		// This ensures consistent behavior across providers (Keycloak and OBP-OIDC)
 		return this.validateAuthorizationCodeModern(tokenEndpoint, code, codeVerifier);
@@ -93,7 +226,7 @@ export class OAuth2ClientWithConfig extends OAuth2Client {
 		tokenEndpoint: string,
 		code: string,
 		codeVerifier: string | null
-	): Promise<any> {
+	): Promise<OAuth2Tokens> {
 		logger.debug('Validating authorization code with legacy method (OBP-OIDC)');
 
 		const body = new URLSearchParams();
@@ -130,20 +263,15 @@ export class OAuth2ClientWithConfig extends OAuth2Client {
 		const tokens = await response.json();
 		logger.debug('Token response received successfully');
 
-		return {
-			accessToken: () => tokens.access_token,
-			refreshToken: () => tokens.refresh_token,
-			accessTokenExpiresAt: () =>
-				tokens.expires_in ? new Date(Date.now() + tokens.expires_in * 1000) : null
-		};
+		return new OAuth2Tokens(tokens);
 	}
 
 	private async validateAuthorizationCodeModern(
 		tokenEndpoint: string,
 		code: string,
 		codeVerifier: string | null
-	): Promise<any> {
-		logger.debug('Validating authorization code with modern method (KeyCloak)');
+	): Promise<OAuth2Tokens> {
+		logger.debug(`Validating authorization code for ${this.providerType}`);
 
 		const body = new URLSearchParams();
 		body.set('grant_type', 'authorization_code');
@@ -156,8 +284,15 @@ export class OAuth2ClientWithConfig extends OAuth2Client {
 			Accept: 'application/json'
 		};
 
-		// Use HTTP Basic Authentication for client credentials (RFC 6749 Section 2.3.1)
-		if (this.storedClientSecret) {
+		const authMethod =
+			this.tokenEndpointAuthMethod ?? (this.storedClientSecret ? 'client_secret_basic' : 'none');
+
+		if (authMethod === 'client_secret_post') {
+			body.set('client_id', this.storedClientId);
+			body.set('client_secret', this.storedClientSecret);
+			logger.debug('Using client credentials in request body (client_secret_post)');
+		} else if (authMethod === 'client_secret_basic' && this.storedClientSecret) {
+			// Use HTTP Basic Authentication for client credentials (RFC 6749 Section 2.3.1)
 			const credentials = Buffer.from(`${this.storedClientId}:${this.storedClientSecret}`).toString(
 				'base64'
 			);
@@ -185,8 +320,14 @@ export class OAuth2ClientWithConfig extends OAuth2Client {
 			const errorData = await response.json().catch(() => ({}));
 			logger.error(`Token endpoint error - Status: ${response.status}, Data:`, errorData);
 
-			// If Basic Auth failed and we have a client secret, try with credentials in body as fallback
-			if (response.status === 401 && this.storedClientSecret && !body.has('client_id')) {
+			// If Basic Auth failed and we have a client secret, try with credentials in body as fallback,
+			// unless the provider was configured with an explicit auth method
+			if (
+				response.status === 401 &&
+				!this.tokenEndpointAuthMethod &&
+				this.storedClientSecret &&
+				!body.has('client_id')
+			) {
 				logger.warn('Basic Auth failed, retrying with credentials in request body');
 
 				// Add client credentials to body for retry
@@ -216,12 +357,7 @@ export class OAuth2ClientWithConfig extends OAuth2Client {
 				const retryTokens = await retryResponse.json();
 				logger.debug('Token response received successfully after retry');
 
-				return {
-					accessToken: () => retryTokens.access_token,
-					refreshToken: () => retryTokens.refresh_token,
-					accessTokenExpiresAt: () =>
-						retryTokens.expires_in ? new Date(Date.now() + retryTokens.expires_in * 1000) : null
-				};
+				return new OAuth2Tokens(retryTokens);
 			}
 
 			throw new Error(`Token request failed: ${response.status} ${response.statusText}`);
@@ -230,11 +366,6 @@ export class OAuth2ClientWithConfig extends OAuth2Client {
 		const tokens = await response.json();
 		logger.debug('Token response received successfully');
 
-		return {
-			accessToken: () => tokens.access_token,
-			refreshToken: () => tokens.refresh_token,
-			accessTokenExpiresAt: () =>
-				tokens.expires_in ? new Date(Date.now() + tokens.expires_in * 1000) : null
-		};
+		return new OAuth2Tokens(tokens);
 	}
 }
@@ -1,12 +1,47 @@
 export { OAuth2ClientWithConfig } from './client.js';
+export { OIDCTokenVerifier, TokenVerificationError, JWKSUnavailableError } from './tokenVerifier.js';
+export type { TokenVerifierOptions } from './tokenVerifier.js';
 export {
 	OAuth2ProviderFactory,
+	GenericOIDCStrategy,
 	KeyCloakStrategy,
 	OBPOIDCStrategy
 } from './providerFactory.js';
-export type { WellKnownUri, OAuthProviderConfig } from './providerFactory.js';
+export type {
+	WellKnownUri,
+	OAuthProviderConfig,
+	OIDCProviderDescriptor
+} from './providerFactory.js';
+export {
+	googleProvider,
+	azureADProvider,
+	auth0Provider,
+	oidcStrategiesFromConfig
+} from './oidcProviders.js';
+export type {
+	OIDCPresetName,
+	OIDCProviderConfigEntry,
+	OIDCProvidersConfigOptions
+} from './oidcProviders.js';
 export { OAuth2ProviderManager } from './providerManager.js';
 export type { ProviderStatus } from './providerManager.js';
-export { SessionOAuthHelper } from './sessionHelper.js';
-export type { SessionOAuthData } from './sessionHelper.js';
-export type { OpenIdConnectConfiguration, OAuth2AccessTokenPayload } from './types.js';
+export { SessionOAuthHelper, RefreshTokenRejectedError } from './sessionHelper.js';
+export type { SessionOAuthData, SessionOAuthHelperOptions } from './sessionHelper.js';
+export {
+	InProcessRefreshLock,
+	RedisRefreshLock,
+	RefreshLockTimeoutError
+} from './refreshLock.js';
+export type { RefreshLock, RedisRefreshLockOptions } from './refreshLock.js';
+export { RedisOIDCSessionIndex } from './sessionIndex.js';
+export type { OIDCSessionRef, OIDCSessionIndexOptions } from './sessionIndex.js';
+export { originCheckHandle } from './originCheck.js';
+export type {
+	AccessTokenVerification,
+	OpenIdConnectConfiguration,
+	OAuth2AccessTokenPayload,
+	OAuth2ClientOptions,
+	OIDCClaimMapping,
+	OIDCUserClaims,
+	TokenEndpointAuthMethod
+} from './types.js';
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+	auth0Provider,
+	azureADProvider,
+	googleProvider,
+	oidcStrategiesFromConfig
+} from './oidcProviders';
+
+const credentials = { clientId: 'id', clientSecret: 'secret', callbackUrl: 'http://portal/cb' };
+const options = {
+	env: { GOOGLE_CLIENT_ID: 'google-id', GOOGLE_CLIENT_SECRET: 'google-secret' },
+	defaultCallbackUrl: (provider: string) => `http://portal/login/${provider}/callback`
+};
+
+describe('OIDC provider presets', () => {
+	it('asks Google for offline access and reads the username from the email', () => {
+		const google = googleProvider(credentials);
+
+		expect(google).toMatchObject({
+			provider: 'google',
+			wellKnownUrl: 'https://accounts.google.com/.well-known/openid-configuration',
+			tokenEndpointAuthMethod: 'client_secret_post',
+			authorizationParams: { access_type: 'offline', prompt: 'consent' },
+			claimMapping: { username: 'email' }
+		});
+		expect(googleProvider({ ...credentials, scopes: ['openid'] }).scopes).toEqual(['openid']);
+	});
+
+	it('needs a specific Azure AD tenant', () => {
+		expect(azureADProvider({ ...credentials, tenant: 'contoso.onmicrosoft.com' })).toMatchObject({
+			provider: 'azure-ad',
+			wellKnownUrl:
+				'https://login.microsoftonline.com/contoso.onmicrosoft.com/v2.0/.well-known/openid-configuration',
+			claimMapping: { userId: 'oid' }
+		});
+		for (const tenant of ['', 'common', 'organizations', 'consumers']) {
+			expect(() => azureADProvider({ ...credentials, tenant })).toThrow('specific tenant');
+		}
+	});
+
+	it('requests and verifies Auth0 access tokens for the API audience', () => {
+		const auth0 = auth0Provider({
+			...credentials,
+			domain: 'https://tenant.eu.auth0.com/',
+			audience: 'https://obp.example.com',
+			authorizationParams: { prompt: 'login' }
+		});
+
+		expect(auth0.wellKnownUrl).toBe('https://tenant.eu.auth0.com/.well-known/openid-configuration');
+		expect(auth0.authorizationParams).toEqual({
+			audience: 'https://obp.example.com',
+			prompt: 'login'
+		});
+		expect(auth0.accessTokenVerification).toEqual({ audience: 'https://obp.example.com' });
+		expect(auth0Provider({ ...credentials, domain: 'tenant.eu.auth0.com' })).not.toHaveProperty(
+			'accessTokenVerification'
+		);
+	});
+});
+
+describe('oidcStrategiesFromConfig', () => {
+	it('builds strategies from presets and plain descriptors', () => {
+		const strategies = oidcStrategiesFromConfig(
+			JSON.stringify([
+				{
+					preset: 'google',
+					clientIdEnv: 'GOOGLE_CLIENT_ID',
+					clientSecretEnv: 'GOOGLE_CLIENT_SECRET'
+				},
+				{ provider: 'corporate', clientId: 'corp', wellKnownUrl: 'https://sso.example.com/.wk' }
+			]),
+			options
+		);
+
+		expect(strategies.map((strategy) => [strategy.providerName, strategy.wellKnownUrl])).toEqual([
+			['google', 'https://accounts.google.com/.well-known/openid-configuration'],
+			['corporate', 'https://sso.example.com/.wk']
+		]);
+	});
+
+	it.each([
+		['not JSON', '{', 'not valid JSON'],
+		['not an array', '{}', 'must be a JSON array'],
+		['without a client ID', '[{"preset":"google"}]', 'has no clientId'],
+		[
+			'with an unknown preset',
+			'[{"preset":"okta","clientId":"x"}]',
+			'Unknown OIDC provider preset'
+		],
+		[
+			'with a provider twice',
+			'[{"provider":"a","clientId":"x"},{"provider":"a","clientId":"y"}]',
+			'configured more than once'
+		]
+	])('rejects config %s', (_, json, message) => {
+		expect(() => oidcStrategiesFromConfig(json, options)).toThrow(message);
+	});
+});
@@ -0,0 +1,159 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('OIDCProviders');
+import {
+	GenericOIDCStrategy,
+	type OIDCProviderDescriptor,
+	type OAuthProviderConfig
+} from './providerFactory';
+
+export type OIDCPresetName = 'google' | 'azure-ad' | 'auth0';
+
+type PresetConfig = OAuthProviderConfig & Partial<OIDCProviderDescriptor>;
+
+export function googleProvider(config: PresetConfig): OIDCProviderDescriptor {
+	return {
+		provider: 'google',
+		wellKnownUrl: 'https://accounts.google.com/.well-known/openid-configuration',
+		scopes: ['openid', 'email', 'profile'],
+		tokenEndpointAuthMethod: 'client_secret_post',
+		// Google only returns a refresh token with offline access
+		authorizationParams: { access_type: 'offline', prompt: 'consent' },
+		claimMapping: { username: 'email' },
+		...config
+	};
+}
+
+/**
+ * Microsoft Entra ID (Azure AD) v2.0. Needs a tenant ID or domain: the multi-tenant
+ * endpoints (common, organizations, consumers) publish a templated issuer that
+ * ID tokens can't be verified against.
+ */
+export function azureADProvider(config: PresetConfig & { tenant: string }): OIDCProviderDescriptor {
+	const { tenant, ...rest } = config;
+	if (!tenant || ['common', 'organizations', 'consumers'].includes(tenant)) {
+		throw new Error(`Azure AD provider needs a specific tenant, got "${tenant ?? ''}"`);
+	}
+	return {
+		provider: 'azure-ad',
+		wellKnownUrl: `https://login.microsoftonline.com/${encodeURIComponent(tenant)}/v2.0/.well-known/openid-configuration`,
+		scopes: ['openid', 'email', 'profile', 'offline_access'],
+		claimMapping: { userId: 'oid', username: 'preferred_username' },
+		...rest
+	};
+}
+
+/**
+ * Auth0. `audience` makes Auth0 issue a JWT access token for that API instead of an
+ * opaque one, which is then verified for that audience.
+ */
+export function auth0Provider(
+	config: PresetConfig & { domain: string; audience?: string }
+): OIDCProviderDescriptor {
+	const { domain, audience, ...rest } = config;
+	if (!domain) {
+		throw new Error('Auth0 provider needs a domain, e.g. "my-tenant.eu.auth0.com"');
+	}
+	return {
+		provider: 'auth0',
+		wellKnownUrl: `https://${domain.replace(/^https?:\/\//, '').replace(/\/$/, '')}/.well-known/openid-configuration`,
+		scopes: ['openid', 'email', 'profile', 'offline_access'],
+		claimMapping: { username: 'nickname' },
+		...(audience && { accessTokenVerification: { audience } }),
+		...rest,
+		authorizationParams: {
+			...(audience && { audience }),
+			...rest.authorizationParams
+		}
+	};
+}
+
+/**
+ * One entry of the OIDC_PROVIDERS JSON config. Secrets can be read from another
+ * environment variable with `clientIdEnv`/`clientSecretEnv` instead of being inlined.
+ */
+export interface OIDCProviderConfigEntry extends Partial<OIDCProviderDescriptor> {
+	preset?: OIDCPresetName;
+	/** Azure AD tenant ID or domain */
+	tenant?: string;
+	/** Auth0 domain */
+	domain?: string;
+	/** Auth0 API audience */
+	audience?: string;
+	clientIdEnv?: string;
+	clientSecretEnv?: string;
+}
+
+export interface OIDCProvidersConfigOptions {
+	/** Looked up for clientIdEnv/clientSecretEnv */
+	env?: Record<string, string | undefined>;
+	/** Callback URL for entries without one */
+	defaultCallbackUrl: (provider: string) => string;
+}
+
+function descriptorFromEntry(
+	entry: OIDCProviderConfigEntry,
+	{ env = {}, defaultCallbackUrl }: OIDCProvidersConfigOptions
+): OIDCProviderDescriptor {
+	const { preset, tenant, domain, audience, clientIdEnv, clientSecretEnv, ...descriptor } = entry;
+	const provider = descriptor.provider ?? preset;
+	if (!provider) {
+		throw new Error('OIDC provider config needs a "provider" name or a "preset"');
+	}
+
+	const clientId = descriptor.clientId ?? (clientIdEnv ? env[clientIdEnv] : undefined);
+	if (!clientId) {
+		throw new Error(`OIDC provider "${provider}" has no clientId`);
+	}
+	const config: PresetConfig = {
+		...descriptor,
+		provider,
+		clientId,
+		clientSecret: descriptor.clientSecret ?? (clientSecretEnv ? env[clientSecretEnv] : '') ?? '',
+		callbackUrl: descriptor.callbackUrl ?? defaultCallbackUrl(provider)
+	};
+
+	switch (preset) {
+		case 'google':
+			return googleProvider(config);
+		case 'azure-ad':
+			return azureADProvider({ ...config, tenant: tenant ?? '' });
+		case 'auth0':
+			return auth0Provider({ ...config, domain: domain ?? '', audience });
+		case undefined:
+			return { ...config, provider };
+		default:
+			throw new Error(`Unknown OIDC provider preset "${preset}" for "${provider}"`);
+	}
+}
+
+/**
+ * Strategies for the providers in a JSON array of OIDCProviderConfigEntry, e.g.
+ * `[{"preset": "google", "clientIdEnv": "GOOGLE_CLIENT_ID", "clientSecretEnv": "GOOGLE_CLIENT_SECRET"}]`.
+ * Throws on invalid config so a misconfigured deployment fails at startup.
+ */
+export function oidcStrategiesFromConfig(
+	json: string,
+	options: OIDCProvidersConfigOptions
+): GenericOIDCStrategy[] {
+	let entries: unknown;
+	try {
+		entries = JSON.parse(json);
+	} catch (error) {
+		throw new Error(`OIDC provider config is not valid JSON: ${error}`);
+	}
+	if (!Array.isArray(entries)) {
+		throw new Error('OIDC provider config must be a JSON array');
+	}
+
+	const strategies = entries.map(
+		(entry: OIDCProviderConfigEntry) => new GenericOIDCStrategy(descriptorFromEntry(entry, options))
+	);
+	const names = strategies.map((strategy) => strategy.getProviderName());
+	const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+	if (duplicate) {
+		throw new Error(`OIDC provider "${duplicate}" is configured more than once`);
+	}
+
+	logger.info(`Configured OIDC providers: ${names.join(', ') || '(none)'}`);
+	return strategies;
+}
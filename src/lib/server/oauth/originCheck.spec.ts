@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import { originCheckHandle } from './originCheck';
+
+function event(path: string, init: RequestInit & { headers?: Record<string, string> } = {}) {
+	const url = new URL(`http://portal${path}`);
+	return { request: new Request(url, { method: 'POST', ...init }), url } as any;
+}
+
+const form = (origin?: string) => ({
+	body: 'a=1',
+	headers: {
+		'Content-Type': 'application/x-www-form-urlencoded',
+		...(origin ? { Origin: origin } : {})
+	}
+});
+
+describe('originCheckHandle', () => {
+	const handle = originCheckHandle();
+	const resolve = vi.fn(async () => new Response('ok'));
+
+	it('lets form posts to back-channel logout through from any origin', async () => {
+		for (const origin of ['https://idp.example.com', undefined]) {
+			const response = await handle({
+				event: event('/logout/backchannel/idp', form(origin)),
+				resolve
+			});
+			expect(response.status).toBe(200);
+		}
+	});
+
+	it('rejects cross-site form submissions everywhere else', async () => {
+		const rejected = [
+			event('/logout/backchannel/idp/other', form('https://evil.example.com')),
+			event('/consent', form('https://evil.example.com')),
+			event('/consent', form()),
+			event('/logout/backchannel/idp', {
+				method: 'POST',
+				body: 'a=1',
+				headers: { 'Content-Type': 'multipart/form-data', Origin: 'https://evil.example.com' }
+			})
+		];
+
+		for (const e of rejected) {
+			await expect(handle({ event: e, resolve })).rejects.toMatchObject({ status: 403 });
+		}
+	});
+
+	it('lets same-origin forms, JSON and safe methods through', async () => {
+		const allowed = [
+			event('/consent', form('http://portal')),
+			event('/consent', {
+				body: '{}',
+				headers: { 'Content-Type': 'application/json', Origin: 'https://evil.example.com' }
+			}),
+			event('/consent', { method: 'GET' })
+		];
+
+		for (const e of allowed) {
+			await expect(handle({ event: e, resolve })).resolves.toHaveProperty('status', 200);
+		}
+	});
+
+	it('does nothing when disabled', async () => {
+		const response = await originCheckHandle({ enabled: false })({
+			event: event('/consent', form('https://evil.example.com')),
+			resolve
+		});
+
+		expect(response.status).toBe(200);
+	});
+});
@@ -0,0 +1,42 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('OriginCheck');
+import { error, type Handle } from '@sveltejs/kit';
+
+const FORM_CONTENT_TYPES = [
+	'application/x-www-form-urlencoded',
+	'multipart/form-data',
+	'text/plain',
+	'application/x-sveltekit-formdata'
+];
+
+/** Where identity providers post logout tokens: /logout/backchannel/{provider} */
+const BACKCHANNEL_LOGOUT_PATH = /^\/logout\/backchannel\/[^/]+$/;
+
+/**
+ * SvelteKit's CSRF origin check, for apps that turn the built-in one off with
+ * `csrf.trustedOrigins: ['*']` so identity providers can post back-channel logout
+ * tokens. Those arrive as cross-site form POSTs without an Origin header, and are
+ * authenticated by the signed token instead. Every other cross-site form submission
+ * is rejected, as SvelteKit would.
+ */
+export function originCheckHandle({ enabled = true }: { enabled?: boolean } = {}): Handle {
+	return async ({ event, resolve }) => {
+		const { request, url } = event;
+		if (!enabled || !['POST', 'PUT', 'PATCH', 'DELETE'].includes(request.method)) {
+			return resolve(event);
+		}
+
+		const contentType = request.headers.get('content-type')?.split(';')[0].trim().toLowerCase();
+		const isForm = !!contentType && FORM_CONTENT_TYPES.includes(contentType);
+		const backchannelLogout =
+			request.method === 'POST' &&
+			contentType === 'application/x-www-form-urlencoded' &&
+			BACKCHANNEL_LOGOUT_PATH.test(url.pathname);
+
+		if (isForm && request.headers.get('origin') !== url.origin && !backchannelLogout) {
+			logger.warn(`Blocked cross-site ${request.method} form submission to ${url.pathname}`);
+			throw error(403, `Cross-site ${request.method} form submissions are forbidden`);
+		}
+		return resolve(event);
+	};
+}
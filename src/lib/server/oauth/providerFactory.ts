@@ -1,6 +1,7 @@
 import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('OAuthProviderFactory');
 import { OAuth2ClientWithConfig } from './client';
+import type { OAuth2ClientOptions } from './types';
 
 export interface WellKnownUri {
 	provider: string;
@@ -13,21 +14,41 @@ export interface OAuthProviderConfig {
 	callbackUrl: string;
 }
 
+/**
+ * Everything needed to log in with an OIDC provider. Presets for common providers
+ * live in oidcProviders.ts.
+ */
+export interface OIDCProviderDescriptor extends OAuthProviderConfig, OAuth2ClientOptions {
+	/** Name used in login URLs (/login/{provider}) and stored in sessions */
+	provider: string;
+	/**
+	 * OIDC discovery document. When unset, the provider is only initialized if OBP's
+	 * well-known endpoint advertises it.
+	 */
+	wellKnownUrl?: string;
+}
+
 // Implement this for other OAuth2 providers as needed
 // Then register them in the OAuth2ProviderFactory
 interface OAuth2ProviderStrategy {
 	providerName: string;
+	/** Discovery URL configured locally rather than advertised by OBP */
+	wellKnownUrl?: string;
 	initialize(config: WellKnownUri): Promise<OAuth2ClientWithConfig>;
 	supports(provider: string): boolean;
 	getProviderName(): string;
 }
 
-export class KeyCloakStrategy implements OAuth2ProviderStrategy {
-	providerName = 'keycloak';
-	private config: OAuthProviderConfig;
+/** Strategy for any OIDC provider, driven by an OIDCProviderDescriptor */
+export class GenericOIDCStrategy implements OAuth2ProviderStrategy {
+	providerName: string;
+	wellKnownUrl?: string;
+	private descriptor: OIDCProviderDescriptor;
 
-	constructor(config: OAuthProviderConfig) {
-		this.config = config;
+	constructor(descriptor: OIDCProviderDescriptor) {
+		this.descriptor = descriptor;
+		this.providerName = descriptor.provider;
+		this.wellKnownUrl = descriptor.wellKnownUrl;
 	}
 
 	supports(provider: string): boolean {
@@ -39,11 +60,20 @@ export class KeyCloakStrategy implements OAuth2ProviderStrategy {
 	}
 
 	async initialize(config: WellKnownUri): Promise<OAuth2ClientWithConfig> {
+		const { clientId, clientSecret, callbackUrl, ...options } = this.descriptor;
+		logger.debug(`Initializing ${this.providerName} OAuth client with:`, {
+			clientId: clientId ? '[SET]' : '[MISSING]',
+			clientSecret: clientSecret ? '[SET]' : '[MISSING]',
+			callbackUrl: callbackUrl ? callbackUrl : '[MISSING]',
+			configUrl: config.url
+		});
+
 		const client = new OAuth2ClientWithConfig(
-			this.config.clientId,
-			this.config.clientSecret,
-			this.config.callbackUrl,
-			'keycloak'
+			clientId,
+			clientSecret,
+			callbackUrl,
+			this.providerName,
+			options
 		);
 
 		await client.initOIDCConfig(config.url);
@@ -52,40 +82,15 @@ export class KeyCloakStrategy implements OAuth2ProviderStrategy {
 	}
 }
 
-export class OBPOIDCStrategy implements OAuth2ProviderStrategy {
-	providerName = 'obp-oidc';
-	private config: OAuthProviderConfig;
-
+export class KeyCloakStrategy extends GenericOIDCStrategy {
 	constructor(config: OAuthProviderConfig) {
-		this.config = config;
-	}
-
-	supports(provider: string): boolean {
-		return provider === this.providerName;
+		super({ ...config, provider: 'keycloak' });
 	}
+}
 
-	getProviderName(): string {
-		return this.providerName;
-	}
-
-	async initialize(config: WellKnownUri): Promise<OAuth2ClientWithConfig> {
-		logger.debug(`Initializing OAuth client with:`, {
-			clientId: this.config.clientId ? '[SET]' : '[MISSING]',
-			clientSecret: this.config.clientSecret ? '[SET]' : '[MISSING]',
-			callbackUrl: this.config.callbackUrl ? this.config.callbackUrl : '[MISSING]',
-			configUrl: config.url
-		});
-
-		const client = new OAuth2ClientWithConfig(
-			this.config.clientId,
-			this.config.clientSecret,
-			this.config.callbackUrl,
-			'obp-oidc'
-		);
-
-		await client.initOIDCConfig(config.url);
-
-		return client;
+export class OBPOIDCStrategy extends GenericOIDCStrategy {
+	constructor(config: OAuthProviderConfig) {
+		super({ ...config, provider: 'obp-oidc' });
 	}
 }
 
@@ -151,6 +156,13 @@ export class OAuth2ProviderFactory {
 		return new Map(this.initializedClients);
 	}
 
+	/** Providers whose discovery URL is configured locally instead of coming from OBP */
+	getConfiguredWellKnownUris(): WellKnownUri[] {
+		return this.strategies
+			.filter((strategy) => !!strategy.wellKnownUrl)
+			.map((strategy) => ({ provider: strategy.getProviderName(), url: strategy.wellKnownUrl! }));
+	}
+
 	getSupportedProviders(): string[] {
 		return this.strategies.map((strategy) => strategy.getProviderName());
 	}
@@ -1,5 +1,5 @@
 import { createLogger } from '$lib/utils/logger';
-import type { OBPRequests } from '$lib/obp/requests';
+import type { OBPClient } from '$lib/obp/client';
 import { type OAuth2ProviderFactory, type WellKnownUri } from './providerFactory';
 
 const logger = createLogger('OAuthProviderManager');
@@ -30,7 +30,7 @@ export class OAuth2ProviderManager {
 
 	constructor(
 		private factory: OAuth2ProviderFactory,
-		private obpRequests: OBPRequests
+		private obp: OBPClient
 	) {
 		// Initialize with all known/configured providers from the factory
 		this.definedProviders = factory.getSupportedProviders();
@@ -53,7 +53,7 @@ export class OAuth2ProviderManager {
 	 */
 	async fetchWellKnownUris(): Promise<WellKnownUri[]> {
 		try {
-			const response = await this.obpRequests.get('/obp/v5.1.0/well-known');
+			const response = await this.obp.requests.get(this.obp.path('/well-known'));
 			return response.well_known_uris;
 		} catch (error) {
 			logger.error('Failed to fetch well-known URIs:', error);
@@ -61,6 +61,19 @@ export class OAuth2ProviderManager {
 		}
 	}
 
+	/**
+	 * Adds providers configured with their own discovery URL (e.g. Google or Auth0,
+	 * which OBP doesn't advertise). A configured URL wins over OBP's for the same provider.
+	 */
+	private withConfiguredUris(wellKnownUris: WellKnownUri[]): WellKnownUri[] {
+		const configured = this.factory.getConfiguredWellKnownUris();
+		const configuredNames = new Set(configured.map((uri) => uri.provider));
+		return [
+			...(wellKnownUris ?? []).filter((uri) => !configuredNames.has(uri.provider)),
+			...configured
+		];
+	}
+
 	/**
 	 * Initializes all available OAuth2 providers from well-known URIs
 	 * Also tracks providers that failed to initialize
@@ -70,7 +83,7 @@ export class OAuth2ProviderManager {
 		let wellKnownUris: WellKnownUri[] = [];
 
 		try {
-			wellKnownUris = await this.fetchWellKnownUris();
+			wellKnownUris = this.withConfiguredUris(await this.fetchWellKnownUris());
 			logger.debug('Well-known URIs fetched successfully:', wellKnownUris);
 		} catch (error) {
 			logger.error('Failed to fetch well-known URIs, marking all providers as unavailable');
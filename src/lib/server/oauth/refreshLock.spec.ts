@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InProcessRefreshLock, RedisRefreshLock, RefreshLockTimeoutError } from './refreshLock';
+import { FakeRedis, fakeRedisService } from '../testing/FakeRedis';
+
+/** A task that stays pending until `finish` is called */
+function deferredTask<T>() {
+	let finish!: (value: T) => void;
+	const task = vi.fn(() => new Promise<T>((resolve) => (finish = resolve)));
+	return { task, finish: (value: T) => finish(value) };
+}
+
+describe('InProcessRefreshLock', () => {
+	it('shares one run between concurrent callers and runs again afterwards', async () => {
+		const lock = new InProcessRefreshLock();
+		const { task, finish } = deferredTask<string>();
+
+		const first = lock.run('session', task);
+		const second = lock.run('session', task);
+		finish('tokens');
+
+		expect(await Promise.all([first, second])).toEqual(['tokens', 'tokens']);
+		expect(task).toHaveBeenCalledOnce();
+
+		await lock.run('session', async () => 'new tokens');
+		expect(task).toHaveBeenCalledOnce();
+	});
+});
+
+describe('RedisRefreshLock', () => {
+	/** Two app instances sharing one Redis */
+	function instances(redis = new FakeRedis(), waitTimeoutMs = 1000) {
+		const options = { redisService: fakeRedisService(redis), pollIntervalMs: 5, waitTimeoutMs };
+		return [new RedisRefreshLock(options), new RedisRefreshLock(options)];
+	}
+
+	it('hands the holder result to callers on other instances', async () => {
+		const [a, b] = instances();
+		const { task, finish } = deferredTask<{ accessToken: string }>();
+		const otherTask = vi.fn(async () => ({ accessToken: 'second refresh' }));
+
+		const holder = a.run('session', task);
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		const waiter = b.run('session', otherTask);
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		finish({ accessToken: 'refreshed' });
+
+		expect(await holder).toEqual({ accessToken: 'refreshed' });
+		expect(await waiter).toEqual({ accessToken: 'refreshed' });
+		expect(otherTask).not.toHaveBeenCalled();
+	});
+
+	it('lets the next caller retry after a failed refresh', async () => {
+		const redis = new FakeRedis();
+		const [a, b] = instances(redis);
+
+		await expect(
+			a.run('session', async () => {
+				throw new Error('provider unavailable');
+			})
+		).rejects.toThrow('provider unavailable');
+
+		expect(await redis.get('obp-portal:oauth-refresh:session:lock')).toBe(null);
+		await expect(b.run('session', async () => 'refreshed')).resolves.toBe('refreshed');
+	});
+
+	it('gives up waiting on a holder that never finishes', async () => {
+		const [a, b] = instances(new FakeRedis(), 30);
+		void a.run('session', deferredTask<string>().task);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+
+		await expect(b.run('session', async () => 'refreshed')).rejects.toBeInstanceOf(
+			RefreshLockTimeoutError
+		);
+	});
+});
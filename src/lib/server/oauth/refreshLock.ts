@@ -0,0 +1,125 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('RefreshLock');
+import type { RedisService } from '$lib/server/redis/RedisService';
+
+export class RefreshLockTimeoutError extends Error {
+	constructor(key: string, waitedMs: number) {
+		super(`Timed out after ${waitedMs}ms waiting for the token refresh holding ${key}`);
+		this.name = 'RefreshLockTimeoutError';
+		Object.setPrototypeOf(this, RefreshLockTimeoutError.prototype);
+	}
+}
+
+/**
+ * Makes sure a refresh token is spent once: `run` executes `task` for a key while no
+ * one else is, and callers arriving meanwhile get the same result instead of
+ * running it again. Failures are not shared; the next caller tries again.
+ */
+export interface RefreshLock {
+	run<T>(key: string, task: () => Promise<T>): Promise<T>;
+}
+
+/** Coalesces concurrent refreshes within this process only. */
+export class InProcessRefreshLock implements RefreshLock {
+	private inFlight = new Map<string, Promise<any>>();
+
+	run<T>(key: string, task: () => Promise<T>): Promise<T> {
+		const pending = this.inFlight.get(key);
+		if (pending) return pending;
+
+		const promise = task().finally(() => {
+			this.inFlight.delete(key);
+		});
+		this.inFlight.set(key, promise);
+		return promise;
+	}
+}
+
+// Delete the lock only if we still own it, so an expired lock taken over by
+// another instance isn't released from under it
+const RELEASE_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+
+export interface RedisRefreshLockOptions {
+	redisService: RedisService;
+	keyPrefix?: string;
+	/** How long a holder may take before its lock expires and someone else may refresh */
+	lockTtlMs?: number;
+	/** How long a finished refresh's result stays available to late waiters */
+	resultTtlMs?: number;
+	pollIntervalMs?: number;
+	/** Give up waiting for another holder after this long */
+	waitTimeoutMs?: number;
+}
+
+/**
+ * Lock shared by every app instance through Redis (SET NX PX). The holder publishes
+ * its result under the same key before releasing, so instances waiting on it pick up
+ * the new tokens. Results must be JSON-serialisable and are kept only briefly, since
+ * they hold tokens.
+ */
+export class RedisRefreshLock implements RefreshLock {
+	private local = new InProcessRefreshLock();
+	private redisService: RedisService;
+	private keyPrefix: string;
+	private lockTtlMs: number;
+	private resultTtlMs: number;
+	private pollIntervalMs: number;
+	private waitTimeoutMs: number;
+
+	constructor({
+		redisService,
+		keyPrefix = 'obp-portal:oauth-refresh:',
+		lockTtlMs = 15_000,
+		resultTtlMs = 60_000,
+		pollIntervalMs = 100,
+		waitTimeoutMs = 20_000
+	}: RedisRefreshLockOptions) {
+		this.redisService = redisService;
+		this.keyPrefix = keyPrefix;
+		this.lockTtlMs = lockTtlMs;
+		this.resultTtlMs = resultTtlMs;
+		this.pollIntervalMs = pollIntervalMs;
+		this.waitTimeoutMs = waitTimeoutMs;
+	}
+
+	run<T>(key: string, task: () => Promise<T>): Promise<T> {
+		// Requests on this instance share one trip through Redis
+		return this.local.run(key, () => this.runExclusive(key, task));
+	}
+
+	private async runExclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+		const redis = this.redisService.getClient();
+		const lockKey = `${this.keyPrefix}${key}:lock`;
+		const resultKey = `${this.keyPrefix}${key}:result`;
+		const startedAt = Date.now();
+
+		while (true) {
+			const owner = crypto.randomUUID();
+			const acquired = (await redis.set(lockKey, owner, 'PX', this.lockTtlMs, 'NX')) === 'OK';
+
+			// Checked after acquiring too: a holder that just finished has published its result
+			const published = await redis.get(resultKey);
+			if (published) {
+				if (acquired) await redis.eval(RELEASE_SCRIPT, 1, lockKey, owner);
+				logger.debug(`Using refresh result published for ${key}`);
+				return JSON.parse(published) as T;
+			}
+
+			if (acquired) {
+				try {
+					const result = await task();
+					await redis.set(resultKey, JSON.stringify(result), 'PX', this.resultTtlMs);
+					return result;
+				} finally {
+					await redis.eval(RELEASE_SCRIPT, 1, lockKey, owner);
+				}
+			}
+
+			const waited = Date.now() - startedAt;
+			if (waited > this.waitTimeoutMs) {
+				throw new RefreshLockTimeoutError(key, waited);
+			}
+			await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+		}
+	}
+}
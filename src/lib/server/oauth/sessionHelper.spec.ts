@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OAuth2Tokens } from 'arctic';
+import { SessionOAuthHelper } from './sessionHelper';
+import type { OAuth2ProviderFactory } from './providerFactory';
+
+function session(oauth: Record<string, unknown>) {
+	const session = {
+		id: 'session-1',
+		data: { oauth: { provider: 'idp', ...oauth } } as any,
+		setData: vi.fn(async (data: any) => {
+			session.data = data;
+		}),
+		save: vi.fn(async () => {})
+	};
+	return session;
+}
+
+describe('SessionOAuthHelper.ensureFreshAccessToken', () => {
+	let client: { OIDCConfig: any; accessTokenExpiresAt: any; refreshAccessToken: any };
+	let helper: SessionOAuthHelper;
+
+	beforeEach(() => {
+		client = {
+			OIDCConfig: { token_endpoint: 'https://idp.example.com/token' },
+			// Opaque token: no local expiry
+			accessTokenExpiresAt: vi.fn(async () => undefined),
+			refreshAccessToken: vi.fn(
+				async () => new OAuth2Tokens({ access_token: 'new-token', refresh_token: 'new-refresh' })
+			)
+		};
+		const factory = { getClient: () => client } as unknown as OAuth2ProviderFactory;
+		helper = new SessionOAuthHelper(factory);
+	});
+
+	it('refreshes a session without access_token_expires_at once OBP rejects its token', async () => {
+		const stored = session({ access_token: 'opaque-token', refresh_token: 'refresh' });
+
+		expect(await helper.ensureFreshAccessToken(stored as any)).toBe(false);
+		expect(client.refreshAccessToken).not.toHaveBeenCalled();
+
+		await helper.markAccessTokenRejected('opaque-token');
+
+		expect(await helper.ensureFreshAccessToken(stored as any)).toBe(true);
+		expect(stored.data.oauth).toMatchObject({
+			access_token: 'new-token',
+			refresh_token: 'new-refresh'
+		});
+		expect(await helper.ensureFreshAccessToken(stored as any)).toBe(false);
+		expect(client.refreshAccessToken).toHaveBeenCalledOnce();
+	});
+
+	it('fails a rejected token that has no refresh token', async () => {
+		const stored = session({ access_token: 'opaque-token' });
+		await helper.markAccessTokenRejected('opaque-token');
+
+		await expect(helper.ensureFreshAccessToken(stored as any)).rejects.toThrow('rejected by OBP');
+	});
+});
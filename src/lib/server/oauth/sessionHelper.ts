@@ -1,7 +1,9 @@
 import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('OAuthSessionHelper');
+import { OAuth2RequestError } from 'arctic';
 import type { OAuth2ProviderFactory } from './providerFactory';
 import type { OAuth2ClientWithConfig } from './client';
+import { InProcessRefreshLock, type RefreshLock } from './refreshLock';
 import type { Session } from 'svelte-kit-sessions';
 
 export interface SessionOAuthData {
@@ -9,10 +11,57 @@ export interface SessionOAuthData {
 	provider: string;
 	accessToken: string;
 	refreshToken?: string;
+	/** Epoch ms, from the token response's expires_in */
+	accessTokenExpiresAt?: number;
+}
+
+export interface SessionOAuthHelperOptions {
+	/** Shared with other instances (RedisRefreshLock) when running more than one */
+	refreshLock?: RefreshLock;
+	/** Refresh this long before the access token expires */
+	refreshSkewSeconds?: number;
+}
+
+/** Tokens from a refresh, as shared between requests waiting on the same refresh */
+interface RefreshedTokens {
+	accessToken: string;
+	refreshToken: string;
+	accessTokenExpiresAt?: number;
+}
+
+/** The provider rejected the refresh token (invalid_grant): it expired, was revoked or was already used */
+export class RefreshTokenRejectedError extends Error {
+	constructor(provider: string, description?: string | null) {
+		super(`Refresh token rejected by ${provider}${description ? `: ${description}` : ''}`);
+		this.name = 'RefreshTokenRejectedError';
+		Object.setPrototypeOf(this, RefreshTokenRejectedError.prototype);
+	}
+}
+
+/** How long a token OBP rejected is remembered for sessions that haven't been back since */
+const REJECTED_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+async function sha256Hex(value: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+	return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
 }
 
 export class SessionOAuthHelper {
-	constructor(private factory: OAuth2ProviderFactory) {}
+	private refreshLock: RefreshLock;
+	private refreshSkewMs: number;
+	/** SHA-256 of access tokens OBP answered with 401, and when */
+	private rejectedAccessTokens = new Map<string, number>();
+
+	constructor(
+		private factory: OAuth2ProviderFactory,
+		{
+			refreshLock = new InProcessRefreshLock(),
+			refreshSkewSeconds = 60
+		}: SessionOAuthHelperOptions = {}
+	) {
+		this.refreshLock = refreshLock;
+		this.refreshSkewMs = refreshSkewSeconds * 1000;
+	}
 
 	/**
 	 * Get the OAuth client and tokens from session
@@ -34,14 +83,16 @@ export class SessionOAuthHelper {
 			client,
 			provider: oauthData.provider,
 			accessToken: oauthData.access_token,
-			refreshToken: oauthData.refresh_token
+			refreshToken: oauthData.refresh_token,
+			accessTokenExpiresAt: oauthData.access_token_expires_at
 		};
 	}
 
 	async updateTokensInSession(
 		session: Session,
 		accessToken: string,
-		refreshToken?: string
+		refreshToken?: string,
+		accessTokenExpiresAt?: number
 	): Promise<void> {
 		const currentOauth = session.data.oauth;
 		if (!currentOauth) {
@@ -53,13 +104,80 @@ export class SessionOAuthHelper {
 			oauth: {
 				...currentOauth,
 				access_token: accessToken,
-				refresh_token: refreshToken || currentOauth.refresh_token // Keep existing refresh token if not provided
+				refresh_token: refreshToken || currentOauth.refresh_token, // Keep existing refresh token if not provided
+				access_token_expires_at: accessTokenExpiresAt
 			}
 		});
 
 		await session.save();
 	}
 
+	/**
+	 * Note that OBP answered 401 to an access token, so sessions holding it refresh on
+	 * their next request even when its expiry is unknown (opaque token, no expires_in).
+	 * Kept in this process only.
+	 */
+	async markAccessTokenRejected(accessToken: string): Promise<void> {
+		const now = Date.now();
+		for (const [hash, rejectedAt] of this.rejectedAccessTokens) {
+			if (now - rejectedAt > REJECTED_TOKEN_TTL_MS) this.rejectedAccessTokens.delete(hash);
+		}
+		this.rejectedAccessTokens.set(await sha256Hex(accessToken), now);
+	}
+
+	/**
+	 * Refresh the session's access token if it expires within the refresh skew, or OBP
+	 * has rejected it (see markAccessTokenRejected). Returns whether it was refreshed.
+	 * Throws TokenVerificationError for a token that fails verification, and refresh
+	 * errors once the token has actually expired or been rejected; before that, a failed
+	 * refresh is logged and the current token kept.
+	 */
+	async ensureFreshAccessToken(session: Session): Promise<boolean> {
+		const sessionOAuth = this.getSessionOAuth(session);
+		if (!sessionOAuth) {
+			throw new Error('No valid OAuth data found in session. Please log in again.');
+		}
+
+		const { client, provider, accessToken, refreshToken } = sessionOAuth;
+		const tokenHash = await sha256Hex(accessToken);
+		const rejected = this.rejectedAccessTokens.has(tokenHash);
+		const expiresAt = rejected
+			? Date.now()
+			: ((await client.accessTokenExpiresAt(accessToken)) ?? sessionOAuth.accessTokenExpiresAt);
+		if (expiresAt === undefined || Date.now() < expiresAt - this.refreshSkewMs) {
+			return false;
+		}
+
+		const expired = Date.now() >= expiresAt;
+		if (rejected && !refreshToken) {
+			throw new Error(`Access token rejected by OBP and there is no refresh token for ${provider}`);
+		}
+		if (!expired && !refreshToken) {
+			// Nothing to refresh with; use the token until it runs out
+			return false;
+		}
+
+		try {
+			await this.refreshAccessToken(session);
+			this.rejectedAccessTokens.delete(tokenHash);
+			return true;
+		} catch (error) {
+			if (expired || error instanceof RefreshTokenRejectedError) {
+				throw error;
+			}
+			logger.warn(
+				`Proactive token refresh failed for provider ${provider}; using the current token until it expires:`,
+				error
+			);
+			return false;
+		}
+	}
+
+	/**
+	 * Refresh the session's access token. Concurrent refreshes of the same refresh
+	 * token (other requests, other instances) wait for one to finish and share its
+	 * tokens, so a rotating refresh token is only spent once.
+	 */
 	async refreshAccessToken(session: Session): Promise<void> {
 		logger.debug('Attempting to refresh access token in session...');
 
@@ -77,23 +195,39 @@ export class SessionOAuthHelper {
 			throw new Error('No refresh endpoint or refresh token found. Please log in again.');
 		}
 
-		try {
+		const lockKey = `${session.id}:${(await sha256Hex(refreshToken)).slice(0, 32)}`;
+		const tokens = await this.refreshLock.run<RefreshedTokens>(lockKey, async () => {
 			logger.debug(`Refreshing access token for provider: ${provider}...`);
-			const tokens = await client.refreshAccessToken(refreshEndpoint, refreshToken, ['openid']);
-
-			await this.updateTokensInSession(
-				session,
-				tokens.accessToken(),
-				tokens.refreshToken() || refreshToken
-			);
+			try {
+				const refreshed = await client.refreshAccessToken(refreshEndpoint, refreshToken, [
+					'openid'
+				]);
+				logger.info(`Access token refreshed successfully for provider: ${provider}`);
+				return {
+					accessToken: refreshed.accessToken(),
+					// Providers that don't rotate refresh tokens leave the current one valid
+					refreshToken: refreshed.hasRefreshToken() ? refreshed.refreshToken() : refreshToken,
+					accessTokenExpiresAt:
+						'expires_in' in refreshed.data ? refreshed.accessTokenExpiresAt().getTime() : undefined
+				};
+			} catch (error) {
+				if (error instanceof OAuth2RequestError && error.code === 'invalid_grant') {
+					logger.info(
+						`Refresh token rejected by ${provider} - this is normal OAuth behavior when tokens expire:`,
+						error.description
+					);
+					throw new RefreshTokenRejectedError(provider, error.description);
+				}
+				logger.warn(`Token refresh failed for provider ${provider}:`, error);
+				throw new Error('Failed to refresh access token. Please log in again.');
+			}
+		});
 
-			logger.info(`Access token refreshed successfully for provider: ${provider}`);
-		} catch (error) {
-			logger.info(
-				`Token refresh failed for provider ${provider} - this is normal OAuth behavior when tokens expire:`,
-				error
-			);
-			throw new Error('Failed to refresh access token. Please log in again.');
-		}
+		await this.updateTokensInSession(
+			session,
+			tokens.accessToken,
+			tokens.refreshToken,
+			tokens.accessTokenExpiresAt
+		);
 	}
 }
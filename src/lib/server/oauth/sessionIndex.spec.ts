@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RedisOIDCSessionIndex } from './sessionIndex';
+import { FakeRedis, fakeRedisService } from '../testing/FakeRedis';
+
+describe('RedisOIDCSessionIndex', () => {
+	let index: RedisOIDCSessionIndex;
+
+	beforeEach(() => {
+		index = new RedisOIDCSessionIndex({ redisService: fakeRedisService(new FakeRedis()) });
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('finds the sessions of one login by sid and every login of a user by sub', async () => {
+		await index.add('idp', { sid: 'sid-1', sub: 'alice' }, 'session-1');
+		await index.add('idp', { sid: 'sid-2', sub: 'alice' }, 'session-2');
+		await index.add('other-idp', { sid: 'sid-1', sub: 'alice' }, 'session-3');
+
+		expect(await index.find('idp', { sid: 'sid-1', sub: 'alice' })).toEqual(['session-1']);
+		expect(await index.find('idp', { sub: 'alice' })).toEqual(['session-1', 'session-2']);
+		expect(await index.find('idp', {})).toEqual([]);
+
+		await index.remove('idp', { sid: 'sid-1', sub: 'alice' }, 'session-1');
+		expect(await index.find('idp', { sub: 'alice' })).toEqual(['session-2']);
+	});
+
+	it('accepts each logout token jti once while it is remembered', async () => {
+		vi.useFakeTimers();
+
+		expect(await index.claimLogoutToken('idp', 'jti-1')).toBe(true);
+		expect(await index.claimLogoutToken('idp', 'jti-1')).toBe(false);
+		expect(await index.claimLogoutToken('other-idp', 'jti-1')).toBe(true);
+
+		vi.advanceTimersByTime(10 * 60 * 1000);
+		expect(await index.claimLogoutToken('idp', 'jti-1')).toBe(true);
+	});
+});
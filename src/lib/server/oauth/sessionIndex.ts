@@ -0,0 +1,78 @@
+import type { RedisService } from '$lib/server/redis/RedisService';
+
+/** The provider's identifiers for a login: its session ID (sid) and the user (sub) */
+export interface OIDCSessionRef {
+	sid?: string;
+	sub?: string;
+}
+
+export interface OIDCSessionIndexOptions {
+	redisService: RedisService;
+	keyPrefix?: string;
+	/** How long an entry outlives its last login; should exceed the app session lifetime */
+	ttlSeconds?: number;
+}
+
+/**
+ * Maps the provider's sid and sub to app session IDs, so a back-channel logout can
+ * find the sessions it refers to. Entries for sessions that ended without a logout
+ * linger until they expire; destroying an already-gone session is harmless.
+ */
+export class RedisOIDCSessionIndex {
+	private redisService: RedisService;
+	private keyPrefix: string;
+	private ttlSeconds: number;
+
+	constructor({
+		redisService,
+		keyPrefix = 'obp-portal:oidc-sessions:',
+		ttlSeconds = 7 * 24 * 60 * 60
+	}: OIDCSessionIndexOptions) {
+		this.redisService = redisService;
+		this.keyPrefix = keyPrefix;
+		this.ttlSeconds = ttlSeconds;
+	}
+
+	private keys(provider: string, { sid, sub }: OIDCSessionRef): string[] {
+		return [
+			...(sid ? [`${this.keyPrefix}${provider}:sid:${sid}`] : []),
+			...(sub ? [`${this.keyPrefix}${provider}:sub:${sub}`] : [])
+		];
+	}
+
+	async add(provider: string, ref: OIDCSessionRef, sessionId: string): Promise<void> {
+		const multi = this.redisService.getClient().multi();
+		for (const key of this.keys(provider, ref)) {
+			multi.sadd(key, sessionId).expire(key, this.ttlSeconds);
+		}
+		await multi.exec();
+	}
+
+	async remove(provider: string, ref: OIDCSessionRef, sessionId: string): Promise<void> {
+		const multi = this.redisService.getClient().multi();
+		for (const key of this.keys(provider, ref)) {
+			multi.srem(key, sessionId);
+		}
+		await multi.exec();
+	}
+
+	/**
+	 * Sessions a logout token refers to: those of its sid when it has one
+	 * (logging out one login), otherwise every session of its sub.
+	 */
+	async find(provider: string, { sid, sub }: OIDCSessionRef): Promise<string[]> {
+		const [key] = this.keys(provider, sid ? { sid } : { sub });
+		return key ? this.redisService.getClient().smembers(key) : [];
+	}
+
+	/**
+	 * Record a logout token's jti. Returns false if it was already seen, so a
+	 * replayed token can be rejected.
+	 */
+	async claimLogoutToken(provider: string, jti: string, ttlSeconds = 10 * 60): Promise<boolean> {
+		const result = await this.redisService
+			.getClient()
+			.set(`${this.keyPrefix}${provider}:jti:${jti}`, '1', 'EX', ttlSeconds, 'NX');
+		return result === 'OK';
+	}
+}
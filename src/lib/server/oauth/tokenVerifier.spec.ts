@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { OIDCTokenVerifier, TokenVerificationError, JWKSUnavailableError } from './tokenVerifier';
+import { createSigningKey, type TestSigningKey } from '../testing/signingKey';
+import type { OpenIdConnectConfiguration } from './types';
+
+const config = {
+	issuer: 'https://idp.example.com',
+	jwks_uri: 'https://idp.example.com/jwks',
+	id_token_signing_alg_values_supported: ['RS256']
+} as OpenIdConnectConfiguration;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('OIDCTokenVerifier', () => {
+	let key: TestSigningKey;
+	let jwks: { keys: JsonWebKey[] };
+	let fetchMock: ReturnType<typeof vi.fn>;
+	let verifier: OIDCTokenVerifier;
+
+	beforeAll(async () => {
+		key = await createSigningKey();
+	});
+
+	beforeEach(() => {
+		jwks = { keys: [key.jwk] };
+		fetchMock = vi.fn(async () => Response.json(jwks));
+		vi.stubGlobal('fetch', fetchMock);
+		verifier = new OIDCTokenVerifier(config, 'portal');
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	function idToken(claims: Record<string, unknown> = {}, header?: Record<string, unknown>) {
+		return key.sign(
+			{
+				iss: config.issuer,
+				aud: 'portal',
+				sub: 'alice',
+				iat: now(),
+				exp: now() + 300,
+				nonce: 'n-1',
+				...claims
+			},
+			header
+		);
+	}
+
+	it('accepts an ID token signed by the provider for this client and nonce', async () => {
+		const claims = await verifier.verifyIdToken(await idToken(), 'n-1');
+
+		expect(claims).toMatchObject({ sub: 'alice', aud: 'portal' });
+		expect(fetchMock).toHaveBeenCalledOnce();
+	});
+
+	it('rejects a token signed with another key', async () => {
+		const other = await createSigningKey(key.jwk.kid);
+		const forged = await other.sign({ iss: config.issuer, aud: 'portal', exp: now() + 300 });
+
+		await expect(verifier.verifyIdToken(forged)).rejects.toThrow('signature is invalid');
+	});
+
+	it.each(['none', 'HS256', 'RS512'])('rejects tokens claiming alg %s', async (alg) => {
+		await expect(verifier.verifyIdToken(await idToken({}, { alg }))).rejects.toThrow(
+			`algorithm ${alg} is not accepted`
+		);
+	});
+
+	it('rejects tokens from another issuer, for another client or past their expiry', async () => {
+		const rejected = [
+			idToken({ iss: 'https://evil.example.com' }),
+			idToken({ aud: 'someone-else' }),
+			idToken({ aud: ['portal', 'someone-else'] }),
+			idToken({ exp: now() - 3600 })
+		];
+
+		for (const token of rejected) {
+			await expect(verifier.verifyIdToken(await token, 'n-1')).rejects.toBeInstanceOf(
+				TokenVerificationError
+			);
+		}
+	});
+
+	it('rejects an ID token bound to another nonce', async () => {
+		await expect(verifier.verifyIdToken(await idToken(), 'n-2')).rejects.toThrow(
+			'nonce does not match'
+		);
+	});
+
+	it('refetches the JWKS when an unknown kid shows up', async () => {
+		await verifier.verifyIdToken(await idToken());
+		const rotated = await createSigningKey('rotated-key');
+		jwks = { keys: [key.jwk, rotated.jwk] };
+		vi.useFakeTimers({ now: Date.now() + 60_000, toFake: ['Date'] });
+
+		try {
+			const token = await rotated.sign({ iss: config.issuer, aud: 'portal', exp: now() + 300 });
+			await expect(verifier.verifyIdToken(token)).resolves.toMatchObject({ aud: 'portal' });
+		} finally {
+			vi.useRealTimers();
+		}
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('reports an unreachable JWKS as JWKSUnavailableError', async () => {
+		fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+
+		await expect(verifier.verifyIdToken(await idToken())).rejects.toBeInstanceOf(
+			JWKSUnavailableError
+		);
+	});
+
+	it('checks access tokens against the configured issuer and audience', async () => {
+		const accessToken = await key.sign({
+			iss: 'https://api.example.com',
+			aud: ['obp'],
+			sub: 'alice',
+			exp: now() - 60
+		});
+
+		// Expired access tokens still verify; the caller refreshes them
+		await expect(
+			verifier.verifyAccessToken(accessToken, {
+				issuer: 'https://api.example.com',
+				audience: 'obp'
+			})
+		).resolves.toMatchObject({ sub: 'alice' });
+		await expect(verifier.verifyAccessToken(accessToken)).rejects.toThrow('issuer');
+		await expect(
+			verifier.verifyAccessToken(accessToken, {
+				issuer: 'https://api.example.com',
+				audience: 'portal'
+			})
+		).rejects.toThrow('audience');
+	});
+
+	describe('verifyLogoutToken', () => {
+		const event = { 'http://schemas.openid.net/event/backchannel-logout': {} };
+
+		function logoutToken(claims: Record<string, unknown> = {}) {
+			return key.sign({
+				iss: config.issuer,
+				aud: 'portal',
+				iat: now(),
+				jti: 'jti-1',
+				sid: 'sid-1',
+				events: event,
+				...claims
+			});
+		}
+
+		it('accepts a logout token for this client naming a sid or sub', async () => {
+			await expect(verifier.verifyLogoutToken(await logoutToken())).resolves.toMatchObject({
+				sid: 'sid-1'
+			});
+			await expect(
+				verifier.verifyLogoutToken(await logoutToken({ sid: undefined, sub: 'alice' }))
+			).resolves.toMatchObject({ sub: 'alice' });
+		});
+
+		it.each([
+			['without the logout event', { events: {} }, 'back-channel logout event'],
+			['without a jti', { jti: undefined }, 'no iat or jti'],
+			['without a sid or sub', { sid: undefined }, 'neither sub nor sid'],
+			['with a nonce', { nonce: 'n-1' }, 'must not contain a nonce'],
+			['for another client', { aud: 'someone-else' }, 'audience'],
+			['from another issuer', { iss: 'https://evil.example.com' }, 'issuer']
+		])('rejects a logout token %s', async (_, claims, message) => {
+			await expect(verifier.verifyLogoutToken(await logoutToken(claims))).rejects.toThrow(message);
+		});
+	});
+});
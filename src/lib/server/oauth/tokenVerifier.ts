@@ -0,0 +1,289 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('OIDCTokenVerifier');
+import type {
+	AccessTokenVerification,
+	OpenIdConnectConfiguration,
+	OAuth2AccessTokenPayload
+} from './types';
+
+export class TokenVerificationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'TokenVerificationError';
+		Object.setPrototypeOf(this, TokenVerificationError.prototype);
+	}
+}
+
+/** The provider's keys could not be fetched, so nothing could be verified */
+export class JWKSUnavailableError extends TokenVerificationError {
+	constructor(message: string) {
+		super(message);
+		this.name = 'JWKSUnavailableError';
+		Object.setPrototypeOf(this, JWKSUnavailableError.prototype);
+	}
+}
+
+export interface TokenVerifierOptions {
+	/** Leeway for exp/nbf/iat checks */
+	clockToleranceSeconds?: number;
+	/** How long fetched keys are trusted before the JWKS is fetched again */
+	jwksCacheTtlMs?: number;
+	/** Minimum gap between refetches triggered by an unknown `kid` */
+	jwksRefetchCooldownMs?: number;
+}
+
+interface JWK extends JsonWebKey {
+	kid?: string;
+	use?: string;
+	alg?: string;
+}
+
+type VerifyAlgorithm = {
+	importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+	verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+};
+
+/** JWS algorithms Web Crypto can verify. HS* and 'none' are never accepted. */
+const ALGORITHMS: Record<string, VerifyAlgorithm> = {
+	RS256: rsa('RSASSA-PKCS1-v1_5', 'SHA-256'),
+	RS384: rsa('RSASSA-PKCS1-v1_5', 'SHA-384'),
+	RS512: rsa('RSASSA-PKCS1-v1_5', 'SHA-512'),
+	PS256: { ...rsa('RSA-PSS', 'SHA-256'), verifyParams: { name: 'RSA-PSS', saltLength: 32 } },
+	PS384: { ...rsa('RSA-PSS', 'SHA-384'), verifyParams: { name: 'RSA-PSS', saltLength: 48 } },
+	PS512: { ...rsa('RSA-PSS', 'SHA-512'), verifyParams: { name: 'RSA-PSS', saltLength: 64 } },
+	ES256: ec('P-256', 'SHA-256'),
+	ES384: ec('P-384', 'SHA-384'),
+	ES512: ec('P-521', 'SHA-512'),
+	EdDSA: { importParams: { name: 'Ed25519' }, verifyParams: { name: 'Ed25519' } }
+};
+
+const BACKCHANNEL_LOGOUT_EVENT = 'http://schemas.openid.net/event/backchannel-logout';
+
+function rsa(name: string, hash: string): VerifyAlgorithm {
+	return { importParams: { name, hash }, verifyParams: { name } };
+}
+
+function ec(namedCurve: string, hash: string): VerifyAlgorithm {
+	return { importParams: { name: 'ECDSA', namedCurve }, verifyParams: { name: 'ECDSA', hash } };
+}
+
+function decodeSegment(segment: string): any {
+	try {
+		return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+	} catch {
+		throw new TokenVerificationError('Token is not a valid JWT');
+	}
+}
+
+/**
+ * Verifies JWTs issued by an OIDC provider: signature against the provider's JWKS
+ * (refetched when an unknown `kid` shows up, to follow key rotation), algorithm
+ * against id_token_signing_alg_values_supported, and iss/aud/exp/nbf/nonce claims.
+ */
+export class OIDCTokenVerifier {
+	private keys = new Map<string, { jwk: JWK; cryptoKeys: Map<string, CryptoKey> }>();
+	private fetchedAt = 0;
+	private fetching?: Promise<void>;
+	private clockToleranceSeconds: number;
+	private jwksCacheTtlMs: number;
+	private jwksRefetchCooldownMs: number;
+
+	constructor(
+		private config: OpenIdConnectConfiguration,
+		private clientId: string,
+		options: TokenVerifierOptions = {}
+	) {
+		this.clockToleranceSeconds = options.clockToleranceSeconds ?? 60;
+		this.jwksCacheTtlMs = options.jwksCacheTtlMs ?? 10 * 60_000;
+		this.jwksRefetchCooldownMs = options.jwksRefetchCooldownMs ?? 30_000;
+	}
+
+	/**
+	 * Verify an ID token from the token endpoint. `nonce` must match the one sent
+	 * with the authorization request, when one was sent.
+	 */
+	async verifyIdToken(idToken: string, nonce?: string): Promise<OAuth2AccessTokenPayload> {
+		const payload = await this.verify(idToken);
+
+		const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+		if (!audiences.includes(this.clientId)) {
+			throw new TokenVerificationError('ID token audience does not include this client');
+		}
+		if (audiences.length > 1 && payload.azp !== this.clientId) {
+			throw new TokenVerificationError('ID token azp does not match this client');
+		}
+		if (payload.exp === undefined) {
+			throw new TokenVerificationError('ID token has no exp claim');
+		}
+		if (nonce !== undefined && payload.nonce !== nonce) {
+			throw new TokenVerificationError('ID token nonce does not match');
+		}
+		return payload;
+	}
+
+	/**
+	 * Verify a back-channel logout token (OIDC Back-Channel Logout 1.0, section 2.6):
+	 * issued for this client, carrying the logout event, a jti, and a sub or sid, and
+	 * no nonce.
+	 */
+	async verifyLogoutToken(logoutToken: string): Promise<OAuth2AccessTokenPayload> {
+		const payload = await this.verify(logoutToken);
+
+		const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+		if (!audiences.includes(this.clientId)) {
+			throw new TokenVerificationError('Logout token audience does not include this client');
+		}
+		if (payload.iat === undefined || !payload.jti) {
+			throw new TokenVerificationError('Logout token has no iat or jti claim');
+		}
+		if (!payload.sub && !payload.sid) {
+			throw new TokenVerificationError('Logout token has neither sub nor sid');
+		}
+		if (typeof payload.events !== 'object' || !payload.events?.[BACKCHANNEL_LOGOUT_EVENT]) {
+			throw new TokenVerificationError('Logout token has no back-channel logout event');
+		}
+		if (payload.nonce !== undefined) {
+			throw new TokenVerificationError('Logout token must not contain a nonce');
+		}
+		return payload;
+	}
+
+	/**
+	 * Verify the signature, issuer and audience of a JWT access token. Expiry is not
+	 * enforced here; callers decide between refreshing and rejecting.
+	 */
+	async verifyAccessToken(
+		accessToken: string,
+		{ issuer, audience }: AccessTokenVerification = {}
+	): Promise<OAuth2AccessTokenPayload> {
+		const payload = await this.verify(accessToken, { checkExpiry: false, issuer });
+		if (audience !== undefined) {
+			const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+			if (!audiences.includes(audience)) {
+				throw new TokenVerificationError(`Access token audience does not include ${audience}`);
+			}
+		}
+		return payload;
+	}
+
+	private async verify(
+		token: string,
+		{ checkExpiry = true, issuer }: { checkExpiry?: boolean; issuer?: string } = {}
+	): Promise<OAuth2AccessTokenPayload> {
+		const parts = token.split('.');
+		if (parts.length !== 3) {
+			throw new TokenVerificationError('Token is not a signed JWT');
+		}
+		const [encodedHeader, encodedPayload, encodedSignature] = parts;
+		const header = decodeSegment(encodedHeader);
+		const payload: OAuth2AccessTokenPayload = decodeSegment(encodedPayload);
+
+		const alg: string = header.alg;
+		const allowed = this.config.id_token_signing_alg_values_supported ?? ['RS256'];
+		if (!alg || alg === 'none' || !allowed.includes(alg) || !ALGORITHMS[alg]) {
+			throw new TokenVerificationError(`Token signing algorithm ${alg} is not accepted`);
+		}
+
+		const key = await this.getKey(header.kid, alg);
+		const valid = await crypto.subtle.verify(
+			ALGORITHMS[alg].verifyParams,
+			key,
+			Buffer.from(encodedSignature, 'base64url'),
+			new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+		);
+		if (!valid) {
+			throw new TokenVerificationError('Token signature is invalid');
+		}
+
+		const expectedIssuer = issuer ?? this.config.issuer;
+		if (payload.iss !== expectedIssuer) {
+			throw new TokenVerificationError(`Token issuer ${payload.iss} is not ${expectedIssuer}`);
+		}
+
+		const now = Date.now() / 1000;
+		if (
+			checkExpiry &&
+			payload.exp !== undefined &&
+			now > payload.exp + this.clockToleranceSeconds
+		) {
+			throw new TokenVerificationError('Token has expired');
+		}
+		if (payload.nbf !== undefined && now < payload.nbf - this.clockToleranceSeconds) {
+			throw new TokenVerificationError('Token is not valid yet');
+		}
+		return payload;
+	}
+
+	private async getKey(kid: string | undefined, alg: string): Promise<CryptoKey> {
+		if (Date.now() - this.fetchedAt > this.jwksCacheTtlMs) {
+			await this.refreshKeys();
+		}
+
+		let entry = this.findKey(kid, alg);
+		if (!entry && Date.now() - this.fetchedAt > this.jwksRefetchCooldownMs) {
+			// Unknown kid: the provider may have rotated its keys
+			logger.info(`Signing key ${kid ?? '(no kid)'} not in JWKS cache, refetching`);
+			await this.refreshKeys();
+			entry = this.findKey(kid, alg);
+		}
+		if (!entry) {
+			throw new TokenVerificationError(`No signing key ${kid ?? ''} found for ${alg}`);
+		}
+
+		let cryptoKey = entry.cryptoKeys.get(alg);
+		if (!cryptoKey) {
+			cryptoKey = await crypto.subtle.importKey(
+				'jwk',
+				entry.jwk,
+				ALGORITHMS[alg].importParams,
+				false,
+				['verify']
+			);
+			entry.cryptoKeys.set(alg, cryptoKey);
+		}
+		return cryptoKey;
+	}
+
+	private findKey(kid: string | undefined, alg: string) {
+		if (kid) return this.keys.get(kid);
+		// Without a kid, a provider with a single matching key is unambiguous
+		const candidates = [...this.keys.values()].filter((k) => !k.jwk.alg || k.jwk.alg === alg);
+		return candidates.length === 1 ? candidates[0] : undefined;
+	}
+
+	private async refreshKeys(): Promise<void> {
+		// Concurrent verifications share one fetch
+		this.fetching ??= this.fetchKeys().finally(() => {
+			this.fetching = undefined;
+		});
+		return this.fetching;
+	}
+
+	private async fetchKeys(): Promise<void> {
+		const jwksUri = this.config.jwks_uri;
+		if (!jwksUri) {
+			throw new JWKSUnavailableError('OIDC configuration has no jwks_uri');
+		}
+
+		let jwks: { keys?: JWK[] };
+		try {
+			const response = await fetch(jwksUri, { signal: AbortSignal.timeout(10_000) });
+			if (!response.ok) {
+				throw new Error(`${response.status} ${response.statusText}`);
+			}
+			jwks = await response.json();
+		} catch (error) {
+			throw new JWKSUnavailableError(`Failed to fetch JWKS from ${jwksUri}: ${error}`);
+		}
+
+		const keys = new Map<string, { jwk: JWK; cryptoKeys: Map<string, CryptoKey> }>();
+		(jwks.keys ?? [])
+			.filter((jwk) => !jwk.use || jwk.use === 'sig')
+			.forEach((jwk, i) => {
+				keys.set(jwk.kid ?? `#${i}`, { jwk, cryptoKeys: new Map() });
+			});
+		this.keys = keys;
+		this.fetchedAt = Date.now();
+		logger.debug(`Fetched ${keys.size} signing keys from ${jwksUri}`);
+	}
+}
@@ -40,6 +40,7 @@ export interface OpenIdConnectConfiguration {
     op_tos_uri?: string;
     registration_endpoint?: string;
     dpop_signing_alg_values_supported?: string[];
+    code_challenge_methods_supported?: string[];
 }
 
 export interface OAuth2AccessTokenPayload {
@@ -53,4 +54,50 @@ export interface OAuth2AccessTokenPayload {
     scope?: string;
     client_id?: string;
     [key: string]: any; // Allow additional properties
-}
\ No newline at end of file
+}
+
+/** How the client authenticates at the token endpoint (RFC 7591 names) */
+export type TokenEndpointAuthMethod = 'client_secret_basic' | 'client_secret_post' | 'none';
+
+/** Which ID token claims hold the user's identity, for providers that don't use the standard names */
+export interface OIDCClaimMapping {
+    userId?: string;
+    email?: string;
+    username?: string;
+    name?: string;
+}
+
+export interface OIDCUserClaims {
+    userId?: string;
+    email?: string;
+    username?: string;
+    name?: string;
+}
+
+/**
+ * What a provider's JWT access tokens are checked against. Either value opts the
+ * provider into access token verification; the issuer defaults to the OIDC issuer.
+ */
+export interface AccessTokenVerification {
+    issuer?: string;
+    audience?: string;
+}
+
+export interface OAuth2ClientOptions {
+    /** Scopes requested at login. Defaults to openid, email and profile. */
+    scopes?: string[];
+    /**
+     * Defaults to client_secret_basic, retrying with client_secret_post on a 401,
+     * or none for clients without a secret.
+     */
+    tokenEndpointAuthMethod?: TokenEndpointAuthMethod;
+    /** Extra authorization request parameters, e.g. prompt, hd or audience */
+    authorizationParams?: Record<string, string>;
+    /** Where to read the user's identity; its email and username fill in what OBP lacks at login */
+    claimMapping?: OIDCClaimMapping;
+    /**
+     * Verify JWT access tokens against the provider's JWKS. Without it their exp claim
+     * is read unverified, since they're meant for OBP rather than this client.
+     */
+    accessTokenVerification?: AccessTokenVerification;
+}
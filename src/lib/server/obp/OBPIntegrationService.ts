@@ -2,8 +2,8 @@ import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('OBPIntegrationService');
 import { extractUsernameFromJWT } from '$lib/utils/jwt';
 import type { Session } from 'svelte-kit-sessions';
-import type { OBPRequests } from '$lib/obp/requests';
-import type { OBPConsent, OBPConsentInfo } from '$lib/obp/types';
+import type { OBPClient } from '$lib/obp/client';
+import type { OBPConsent, OBPConsentInfo, OBPImplicitConsentBody } from '$lib/obp/types';
 
 export interface OBPIntegrationService {
   getOrCreateOpeyConsent(session: Session): Promise<OBPConsent>;
@@ -13,7 +13,9 @@ export interface OBPIntegrationService {
 export class DefaultOBPIntegrationService implements OBPIntegrationService {
   constructor(
     private opeyConsumerId: string,
-    private obpRequests: OBPRequests
+    private obp: OBPClient,
+    /** Lifetime of the general Opey consent created for a new session */
+    private consentTimeToLiveSeconds: number = 3600
   ) {}
 
   async getOrCreateOpeyConsent(session: Session): Promise<OBPConsent> {
@@ -65,8 +67,7 @@ export class DefaultOBPIntegrationService implements OBPIntegrationService {
     }
 
     try {
-      const response = await this.obpRequests.get('/obp/v5.1.0/my/consents', session.data.oauth.access_token);
-      const consents = response.consents || [];
+      const consents = await this.obp.consents.mine(session.data.oauth.access_token);
 
 			logger.debug(`checkExistingOpeyConsent: Found ${consents.length} total consents`);
 			logger.debug(`checkExistingOpeyConsent: Looking for consumer_id: ${this.opeyConsumerId}`);
@@ -106,19 +107,42 @@ export class DefaultOBPIntegrationService implements OBPIntegrationService {
 		}
 	}
 
+	/**
+	 * Revoke the user's accepted consents for Opey, e.g. on logout, so an Opey session
+	 * holding one loses access. Failures are logged. Returns how many were revoked.
+	 */
+	async revokeOpeyConsents(accessToken: string): Promise<number> {
+		const opeyConsents = (await this.obp.consents.mine(accessToken)).filter(
+			(consent) =>
+				consent.consumer_id === this.opeyConsumerId && consent.status === 'ACCEPTED'
+		);
+
+		let revoked = 0;
+		for (const consent of opeyConsents) {
+			try {
+				await this.obp.consents.revoke(consent.consent_id, accessToken);
+				revoked++;
+			} catch (error) {
+				logger.warn(`revokeOpeyConsents: Failed to revoke consent ${consent.consent_id}:`, error);
+			}
+		}
+		logger.info(`revokeOpeyConsents: Revoked ${revoked} of ${opeyConsents.length} Opey consent(s)`);
+		return revoked;
+	}
+
 	private async createImplicitConsent(accessToken: string): Promise<OBPConsent> {
 		const now = new Date().toISOString().split('.')[0] + 'Z';
 
-		const body = {
+		const body: OBPImplicitConsentBody = {
 			everything: true,
 			entitlements: [],
 			consumer_id: this.opeyConsumerId,
 			views: [],
 			valid_from: now,
-			time_to_live: 3600
+			time_to_live: this.consentTimeToLiveSeconds
 		};
 
-		const consent = await this.obpRequests.post('/obp/v5.1.0/my/consents/IMPLICIT', body, accessToken);
+		const consent = await this.obp.consents.createImplicit(body, accessToken);
 		const userIdentifier = extractUsernameFromJWT(consent.jwt);
 		logger.info(
 			`createImplicitConsent says: Created implicit consent - Primary user: ${userIdentifier}`
@@ -0,0 +1,48 @@
+import type { RedisService } from '$lib/server/redis/RedisService';
+import type { OBPCacheEntry, OBPCacheStore } from '$lib/obp/responseCache';
+
+/** Escape Redis glob characters so a prefix can be used in SCAN MATCH */
+function escapeGlob(value: string): string {
+	return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/** OBPResponseCache store shared by every app instance through Redis. */
+export class RedisResponseCacheStore implements OBPCacheStore {
+	private redisService: RedisService;
+	private keyPrefix: string;
+
+	constructor({
+		redisService,
+		keyPrefix = 'obp-portal:response-cache:'
+	}: {
+		redisService: RedisService;
+		keyPrefix?: string;
+	}) {
+		this.redisService = redisService;
+		this.keyPrefix = keyPrefix;
+	}
+
+	async get(key: string): Promise<OBPCacheEntry | undefined> {
+		const raw = await this.redisService.getClient().get(this.keyPrefix + key);
+		return raw ? JSON.parse(raw) : undefined;
+	}
+
+	async set(key: string, entry: OBPCacheEntry, retainMs: number): Promise<void> {
+		await this.redisService
+			.getClient()
+			.set(this.keyPrefix + key, JSON.stringify(entry), 'PX', Math.max(1, Math.round(retainMs)));
+	}
+
+	async deleteByPrefix(prefix: string): Promise<void> {
+		const redis = this.redisService.getClient();
+		const match = `${escapeGlob(this.keyPrefix + prefix)}*`;
+		let cursor = '0';
+		do {
+			const [next, keys] = await redis.scan(cursor, 'MATCH', match, 'COUNT', 100);
+			if (keys.length > 0) {
+				await redis.del(...keys);
+			}
+			cursor = next;
+		} while (cursor !== '0');
+	}
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { requestEntitlements } from './entitlementRequests';
+import { OBPClient } from '$lib/obp/client';
+import type { OBPRequests } from '$lib/obp/requests';
+
+const catalogue = [
+	{ role: 'CanCreateAccount', requires_bank_id: true },
+	{ role: 'CanGetAnyUser', requires_bank_id: false }
+];
+
+function fakeRequests(existing: Array<{ role_name: string; bank_id: string }> = []) {
+	return {
+		get: vi.fn(async () => ({
+			entitlement_requests: existing.map((r, i) => ({ entitlement_request_id: `er-${i}`, ...r }))
+		})),
+		post: vi.fn(async (_path: string, body: { role_name: string; bank_id: string }) => ({
+			entitlement_request_id: `new-${body.role_name}`,
+			...body,
+			created: '2026-01-01T00:00:00Z'
+		}))
+	};
+}
+
+describe('requestEntitlements', () => {
+	it('requests bank-scoped roles at the bank and system roles without one', async () => {
+		const requests = fakeRequests();
+
+		const created = await requestEntitlements(
+			new OBPClient(requests as unknown as OBPRequests),
+			'token',
+			['CanCreateAccount', 'CanGetAnyUser'],
+			'gh.29.uk',
+			catalogue
+		);
+
+		expect(requests.post.mock.calls.map(([, body]) => body)).toEqual([
+			{ bank_id: 'gh.29.uk', role_name: 'CanCreateAccount' },
+			{ bank_id: '', role_name: 'CanGetAnyUser' }
+		]);
+		expect(created.map((r) => [r.roleName, r.bankId])).toEqual([
+			['CanCreateAccount', 'gh.29.uk'],
+			['CanGetAnyUser', undefined]
+		]);
+	});
+
+	it('skips roles already requested at the same bank only', async () => {
+		const requests = fakeRequests([{ role_name: 'CanCreateAccount', bank_id: 'other-bank' }]);
+
+		await requestEntitlements(
+			new OBPClient(requests as unknown as OBPRequests),
+			'token',
+			['CanCreateAccount'],
+			'gh.29.uk',
+			catalogue
+		);
+		expect(requests.post).toHaveBeenCalledOnce();
+
+		const pending = fakeRequests([{ role_name: 'CanCreateAccount', bank_id: 'gh.29.uk' }]);
+		await requestEntitlements(
+			new OBPClient(pending as unknown as OBPRequests),
+			'token',
+			['CanCreateAccount'],
+			'gh.29.uk',
+			catalogue
+		);
+		expect(pending.post).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,60 @@
+import { createLogger } from '$lib/utils/logger';
+import type { OBPClient } from '$lib/obp/client';
+import type { OBPEntitlementRequest } from '$lib/obp/types';
+import type { OBPRoleInfo } from '$lib/opey/utils/roles';
+import type { PendingEntitlementRequest } from '$lib/opey/services/EntitlementRequestService';
+
+const logger = createLogger('EntitlementRequests');
+
+function toPendingRequest(raw: OBPEntitlementRequest): PendingEntitlementRequest {
+	return {
+		entitlementRequestId: raw.entitlement_request_id,
+		roleName: raw.role_name,
+		bankId: raw.bank_id || undefined,
+		created: raw.created
+	};
+}
+
+/** The current user's entitlement requests that haven't been granted or rejected yet. */
+export async function getMyEntitlementRequests(
+	obp: OBPClient,
+	accessToken: string
+): Promise<PendingEntitlementRequest[]> {
+	const requests = await obp.entitlements.myRequests(accessToken);
+	return requests.map(toPendingRequest);
+}
+
+/**
+ * Ask for the given roles. Bank-scoped roles are requested at `bankId`, system roles
+ * without one. Roles the user already has a request for are skipped.
+ */
+export async function requestEntitlements(
+	obp: OBPClient,
+	accessToken: string,
+	roles: string[],
+	bankId: string | undefined,
+	catalogue: OBPRoleInfo[]
+): Promise<PendingEntitlementRequest[]> {
+	const existing = await getMyEntitlementRequests(obp, accessToken);
+	const requiresBankId = new Map(catalogue.map((r) => [r.role, r.requires_bank_id]));
+	const created: PendingEntitlementRequest[] = [];
+
+	for (const roleName of roles) {
+		// Without a catalogue entry, go by whether the consent was bank-scoped
+		const bankScoped = requiresBankId.get(roleName) ?? !!bankId;
+		const roleBankId = bankScoped ? (bankId ?? '') : '';
+		if (existing.some((r) => r.roleName === roleName && (r.bankId ?? '') === roleBankId)) {
+			logger.debug(`Entitlement request for ${roleName} already pending`);
+			continue;
+		}
+
+		const response = await obp.entitlements.request(
+			{ bank_id: roleBankId, role_name: roleName },
+			accessToken
+		);
+		logger.info(`Requested entitlement ${roleName}${roleBankId ? ` at ${roleBankId}` : ''}`);
+		created.push(toPendingRequest(response));
+	}
+
+	return created;
+}
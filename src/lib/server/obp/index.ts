@@ -2,3 +2,7 @@ export { DefaultOBPIntegrationService } from './OBPIntegrationService.js';
 export type { OBPIntegrationService } from './OBPIntegrationService.js';
 export { getOperationIds } from './operationIdsCache.js';
 export type { OperationIdEntry } from './operationIdsCache.js';
+export { getRoleCatalogue } from './roleCatalogueCache.js';
+export type { RoleCatalogue } from './roleCatalogueCache.js';
+export { getMyEntitlementRequests, requestEntitlements } from './entitlementRequests.js';
+export { RedisResponseCacheStore } from './RedisResponseCacheStore.js';
@@ -6,6 +6,7 @@ const logger = createLogger('OperationIdsCache');
 
 const CACHE_KEY = 'obp-portal:operation-ids';
 const CACHE_TTL_SECONDS = 3600; // 1 hour
+const MAX_RESOURCE_DOCS = 10_000;
 
 export interface OperationIdEntry {
 	operation_id: string;
@@ -37,13 +38,14 @@ export async function getOperationIds(
 	let operations: OperationIdEntry[] = [];
 
 	try {
-		const docsResponse = await obpRequests.get(
+		const resourceDocs = await obpRequests.fetchAll(
 			`/obp/${apiVersion}/resource-docs/${apiVersion}/obp`,
-			token
+			token,
+			{ itemsKey: 'resource_docs', maxItems: MAX_RESOURCE_DOCS }
 		);
 
-		if (docsResponse?.resource_docs) {
-			operations = docsResponse.resource_docs.map((doc: any) => ({
+		if (resourceDocs.length > 0) {
+			operations = resourceDocs.map((doc: any) => ({
 				operation_id: doc.operation_id,
 				summary: doc.summary || ''
 			}));
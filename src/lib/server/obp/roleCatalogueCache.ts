@@ -0,0 +1,78 @@
+import { createLogger } from '$lib/utils/logger';
+import type { RedisService } from '$lib/server/redis/RedisService';
+import type { OBPClient } from '$lib/obp/client';
+import {
+	ROLE_SUPERSEDED_BY,
+	deriveRoleSupersession,
+	type OBPRoleInfo,
+	type RoleSupersession
+} from '$lib/opey/utils/roles';
+
+const logger = createLogger('RoleCatalogueCache');
+
+const CACHE_KEY = 'obp-portal:role-catalogue';
+const CACHE_TTL_SECONDS = 6 * 3600; // 6 hours
+
+export interface RoleCatalogue {
+	/** Every role OBP knows about; empty when falling back to the static table */
+	roles: OBPRoleInfo[];
+	supersededBy: RoleSupersession;
+	/** 'fallback' means OBP couldn't be reached and the static table is in use */
+	source: 'obp' | 'fallback';
+}
+
+/**
+ * Get OBP's role list and the supersession map derived from it, cached in Redis.
+ * Falls back to the static ROLE_SUPERSEDED_BY table when OBP can't be reached,
+ * without caching the fallback so the next call tries again.
+ */
+export async function getRoleCatalogue(
+	redisService: RedisService,
+	obp: OBPClient,
+	token?: string
+): Promise<RoleCatalogue> {
+	const redis = redisService.getClient();
+
+	// Try to get from cache first
+	try {
+		const cached = await redis.get(CACHE_KEY);
+		if (cached) {
+			logger.debug('Role catalogue cache hit');
+			return JSON.parse(cached);
+		}
+	} catch (e) {
+		logger.warn('Failed to read from cache:', e);
+	}
+
+	// Cache miss - fetch from API
+	logger.debug('Role catalogue cache miss, fetching from API');
+	try {
+		const response = await obp.requests.get(obp.path('/roles'), token);
+		const roles: OBPRoleInfo[] = (response?.roles ?? []).map((r: any) => ({
+			role: r.role,
+			requires_bank_id: !!r.requires_bank_id
+		}));
+
+		if (roles.length > 0) {
+			const catalogue: RoleCatalogue = {
+				roles,
+				supersededBy: deriveRoleSupersession(roles),
+				source: 'obp'
+			};
+
+			// Store in cache
+			try {
+				await redis.setex(CACHE_KEY, CACHE_TTL_SECONDS, JSON.stringify(catalogue));
+				logger.debug(`Cached ${roles.length} roles for ${CACHE_TTL_SECONDS}s`);
+			} catch (e) {
+				logger.warn('Failed to write to cache:', e);
+			}
+			return catalogue;
+		}
+		logger.warn('OBP returned no roles, using the static supersession table');
+	} catch (e) {
+		logger.error('Failed to fetch roles, using the static supersession table:', e);
+	}
+
+	return { roles: [], supersededBy: ROLE_SUPERSEDED_BY, source: 'fallback' };
+}
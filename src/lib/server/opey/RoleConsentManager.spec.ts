@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RoleConsentManager } from './RoleConsentManager';
+import { FakeRedis, fakeRedisService } from '../testing/FakeRedis';
+import { OBPClient } from '../../obp/client';
+import type { OBPRequests } from '../../obp/requests';
+
+const scope = { requiredRoles: ['CanGetAnyUser'], bankId: 'gh.29.uk' };
+
+describe('RoleConsentManager', () => {
+	let obpRequests: { get: any; post: any; delete: any };
+	let manager: RoleConsentManager;
+	let consentCount: number;
+
+	beforeEach(() => {
+		consentCount = 0;
+		obpRequests = {
+			get: vi.fn(async () => ({ status: 'ACCEPTED' })),
+			post: vi.fn(async () => ({
+				consent_id: `consent-${++consentCount}`,
+				jwt: `jwt-${consentCount}`,
+				status: 'ACCEPTED'
+			})),
+			delete: vi.fn(async () => {})
+		};
+		manager = new RoleConsentManager({
+			redisService: fakeRedisService(new FakeRedis()),
+			obp: new OBPClient(obpRequests as unknown as OBPRequests)
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function create(timeToLiveSeconds = 3600) {
+		return manager.create({
+			...scope,
+			userId: 'user-1',
+			accessToken: 'token',
+			consumerId: 'opey',
+			roles: ['CanGetAnyUser'],
+			timeToLiveSeconds
+		});
+	}
+
+	it('reuses a consent for the same scope while OBP still accepts it', async () => {
+		await create();
+
+		const reused = await manager.findReusable('user-1', 'token', scope);
+
+		expect(reused).toMatchObject({ consentId: 'consent-1', jwt: 'jwt-1' });
+		// Never from the response cache, which could still say ACCEPTED after a revocation
+		expect(obpRequests.get).toHaveBeenCalledWith(
+			'/obp/v5.1.0/user/current/consents/consent-1',
+			'token',
+			{ cacheTtlMs: 0 }
+		);
+		expect(
+			await manager.findReusable('user-1', 'token', { requiredRoles: ['CanGetAnyUser'] })
+		).toBe(null);
+	});
+
+	it('does not reuse a consent with another lifetime', async () => {
+		await create(600);
+
+		expect(await manager.findReusable('user-1', 'token', scope)).toBe(null);
+		expect(
+			await manager.findReusable('user-1', 'token', { ...scope, timeToLiveSeconds: 600 })
+		).toMatchObject({ consentId: 'consent-1' });
+	});
+
+	it('drops a cached consent that was revoked at OBP', async () => {
+		await create();
+		obpRequests.get.mockResolvedValue({ status: 'REVOKED' });
+
+		expect(await manager.findReusable('user-1', 'token', scope)).toBe(null);
+		expect(await manager.list('user-1')).toEqual([]);
+	});
+
+	it('does not reuse a consent that is about to expire', async () => {
+		vi.useFakeTimers();
+		await create(120);
+
+		vi.advanceTimersByTime(90 * 1000);
+
+		expect(
+			await manager.findReusable('user-1', 'token', { ...scope, timeToLiveSeconds: 120 })
+		).toBe(null);
+		expect(obpRequests.get).not.toHaveBeenCalled();
+		expect(await manager.list('user-1')).toHaveLength(1);
+
+		vi.advanceTimersByTime(60 * 1000);
+
+		expect(await manager.list('user-1')).toEqual([]);
+	});
+
+	it('revokes every live consent at OBP on revokeAll, even if one fails', async () => {
+		await create();
+		await manager.create({
+			userId: 'user-1',
+			accessToken: 'token',
+			consumerId: 'opey',
+			requiredRoles: ['CanCreateAccount'],
+			roles: ['CanCreateAccount']
+		});
+		obpRequests.delete.mockRejectedValueOnce(new Error('OBP unavailable'));
+
+		await manager.revokeAll('user-1', 'token');
+
+		expect(obpRequests.delete.mock.calls.map(([path]: [string]) => path)).toEqual([
+			'/obp/v5.1.0/my/consents/consent-1',
+			'/obp/v5.1.0/my/consents/consent-2'
+		]);
+		expect(await manager.list('user-1')).toEqual([]);
+	});
+});
@@ -0,0 +1,244 @@
+import { createLogger } from '../../utils/logger.js';
+import type { RedisService } from '../redis/RedisService.js';
+import type { OBPClient } from '../../obp/client.js';
+import type { OBPConsent } from '../../obp/types.js';
+import type { ActiveRoleConsent } from '../../opey/services/RoleConsentService.js';
+import type { ConsentViewScope } from '../../opey/utils/consentPolicy.js';
+
+const logger = createLogger('RoleConsentManager');
+
+const DEFAULT_TIME_TO_LIVE_SECONDS = 3600;
+// Don't hand out a consent that would expire before Opey gets to use it
+const REUSE_MARGIN_SECONDS = 60;
+
+export interface RoleConsentManagerConfig {
+	redisService: RedisService;
+	obp: OBPClient;
+	keyPrefix?: string;
+}
+
+/** A cached consent, including the JWT that is passed on to Opey */
+export interface StoredRoleConsent extends ActiveRoleConsent {
+	jwt: string;
+	/** Consent status reported by OBP when it was created */
+	status: string;
+	/** The roles the consent was requested for, before picking from the user's entitlements */
+	requiredRoles: string[];
+}
+
+/** What a consent is for. Consents are reused only for an identical scope. */
+export interface RoleConsentScope {
+	/** Roles requested, after applying the user's choices */
+	requiredRoles: string[];
+	bankId?: string;
+	views?: ConsentViewScope[];
+	/** Defaults to an hour */
+	timeToLiveSeconds?: number;
+}
+
+export interface CreateRoleConsentParams extends RoleConsentScope {
+	userId: string;
+	accessToken: string;
+	consumerId: string;
+	/** Roles to put in the consent */
+	roles: string[];
+}
+
+/**
+ * Creates role-specific IMPLICIT consents at OBP and keeps them in Redis per user,
+ * keyed by the required roles, bank, views and lifetime, so the same request reuses a
+ * consent until it expires. A cached consent is checked at OBP before reuse, since it may
+ * have been revoked there. Consents are revoked at OBP when the user asks or logs out.
+ */
+export class RoleConsentManager {
+	private keyPrefix: string;
+
+	constructor(private config: RoleConsentManagerConfig) {
+		this.keyPrefix = config.keyPrefix ?? 'opey-role-consents';
+	}
+
+	private userKey(userId: string): string {
+		return `${this.keyPrefix}:${userId}`;
+	}
+
+	private scopeKey(scope: RoleConsentScope): string {
+		const views = (scope.views ?? [])
+			.map((view) => `${view.bank_id}/${view.account_id}/${view.view_id}`)
+			.sort();
+		return [
+			scope.bankId ?? '',
+			[...scope.requiredRoles].sort().join(','),
+			views.join(','),
+			scope.timeToLiveSeconds ?? DEFAULT_TIME_TO_LIVE_SECONDS
+		].join('|');
+	}
+
+	private isUsable(consent: StoredRoleConsent): boolean {
+		return Date.parse(consent.expiresAt) - REUSE_MARGIN_SECONDS * 1000 > Date.now();
+	}
+
+	private async readAll(userId: string): Promise<Map<string, StoredRoleConsent>> {
+		const entries = await this.config.redisService.getClient().hgetall(this.userKey(userId));
+		return new Map(Object.entries(entries).map(([scope, raw]) => [scope, JSON.parse(raw)]));
+	}
+
+	/**
+	 * Find an unexpired consent for exactly this scope that OBP still reports as
+	 * ACCEPTED. Consents that are no longer usable are dropped from the cache.
+	 */
+	async findReusable(
+		userId: string,
+		accessToken: string,
+		scope: RoleConsentScope
+	): Promise<StoredRoleConsent | null> {
+		const redis = this.config.redisService.getClient();
+		const key = this.userKey(userId);
+		const raw = await redis.hget(key, this.scopeKey(scope));
+		if (!raw) return null;
+
+		const consent: StoredRoleConsent = JSON.parse(raw);
+		if (!this.isUsable(consent)) {
+			logger.debug(`Cached consent ${consent.consentId} has expired`);
+			return null;
+		}
+
+		let status: string;
+		try {
+			status = await this.statusAtOBP(consent.consentId, accessToken);
+		} catch (error) {
+			// Can't tell whether it still works; a new consent is the safe choice
+			logger.warn(`Failed to check the status of consent ${consent.consentId}:`, error);
+			return null;
+		}
+		if (status !== 'ACCEPTED') {
+			logger.info(`Cached consent ${consent.consentId} is ${status} at OBP, dropping it`);
+			await redis.hdel(key, this.scopeKey(scope));
+			return null;
+		}
+		return { ...consent, status };
+	}
+
+	/** Create a consent at OBP and cache it for reuse. */
+	async create(params: CreateRoleConsentParams): Promise<StoredRoleConsent> {
+		const timeToLive = params.timeToLiveSeconds ?? DEFAULT_TIME_TO_LIVE_SECONDS;
+		const now = new Date().toISOString().split('.')[0] + 'Z';
+
+		const consent: OBPConsent = await this.config.obp.consents.createImplicit(
+			{
+				everything: false,
+				entitlements: params.roles.map((roleName) => ({
+					role_name: roleName,
+					bank_id: params.bankId || ''
+				})),
+				consumer_id: params.consumerId,
+				views: params.views ?? [],
+				valid_from: now,
+				time_to_live: timeToLive
+			},
+			params.accessToken
+		);
+
+		const expiresAt = consent.jwt_payload?.exp
+			? new Date(consent.jwt_payload.exp * 1000)
+			: new Date(Date.now() + timeToLive * 1000);
+
+		const stored: StoredRoleConsent = {
+			consentId: consent.consent_id,
+			jwt: consent.jwt,
+			status: consent.status,
+			roles: params.roles,
+			requiredRoles: params.requiredRoles,
+			bankId: params.bankId || undefined,
+			views: params.views?.length ? params.views : undefined,
+			createdAt: new Date().toISOString(),
+			expiresAt: expiresAt.toISOString()
+		};
+
+		const key = this.userKey(params.userId);
+		const redis = this.config.redisService.getClient();
+		await redis.hset(key, this.scopeKey(params), JSON.stringify(stored));
+		// Keep the hash until its longest-lived consent has expired
+		const ttl = await redis.ttl(key);
+		const secondsLeft = Math.ceil((expiresAt.getTime() - Date.now()) / 1000);
+		if (ttl < secondsLeft) {
+			await redis.expire(key, secondsLeft);
+		}
+
+		logger.info(`Created consent ${stored.consentId} for roles ${stored.roles.join(', ')}`);
+		return stored;
+	}
+
+	/** Unexpired consents for a user, soonest expiry first. Expired ones are dropped. */
+	async list(userId: string): Promise<ActiveRoleConsent[]> {
+		const consents = await this.readAll(userId);
+		const active: ActiveRoleConsent[] = [];
+		const expired: string[] = [];
+
+		for (const [scope, consent] of consents) {
+			if (Date.parse(consent.expiresAt) > Date.now()) {
+				active.push({
+					consentId: consent.consentId,
+					roles: consent.roles,
+					bankId: consent.bankId,
+					views: consent.views,
+					createdAt: consent.createdAt,
+					expiresAt: consent.expiresAt
+				});
+			} else {
+				expired.push(scope);
+			}
+		}
+
+		if (expired.length > 0) {
+			await this.config.redisService.getClient().hdel(this.userKey(userId), ...expired);
+		}
+		return active.sort((a, b) => a.expiresAt.localeCompare(b.expiresAt));
+	}
+
+	/**
+	 * Revoke one consent at OBP and forget it.
+	 * Returns false if the user has no such consent.
+	 */
+	async revoke(userId: string, accessToken: string, consentId: string): Promise<boolean> {
+		const consents = await this.readAll(userId);
+		const scope = [...consents].find(([, consent]) => consent.consentId === consentId)?.[0];
+		if (!scope) return false;
+
+		await this.revokeAtOBP(consentId, accessToken);
+		await this.config.redisService.getClient().hdel(this.userKey(userId), scope);
+		logger.info(`Revoked consent ${consentId}`);
+		return true;
+	}
+
+	/**
+	 * Revoke every cached consent for a user, e.g. on logout.
+	 * Failures at OBP are logged and the cache is cleared regardless.
+	 */
+	async revokeAll(userId: string, accessToken: string): Promise<void> {
+		const consents = await this.readAll(userId);
+		let revoked = 0;
+
+		for (const consent of consents.values()) {
+			if (Date.parse(consent.expiresAt) <= Date.now()) continue;
+			try {
+				await this.revokeAtOBP(consent.consentId, accessToken);
+				revoked++;
+			} catch (error) {
+				logger.warn(`Failed to revoke consent ${consent.consentId}:`, error);
+			}
+		}
+
+		await this.config.redisService.getClient().del(this.userKey(userId));
+		logger.info(`Revoked ${revoked} consent(s) for user ${userId}`);
+	}
+
+	private async statusAtOBP(consentId: string, accessToken: string): Promise<string> {
+		// Straight from OBP: a cached ACCEPTED would hide a revocation
+		const consent = await this.config.obp.consents.get(consentId, accessToken, { cacheTtlMs: 0 });
+		return consent.status;
+	}
+
+	private async revokeAtOBP(consentId: string, accessToken: string): Promise<void> {
+		await this.config.obp.consents.revoke(consentId, accessToken);
+	}
+}
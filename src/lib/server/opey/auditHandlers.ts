@@ -0,0 +1,133 @@
+import type { RequestHandler } from '@sveltejs/kit';
+import { json } from '@sveltejs/kit';
+import { createLogger } from '../../utils/logger.js';
+import { createWithUser, type GetUserId } from './requestUser.js';
+import type { RedisService } from '../redis/RedisService.js';
+import type {
+	ApprovalAuditEntry,
+	RecordedApprovalAuditEntry
+} from '../../opey/services/ApprovalAuditLog.js';
+
+const logger = createLogger('ApprovalAuditHandler');
+
+export interface ApprovalAuditHandlerConfig {
+	redisService: RedisService;
+	getUserId: GetUserId;
+	keyPrefix?: string;
+}
+
+const CSV_COLUMNS: Array<keyof RecordedApprovalAuditEntry> = [
+	'id',
+	'recordedAt',
+	'timestamp',
+	'userId',
+	'kind',
+	'threadId',
+	'toolCallId',
+	'toolName',
+	'decision',
+	'decidedBy',
+	'ruleName',
+	'approvalLevel',
+	'riskLevel',
+	'toolStatus',
+	'affectedResources',
+	'toolInput'
+];
+
+function csvCell(value: unknown): string {
+	if (value === undefined || value === null) return '';
+	let text = typeof value === 'string' ? value : JSON.stringify(value);
+	// Spreadsheets would run text starting with these as a formula
+	if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(entries: RecordedApprovalAuditEntry[]): string {
+	const rows = entries.map((entry) =>
+		CSV_COLUMNS.map((column) => csvCell(entry[column])).join(',')
+	);
+	return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+function isAuditEntry(body: any): body is ApprovalAuditEntry {
+	return (
+		!!body &&
+		(body.kind === 'decision' || body.kind === 'outcome') &&
+		(body.decision === 'approved' || body.decision === 'denied') &&
+		(body.decidedBy === 'user' || body.decidedBy === 'policy') &&
+		typeof body.threadId === 'string' &&
+		typeof body.toolCallId === 'string' &&
+		typeof body.toolName === 'string' &&
+		typeof body.toolStatus === 'string' &&
+		typeof body.timestamp === 'string'
+	);
+}
+
+/**
+ * Route handlers backing ServerApprovalAuditLog.
+ *
+ * Mount at e.g. /api/opey/audit. Entries are appended to a Redis stream per user,
+ * which is never trimmed or expired, so the trail can only grow.
+ * POST records an entry; GET exports the trail as JSON, or CSV with `?format=csv`,
+ * optionally filtered with `?threadId=`.
+ */
+export function createApprovalAuditHandlers(config: ApprovalAuditHandlerConfig): {
+	POST: RequestHandler;
+	GET: RequestHandler;
+} {
+	const { redisService, getUserId } = config;
+	const keyPrefix = config.keyPrefix ?? 'opey-approval-audit';
+
+	const streamKey = (userId: string) => `${keyPrefix}:${userId}`;
+
+	const withUser = createWithUser(getUserId, logger, 'Approval audit error');
+
+	const recordEntry = withUser(async (event, userId) => {
+		const body = await event.request.json();
+		if (!isAuditEntry(body)) {
+			return json({ error: 'Body must be an approval audit entry' }, { status: 400 });
+		}
+
+		// The user is taken from the session, never from the body
+		const entry: ApprovalAuditEntry & { userId: string } = { ...body, userId };
+		const id = await redisService
+			.getClient()
+			.xadd(streamKey(userId), '*', 'entry', JSON.stringify(entry));
+
+		logger.debug(`Recorded ${entry.kind} for ${entry.toolName} (${entry.toolCallId}) as ${id}`);
+		return json({ id }, { status: 201 });
+	});
+
+	const exportEntries = withUser(async (event, userId) => {
+		const format = event.url.searchParams.get('format') ?? 'json';
+		const threadId = event.url.searchParams.get('threadId');
+
+		if (format !== 'json' && format !== 'csv') {
+			return json({ error: 'format must be json or csv' }, { status: 400 });
+		}
+
+		const records = await redisService.getClient().xrange(streamKey(userId), '-', '+');
+		const entries: RecordedApprovalAuditEntry[] = records
+			.map(([id, fields]) => ({
+				...JSON.parse(fields[fields.indexOf('entry') + 1]),
+				id,
+				// Stream IDs start with the millisecond the entry was appended
+				recordedAt: new Date(Number(id.split('-')[0])).toISOString()
+			}))
+			.filter((entry) => !threadId || entry.threadId === threadId);
+
+		if (format === 'json') {
+			return json({ entries });
+		}
+
+		return new Response(toCsv(entries), {
+			headers: {
+				'Content-Type': 'text/csv; charset=utf-8',
+				'Content-Disposition': 'attachment; filename="opey-approval-audit.csv"'
+			}
+		});
+	});
+
+	return { POST: recordEntry, GET: exportEntries };
+}
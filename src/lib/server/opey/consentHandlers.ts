@@ -0,0 +1,70 @@
+import type { RequestEvent, RequestHandler } from '@sveltejs/kit';
+import { json } from '@sveltejs/kit';
+import { createLogger } from '../../utils/logger.js';
+import { createWithUser, type GetUserId } from './requestUser.js';
+import type { RoleConsentManager } from './RoleConsentManager.js';
+import { DEFAULT_CONSENT_POLICY, type ConsentPolicy } from '../../opey/utils/consentPolicy.js';
+
+const logger = createLogger('RoleConsentHandler');
+
+export interface RoleConsentHandlerConfig {
+	manager: RoleConsentManager;
+	getUserId: GetUserId;
+	/** Extract the user's OBP access token, used to revoke consents */
+	getAccessToken: (event: RequestEvent) => string | undefined;
+	/** Limits on new consents, served to the consent card. Defaults to DEFAULT_CONSENT_POLICY. */
+	policy?: ConsentPolicy;
+}
+
+/**
+ * Route handlers backing RoleConsentService.
+ *
+ * Mount `consents` at e.g. /api/opey/consent (GET lists active consents, DELETE revokes
+ * them all), `consent` at /api/opey/consent/[consentId] (DELETE revokes one) and
+ * `policy` at /api/opey/consent/policy.
+ */
+export function createRoleConsentHandlers(config: RoleConsentHandlerConfig): {
+	consents: { GET: RequestHandler; DELETE: RequestHandler };
+	consent: { DELETE: RequestHandler };
+	policy: { GET: RequestHandler };
+} {
+	const { manager, getUserId, getAccessToken } = config;
+
+	const withUser = createWithUser(getUserId, logger, 'Role consent error');
+
+	function requireAccessToken(event: RequestEvent): string | Response {
+		return (
+			getAccessToken(event) ??
+			json({ error: 'Authentication required to revoke consents' }, { status: 401 })
+		);
+	}
+
+	const listConsents = withUser(async (_event, userId) => {
+		return json({ consents: await manager.list(userId) });
+	});
+
+	const revokeAll = withUser(async (event, userId) => {
+		const accessToken = requireAccessToken(event);
+		if (accessToken instanceof Response) return accessToken;
+
+		await manager.revokeAll(userId, accessToken);
+		return new Response(null, { status: 204 });
+	});
+
+	const revokeOne = withUser(async (event, userId) => {
+		const accessToken = requireAccessToken(event);
+		if (accessToken instanceof Response) return accessToken;
+
+		const revoked = await manager.revoke(userId, accessToken, event.params.consentId!);
+		if (!revoked) {
+			return json({ error: 'Consent not found' }, { status: 404 });
+		}
+		return new Response(null, { status: 204 });
+	});
+
+	return {
+		consents: { GET: listConsents, DELETE: revokeAll },
+		consent: { DELETE: revokeOne },
+		policy: { GET: async () => json(config.policy ?? DEFAULT_CONSENT_POLICY) }
+	};
+}
@@ -0,0 +1,146 @@
+import type { RequestHandler } from '@sveltejs/kit';
+import { json } from '@sveltejs/kit';
+import { createLogger } from '../../utils/logger.js';
+import { createWithUser, type GetUserId } from './requestUser.js';
+import type { RedisService } from '../redis/RedisService.js';
+import {
+	summarizeThread,
+	type StoredChatThread,
+	type StoredThreadSummary
+} from '../../opey/services/ChatHistoryStore.js';
+
+const logger = createLogger('ChatHistoryHandler');
+
+const DEFAULT_TTL_SECONDS = 30 * 24 * 3600; // 30 days
+
+export interface ChatHistoryHandlerConfig {
+	redisService: RedisService;
+	getUserId: GetUserId;
+	/** How long a thread is kept after its last activity. Defaults to 30 days. */
+	ttlSeconds?: number;
+	keyPrefix?: string;
+}
+
+/**
+ * Route handlers backing ServerChatHistoryStore.
+ *
+ * Mount `threads` at e.g. /api/opey/history and `thread` at /api/opey/history/[threadId].
+ * Each user's threads are stored as JSON strings, with a hash of summaries for listing.
+ */
+export function createChatHistoryHandlers(config: ChatHistoryHandlerConfig): {
+	threads: { GET: RequestHandler };
+	thread: {
+		GET: RequestHandler;
+		PUT: RequestHandler;
+		PATCH: RequestHandler;
+		DELETE: RequestHandler;
+	};
+} {
+	const { redisService, getUserId } = config;
+	const ttlSeconds = config.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+	const keyPrefix = config.keyPrefix ?? 'opey-chat-history';
+
+	const summariesKey = (userId: string) => `${keyPrefix}:${userId}:summaries`;
+	const threadKey = (userId: string, threadId: string) =>
+		`${keyPrefix}:${userId}:thread:${threadId}`;
+
+	async function readThread(userId: string, threadId: string): Promise<StoredChatThread | null> {
+		const raw = await redisService.getClient().get(threadKey(userId, threadId));
+		return raw ? JSON.parse(raw) : null;
+	}
+
+	async function writeThread(userId: string, stored: StoredChatThread): Promise<void> {
+		await redisService
+			.getClient()
+			.multi()
+			.setex(threadKey(userId, stored.threadId), ttlSeconds, JSON.stringify(stored))
+			.hset(summariesKey(userId), stored.threadId, JSON.stringify(summarizeThread(stored)))
+			.expire(summariesKey(userId), ttlSeconds)
+			.exec();
+	}
+
+	const withUser = createWithUser(getUserId, logger, 'Chat history error');
+
+	const listThreads = withUser(async (_event, userId) => {
+		const redis = redisService.getClient();
+		const entries = await redis.hgetall(summariesKey(userId));
+		const summaries: StoredThreadSummary[] = [];
+
+		for (const [threadId, raw] of Object.entries(entries)) {
+			// Thread bodies expire individually; drop summaries that outlived them
+			if (!(await redis.exists(threadKey(userId, threadId)))) {
+				await redis.hdel(summariesKey(userId), threadId);
+				continue;
+			}
+			summaries.push(JSON.parse(raw));
+		}
+
+		summaries.sort((a, b) => b.lastActivity.localeCompare(a.lastActivity));
+		return json({ threads: summaries });
+	});
+
+	const getThread = withUser(async (event, userId) => {
+		const stored = await readThread(userId, event.params.threadId!);
+		if (!stored) {
+			return json({ error: 'Thread not found' }, { status: 404 });
+		}
+		return json(stored);
+	});
+
+	const putThread = withUser(async (event, userId) => {
+		const threadId = event.params.threadId!;
+		const body: StoredChatThread = await event.request.json();
+
+		if (
+			body.threadId !== threadId ||
+			!Array.isArray(body.messages) ||
+			(body.branchTails !== undefined && typeof body.branchTails !== 'object')
+		) {
+			return json({ error: 'Body must be a thread matching the URL' }, { status: 400 });
+		}
+
+		// Keep a title the user chose over the one derived from the first message
+		const existing = await readThread(userId, threadId);
+		const stored: StoredChatThread = existing?.customTitle
+			? { ...body, title: existing.title, customTitle: true }
+			: { ...body, customTitle: undefined };
+
+		await writeThread(userId, stored);
+		logger.debug(`Saved thread ${threadId} (${stored.messages.length} messages) for ${userId}`);
+		return new Response(null, { status: 204 });
+	});
+
+	const patchThread = withUser(async (event, userId) => {
+		const threadId = event.params.threadId!;
+		const { title } = await event.request.json();
+
+		if (typeof title !== 'string' || !title.trim()) {
+			return json({ error: 'title must be a non-empty string' }, { status: 400 });
+		}
+
+		const existing = await readThread(userId, threadId);
+		if (!existing) {
+			return json({ error: 'Thread not found' }, { status: 404 });
+		}
+
+		await writeThread(userId, { ...existing, title: title.trim(), customTitle: true });
+		return new Response(null, { status: 204 });
+	});
+
+	const deleteThread = withUser(async (event, userId) => {
+		const threadId = event.params.threadId!;
+		await redisService
+			.getClient()
+			.multi()
+			.del(threadKey(userId, threadId))
+			.hdel(summariesKey(userId), threadId)
+			.exec();
+		logger.debug(`Deleted thread ${threadId} for ${userId}`);
+		return new Response(null, { status: 204 });
+	});
+
+	return {
+		threads: { GET: listThreads },
+		thread: { GET: getThread, PUT: putThread, PATCH: patchThread, DELETE: deleteThread }
+	};
+}
@@ -1,2 +1,16 @@
 export { createOpeyAuthHandler } from './handlers.js';
 export type { OpeyAuthHandlerConfig } from './handlers.js';
+export { createChatHistoryHandlers } from './historyHandlers.js';
+export type { ChatHistoryHandlerConfig } from './historyHandlers.js';
+export { createApprovalAuditHandlers } from './auditHandlers.js';
+export type { ApprovalAuditHandlerConfig } from './auditHandlers.js';
+export { RoleConsentManager } from './RoleConsentManager.js';
+export type {
+	RoleConsentManagerConfig,
+	StoredRoleConsent,
+	CreateRoleConsentParams,
+	RoleConsentScope
+} from './RoleConsentManager.js';
+export { createRoleConsentHandlers } from './consentHandlers.js';
+export type { RoleConsentHandlerConfig } from './consentHandlers.js';
+export type { GetUserId } from './requestUser.js';
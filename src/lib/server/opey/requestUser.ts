@@ -0,0 +1,29 @@
+import type { RequestEvent, RequestHandler } from '@sveltejs/kit';
+import { json } from '@sveltejs/kit';
+import type { Logger } from '../../utils/logger.js';
+
+/** Extract a stable user identifier from the SvelteKit RequestEvent */
+export type GetUserId = (event: RequestEvent) => string | undefined;
+
+/**
+ * Wraps per-user route handlers with the lookup and error handling they all need:
+ * 401 without a user, and a logged JSON 500 when the handler throws.
+ */
+export function createWithUser(getUserId: GetUserId, logger: Logger, errorLabel: string) {
+	return function withUser(
+		handler: (event: RequestEvent, userId: string) => Promise<Response>
+	): RequestHandler {
+		return async (event) => {
+			const userId = getUserId(event);
+			if (!userId) {
+				return json({ error: 'Authentication required' }, { status: 401 });
+			}
+			try {
+				return await handler(event, userId);
+			} catch (error: any) {
+				logger.error(`${errorLabel}:`, error);
+				return json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+			}
+		};
+	};
+}
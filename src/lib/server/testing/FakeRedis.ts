@@ -0,0 +1,154 @@
+import type { RedisService } from '../redis/RedisService.js';
+
+interface Entry {
+	value: string | Map<string, string> | Set<string>;
+	expiresAt?: number;
+}
+
+/**
+ * In-memory stand-in for the subset of ioredis used by the server modules, for specs.
+ * Expiry is checked against Date.now(), so fake timers apply.
+ */
+export class FakeRedis {
+	private entries = new Map<string, Entry>();
+
+	private entry(key: string): Entry | undefined {
+		const entry = this.entries.get(key);
+		if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		return entry;
+	}
+
+	private hash(key: string, create = false): Map<string, string> | undefined {
+		const entry = this.entry(key);
+		if (entry) return entry.value as Map<string, string>;
+		if (!create) return undefined;
+		const hash = new Map<string, string>();
+		this.entries.set(key, { value: hash });
+		return hash;
+	}
+
+	async get(key: string): Promise<string | null> {
+		const value = this.entry(key)?.value;
+		return typeof value === 'string' ? value : null;
+	}
+
+	/** SET with the EX, PX and NX options */
+	async set(key: string, value: string, ...options: Array<string | number>): Promise<'OK' | null> {
+		const option = (name: string) => {
+			const i = options.indexOf(name);
+			return i === -1 ? undefined : Number(options[i + 1]);
+		};
+		if (options.includes('NX') && this.entry(key)) return null;
+
+		const ex = option('EX');
+		const px = option('PX') ?? (ex === undefined ? undefined : ex * 1000);
+		this.entries.set(key, { value, expiresAt: px === undefined ? undefined : Date.now() + px });
+		return 'OK';
+	}
+
+	/**
+	 * Only runs compare-and-delete scripts (delete KEYS[1] if it holds ARGV[1]), the one
+	 * kind of script the server modules use.
+	 */
+	async eval(script: string, numKeys: number, ...keysAndArgs: string[]): Promise<number> {
+		if (!/redis\.call\("get", KEYS\[1\]\) == ARGV\[1\]/.test(script)) {
+			throw new Error(`FakeRedis can't run script: ${script}`);
+		}
+		const [key, expected] = [keysAndArgs[0], keysAndArgs[numKeys]];
+		return (await this.get(key)) === expected ? this.del(key) : 0;
+	}
+
+	private members(key: string, create = false): Set<string> | undefined {
+		const entry = this.entry(key);
+		if (entry) return entry.value as Set<string>;
+		if (!create) return undefined;
+		const members = new Set<string>();
+		this.entries.set(key, { value: members });
+		return members;
+	}
+
+	async sadd(key: string, ...members: string[]): Promise<number> {
+		const set = this.members(key, true)!;
+		return members.filter((member) => !set.has(member) && set.add(member)).length;
+	}
+
+	async srem(key: string, ...members: string[]): Promise<number> {
+		const set = this.members(key);
+		return members.filter((member) => set?.delete(member)).length;
+	}
+
+	async smembers(key: string): Promise<string[]> {
+		return [...(this.members(key) ?? [])];
+	}
+
+	/** MULTI for the commands the server modules queue; exec runs them in order */
+	multi() {
+		const queued: Array<() => Promise<unknown>> = [];
+		const chain = {
+			sadd: (key: string, ...members: string[]) => {
+				queued.push(() => this.sadd(key, ...members));
+				return chain;
+			},
+			srem: (key: string, ...members: string[]) => {
+				queued.push(() => this.srem(key, ...members));
+				return chain;
+			},
+			expire: (key: string, seconds: number) => {
+				queued.push(() => this.expire(key, seconds));
+				return chain;
+			},
+			exec: async () => {
+				const results: Array<[null, unknown]> = [];
+				for (const command of queued) results.push([null, await command()]);
+				return results;
+			}
+		};
+		return chain;
+	}
+
+	async hget(key: string, field: string): Promise<string | null> {
+		return this.hash(key)?.get(field) ?? null;
+	}
+
+	async hgetall(key: string): Promise<Record<string, string>> {
+		return Object.fromEntries(this.hash(key) ?? []);
+	}
+
+	async hset(key: string, field: string, value: string): Promise<number> {
+		const hash = this.hash(key, true)!;
+		const added = hash.has(field) ? 0 : 1;
+		hash.set(field, value);
+		return added;
+	}
+
+	async hdel(key: string, ...fields: string[]): Promise<number> {
+		const hash = this.hash(key);
+		return fields.filter((field) => hash?.delete(field)).length;
+	}
+
+	async del(...keys: string[]): Promise<number> {
+		return keys.filter((key) => this.entry(key) && this.entries.delete(key)).length;
+	}
+
+	async expire(key: string, seconds: number): Promise<number> {
+		const entry = this.entry(key);
+		if (!entry) return 0;
+		entry.expiresAt = Date.now() + seconds * 1000;
+		return 1;
+	}
+
+	async ttl(key: string): Promise<number> {
+		const entry = this.entry(key);
+		if (!entry) return -2;
+		if (entry.expiresAt === undefined) return -1;
+		return Math.ceil((entry.expiresAt - Date.now()) / 1000);
+	}
+}
+
+/** A RedisService whose client is the given FakeRedis */
+export function fakeRedisService(redis: FakeRedis = new FakeRedis()): RedisService {
+	return { getClient: () => redis } as unknown as RedisService;
+}
@@ -0,0 +1,42 @@
+/** An RS256 key pair for specs: its public JWK goes in a fake JWKS, the private key signs tokens */
+export interface TestSigningKey {
+	jwk: JsonWebKey & { kid: string; alg: string; use: string };
+	/** A signed JWT; `header` overrides the protected header, e.g. to claim another alg */
+	sign(claims: Record<string, unknown>, header?: Record<string, unknown>): Promise<string>;
+}
+
+function encode(value: unknown): string {
+	return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+export async function createSigningKey(kid = 'test-key'): Promise<TestSigningKey> {
+	const { privateKey, publicKey } = await crypto.subtle.generateKey(
+		{
+			name: 'RSASSA-PKCS1-v1_5',
+			modulusLength: 2048,
+			publicExponent: new Uint8Array([1, 0, 1]),
+			hash: 'SHA-256'
+		},
+		true,
+		['sign', 'verify']
+	);
+	const jwk = {
+		...(await crypto.subtle.exportKey('jwk', publicKey)),
+		kid,
+		alg: 'RS256',
+		use: 'sig'
+	};
+
+	return {
+		jwk,
+		async sign(claims, header = {}) {
+			const signingInput = `${encode({ alg: 'RS256', typ: 'JWT', kid, ...header })}.${encode(claims)}`;
+			const signature = await crypto.subtle.sign(
+				'RSASSA-PKCS1-v1_5',
+				privateKey,
+				new TextEncoder().encode(signingInput)
+			);
+			return `${signingInput}.${Buffer.from(signature).toString('base64url')}`;
+		}
+	};
+}
@@ -1,11 +1,13 @@
 import { createLogger } from './logger';
 const logger = createLogger('LegalDocLoader');
 import type { OBPRequests } from '$lib/obp/requests';
+import { DEFAULT_OBP_API_VERSION } from '$lib/obp/client';
 
 /**
  * Fetches raw Markdown content from the OBP webui-props endpoint.
  * @param obpRequests An OBPRequests instance to use for the API call
  * @param name The `name` of the webui_props entry (e.g., "webui_terms_and_conditions")
+ * @param apiVersion OBP API version of the endpoint, e.g. 'v5.1.0'
  * @returns A string of raw Markdown content
  * @throws If the property is not found or is not a string
  */
@@ -14,10 +16,14 @@ interface WebUIProp {
     value: string;
 }
 
-export async function getLegalMarkdownFromWebUIProps(obpRequests: OBPRequests, name: string): Promise<string> {
+export async function getLegalMarkdownFromWebUIProps(
+    obpRequests: OBPRequests,
+    name: string,
+    apiVersion: string = DEFAULT_OBP_API_VERSION
+): Promise<string> {
     let json: any;
     try {
-        json = await obpRequests.get('/obp/v5.1.0/webui-props?active=true');
+        json = await obpRequests.get(`/obp/${apiVersion}/webui-props?active=true`);
     } catch (err) {
         logger.error(`Failed to fetch legal markdown for "${name}":`, err);
         throw new Error(`Failed to fetch legal markdown content`);
@@ -1,4 +1,5 @@
 import { createToaster } from '@skeletonlabs/skeleton-svelte';
+import { describeObpError } from '$lib/obp/errorCatalogue';
 
 // Create a single toaster instance for the entire application
 export const toaster = createToaster({
@@ -20,6 +21,20 @@ export const toast = {
     error: (title: string, description?: string) => {
         toaster.error({ title, description });
     },
+    /** Explain an OBP error using the error catalogue, rate limits as a warning */
+    obpError: (err: unknown, title?: string) => {
+        const described = describeObpError(err);
+        // Nothing in the catalogue explains an unknown error, so show what it said
+        const description =
+            described.category === 'unknown' && described.message
+                ? described.message
+                : `${described.explanation} ${described.action}`;
+        if (described.category === 'rate_limit') {
+            toaster.warning({ title: title ?? described.title, description });
+        } else {
+            toaster.error({ title: title ?? described.title, description });
+        }
+    },
     promise: <T>(promise: Promise<T>, options: any) => {
         return toaster.promise(promise, options);
     }
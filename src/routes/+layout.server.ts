@@ -2,8 +2,9 @@ import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('LayoutServer');
 import type { RequestEvent } from "@sveltejs/kit";
 import { DefaultOBPIntegrationService } from '$lib/server/obp/OBPIntegrationService';
-import { createOBPRequests } from '$lib/obp/requests';
 import type { OBPConsentInfo } from '$lib/obp/types';
+import { consentPolicy } from './api/opey/consent/roleConsents';
+import { obpClient } from '../hooks.server';
 
 import { env } from "$env/dynamic/private";
 import { env as publicEnv } from '$env/dynamic/public';
@@ -49,8 +50,11 @@ export async function load(event: RequestEvent) {
 	// Get Opey consent info if we have Opey consumer ID configured
 	if (env.OPEY_CONSUMER_ID && publicEnv.PUBLIC_OBP_BASE_URL) {
 		try {
-			const obpRequests = createOBPRequests(publicEnv.PUBLIC_OBP_BASE_URL);
-			const obpIntegrationService = new DefaultOBPIntegrationService(env.OPEY_CONSUMER_ID, obpRequests);
+			const obpIntegrationService = new DefaultOBPIntegrationService(
+				env.OPEY_CONSUMER_ID,
+				obpClient,
+				consentPolicy.defaultTimeToLiveSeconds
+			);
 			const currentConsentInfo = await obpIntegrationService.getCurrentConsentInfo(session)
 			if (currentConsentInfo) {
 				data.opeyConsentInfo = currentConsentInfo;
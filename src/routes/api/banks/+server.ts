@@ -1,6 +1,6 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { obpRequests } from '../../../hooks.server';
+import { obpClient } from '../../../hooks.server';
 import { createLogger } from '$lib/utils/logger';
 
 const logger = createLogger('BanksAPI');
@@ -13,11 +13,12 @@ export const GET: RequestHandler = async ({ locals }) => {
 	}
 
 	try {
-		const endpoint = `/obp/v6.0.0/banks`;
 		const accessToken = session.data.oauth?.access_token;
-		const response = await obpRequests.get(endpoint, accessToken);
+		const allBanks = await obpClient.requests.fetchAll(obpClient.path('/banks'), accessToken, {
+			itemsKey: 'banks'
+		});
 
-		const banks = (response.banks || []).filter(
+		const banks = allBanks.filter(
 			(b: any) => b.bank_id != null
 		);
 
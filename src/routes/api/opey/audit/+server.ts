@@ -0,0 +1,3 @@
+import { approvalAuditHandlers } from './approvalAudit';
+
+export const { GET, POST } = approvalAuditHandlers;
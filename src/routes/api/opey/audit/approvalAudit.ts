@@ -0,0 +1,7 @@
+import { createApprovalAuditHandlers } from '$lib/server/opey';
+import { redisService } from '../../../../hooks.server';
+
+export const approvalAuditHandlers = createApprovalAuditHandlers({
+	redisService,
+	getUserId: (event) => event.locals.session?.data?.user?.user_id
+});
@@ -2,17 +2,30 @@ import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('OpeyConsentAPI');
 import { json } from '@sveltejs/kit';
 import type { RequestEvent } from './$types';
-import { obpRequests } from '../../../../hooks.server';
+import { obpClient, redisService } from '../../../../hooks.server';
 import { env } from '$env/dynamic/private';
+import { getRoleCatalogue } from '$lib/server/obp/roleCatalogueCache';
 import { deduplicateRoles, pickConsentRole } from '$lib/opey/utils/roles';
+import { validateConsentRequest, type ConsentViewScope } from '$lib/opey/utils/consentPolicy';
+import { consentPolicy, roleConsentHandlers, roleConsentManager } from './roleConsents';
+
+export const { GET, DELETE } = roleConsentHandlers.consents;
 
 /**
  * POST /api/opey/consent
  *
  * Creates a role-specific consent at OBP for a tool call that requires elevated permissions.
  * The frontend sends the required roles from the consent_request event, and this endpoint:
- * 1. Creates a consent with those specific roles via the OBP API
- * 2. Returns the Consent-JWT to the frontend
+ * 1. Validates the chosen duration, roles and views against the consent policy
+ * 2. Checks the user still holds the roles, or roles superseding them
+ * 3. Reuses the user's unexpired consent for the same roles, bank, views and duration, if
+ *    there is one, otherwise creates a consent with those specific roles via the OBP API
+ * 4. Returns the Consent-JWT to the frontend
+ *
+ * Optional body fields: `time_to_live` (seconds), `role_choices` (required role -> the exact
+ * or a superseding role to grant instead) and `views` (account views to restrict to).
+ *
+ * GET lists the user's active role consents and DELETE revokes them (see roleConsents.ts).
  *
  * The frontend then sends this JWT to the Opey backend via the approval endpoint,
  * where it's injected into the tool call headers (never reaching the LLM).
@@ -45,40 +58,107 @@ export async function POST(event: RequestEvent) {
 		}
 
 		const body = await event.request.json();
-		const { required_roles, bank_id } = body;
+		const { required_roles, bank_id, time_to_live, role_choices, views } = body;
 		const normalizedRequiredRoles = required_roles == null ? [] : required_roles;
 
-		logger.info(`Consent request received:`, { required_roles, bank_id });
+		logger.info(`Consent request received:`, { required_roles, bank_id, time_to_live, role_choices, views });
 
 		if (!Array.isArray(normalizedRequiredRoles)) {
 			logger.warn('Invalid required_roles:', required_roles);
 			return json({ error: 'required_roles must be an array when provided' }, { status: 400 });
 		}
 
+		const isRecord = (value: unknown): value is Record<string, unknown> =>
+			typeof value === 'object' && value !== null && !Array.isArray(value);
+		if (
+			role_choices != null &&
+			(!isRecord(role_choices) ||
+				!Object.values(role_choices).every((role) => typeof role === 'string'))
+		) {
+			logger.warn('Invalid role_choices:', role_choices);
+			return json(
+				{ error: 'role_choices must map required roles to role names when provided' },
+				{ status: 400 }
+			);
+		}
+		if (
+			views != null &&
+			(!Array.isArray(views) ||
+				!views.every(
+					(view) =>
+						isRecord(view) &&
+						typeof view.bank_id === 'string' &&
+						typeof view.account_id === 'string' &&
+						typeof view.view_id === 'string'
+				))
+		) {
+			logger.warn('Invalid views:', views);
+			return json(
+				{ error: 'views must be a list of { bank_id, account_id, view_id } when provided' },
+				{ status: 400 }
+			);
+		}
+
 		const opeyConsumerId = env.OPEY_CONSUMER_ID;
 		if (!opeyConsumerId) {
 			logger.error('OPEY_CONSUMER_ID not configured');
 			return json({ error: 'Server configuration error: OPEY_CONSUMER_ID not set' }, { status: 500 });
 		}
 
-		// First, get the user's current roles to check what they have access to
-		logger.info('Fetching user entitlements to check available roles...');
-		const userEntitlements = await obpRequests.get('/obp/v5.1.0/my/entitlements', accessToken);
-		const userRoleNames: string[] = (userEntitlements.list || []).map((e: any) => e.role_name);
-		const userRolesSet = new Set(userRoleNames);
-		logger.info(`User has ${userRoleNames.length} roles:`, userRoleNames);
+		// Supersession relationships come from OBP's role list, cached in Redis
+		const { supersededBy } = await getRoleCatalogue(redisService, obpClient, accessToken);
 
 		// Collapse any role that is superseded by another role already in the list
-		const deduped = deduplicateRoles(normalizedRequiredRoles);
+		const deduped = deduplicateRoles(normalizedRequiredRoles, supersededBy);
 		logger.info(`Deduplicated required roles: ${deduped.join(', ')}`);
 
+		const roleChoices: Record<string, string> = role_choices ?? {};
+		const requestedViews: ConsentViewScope[] = views ?? [];
+		const policyErrors = validateConsentRequest(
+			{ requiredRoles: deduped, roleChoices, timeToLiveSeconds: time_to_live, views: requestedViews },
+			consentPolicy,
+			supersededBy
+		);
+		if (policyErrors.length > 0) {
+			logger.warn('Consent request rejected by policy:', policyErrors);
+			return json({ error: policyErrors.join('. ') }, { status: 400 });
+		}
+
+		// The roles the user asked for, with their choices applied
+		const requestedRoles = deduped.map((role) => roleChoices[role] ?? role);
+		const scope = {
+			requiredRoles: requestedRoles,
+			bankId: bank_id,
+			views: requestedViews,
+			timeToLiveSeconds: time_to_live ?? consentPolicy.defaultTimeToLiveSeconds
+		};
+
+		const userId: string | undefined = session?.data?.user?.user_id;
+		if (!userId) {
+			return json({ error: 'Authentication required to create consent' }, { status: 401 });
+		}
+
+		// First, get the user's current roles to check what they have access to. Uncached, since
+		// a consent is only reused while the user still holds its roles.
+		logger.info('Fetching user entitlements to check available roles...');
+		const userEntitlements = await obpClient.entitlements.mine(accessToken, { cacheTtlMs: 0 });
+		const userRoleNames = userEntitlements.map((e) => e.role_name);
+		const userRolesSet = new Set(userRoleNames);
+		logger.info(`User has ${userRoleNames.length} roles:`, userRoleNames);
+
 		// For each deduplicated role, pick the best role the user actually holds
 		const pickedRoles: string[] = [];
 		const unsatisfiable: string[] = [];
 		for (const requiredRole of deduped) {
-			const picked = pickConsentRole(requiredRole, userRolesSet);
+			// A role the user chose explicitly must be held as-is
+			const chosen = roleChoices[requiredRole];
+			const picked = chosen
+				? userRolesSet.has(chosen)
+					? chosen
+					: null
+				: pickConsentRole(requiredRole, userRolesSet, supersededBy);
 			if (picked === null) {
-				unsatisfiable.push(requiredRole);
+				unsatisfiable.push(chosen ?? requiredRole);
 			} else {
 				pickedRoles.push(picked);
 			}
@@ -87,46 +167,50 @@ export async function POST(event: RequestEvent) {
 		if (unsatisfiable.length > 0) {
 			logger.error(`User cannot satisfy roles:`, unsatisfiable);
 			logger.error(`User has roles:`, userRoleNames);
+			// missing_roles lets the consent card offer to request the entitlements instead
 			return json({
-				error: `You don't have the required roles. Missing: ${unsatisfiable.join(', ')}. You have: ${userRoleNames.join(', ')}`
+				error: `You don't have the required roles: ${unsatisfiable.join(', ')}`,
+				missing_roles: unsatisfiable,
+				bank_id: bank_id
 			}, { status: 403 });
 		}
 
-		logger.info(`Using picked roles for consent JWT: ${pickedRoles.join(', ')}`);
-
-		// Build entitlements array from the picked roles (not the raw required list)
-		const entitlements = pickedRoles.map((roleName: string) => ({
-			role_name: roleName,
-			bank_id: bank_id || ''
-		}));
-
-		const now = new Date().toISOString().split('.')[0] + 'Z';
-
-		const consentBody = {
-			everything: false,
-			entitlements,
-			consumer_id: opeyConsumerId,
-			views: [],
-			valid_from: now,
-			time_to_live: 3600 // 1 hour
-		};
+		const cached = await roleConsentManager.findReusable(userId, accessToken, scope);
+		if (cached && !cached.roles.every((role) => userRolesSet.has(role))) {
+			// Granted roles the user no longer holds; the new consent takes its place
+			logger.info(`Cached consent ${cached.consentId} has roles the user lost, revoking it`);
+			await roleConsentManager
+				.revoke(userId, accessToken, cached.consentId)
+				.catch((error) => logger.warn(`Failed to revoke consent ${cached.consentId}:`, error));
+		} else if (cached) {
+			logger.info(`Reusing consent ${cached.consentId} (expires ${cached.expiresAt})`);
+			return json({
+				consent_jwt: cached.jwt,
+				consent_id: cached.consentId,
+				status: cached.status,
+				roles: normalizedRequiredRoles,
+				reused: true
+			});
+		}
 
 		logger.info(`Creating role-specific consent with ${pickedRoles.length} roles: ${pickedRoles.join(', ')}`);
-		logger.info(`Consent body:`, JSON.stringify(consentBody, null, 2));
 
-		const consent = await obpRequests.post(
-			'/obp/v5.1.0/my/consents/IMPLICIT',
-			consentBody,
-			accessToken
-		);
+		const consent = await roleConsentManager.create({
+			userId,
+			accessToken,
+			consumerId: opeyConsumerId,
+			...scope,
+			roles: pickedRoles
+		});
 
-		logger.info(`Consent created successfully: ${consent.consent_id}`);
+		logger.info(`Consent created successfully: ${consent.consentId}`);
 
 		return json({
 			consent_jwt: consent.jwt,
-			consent_id: consent.consent_id,
+			consent_id: consent.consentId,
 			status: consent.status,
-			roles: normalizedRequiredRoles
+			roles: normalizedRequiredRoles,
+			reused: false
 		});
 	} catch (error: any) {
 		logger.error('Failed to create consent:', error);
@@ -0,0 +1,3 @@
+import { roleConsentHandlers } from '../roleConsents';
+
+export const { DELETE } = roleConsentHandlers.consent;
@@ -0,0 +1,46 @@
+import { env } from '$env/dynamic/private';
+import { RoleConsentManager, createRoleConsentHandlers } from '$lib/server/opey';
+import { DEFAULT_CONSENT_POLICY, type ConsentPolicy } from '$lib/opey/utils/consentPolicy';
+import { obpClient, redisService } from '../../../../hooks.server';
+
+function numberFromEnv(value: string | undefined, fallback: number): number {
+	const parsed = value ? parseInt(value) : NaN;
+	return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+function flagFromEnv(value: string | undefined, fallback: boolean): boolean {
+	return value ? value === 'true' : fallback;
+}
+
+export const consentPolicy: ConsentPolicy = {
+	...DEFAULT_CONSENT_POLICY,
+	minTimeToLiveSeconds: numberFromEnv(
+		env.OPEY_CONSENT_MIN_TTL_SECONDS,
+		DEFAULT_CONSENT_POLICY.minTimeToLiveSeconds
+	),
+	maxTimeToLiveSeconds: numberFromEnv(
+		env.OPEY_CONSENT_MAX_TTL_SECONDS,
+		DEFAULT_CONSENT_POLICY.maxTimeToLiveSeconds
+	),
+	defaultTimeToLiveSeconds: numberFromEnv(
+		env.OPEY_CONSENT_DEFAULT_TTL_SECONDS,
+		DEFAULT_CONSENT_POLICY.defaultTimeToLiveSeconds
+	),
+	allowSupersedingRoles: flagFromEnv(
+		env.OPEY_CONSENT_ALLOW_SUPERSEDING_ROLES,
+		DEFAULT_CONSENT_POLICY.allowSupersedingRoles
+	),
+	allowViewRestriction: flagFromEnv(
+		env.OPEY_CONSENT_ALLOW_VIEW_RESTRICTION,
+		DEFAULT_CONSENT_POLICY.allowViewRestriction
+	)
+};
+
+export const roleConsentManager = new RoleConsentManager({ redisService, obp: obpClient });
+
+export const roleConsentHandlers = createRoleConsentHandlers({
+	manager: roleConsentManager,
+	getUserId: (event) => event.locals.session?.data?.user?.user_id,
+	getAccessToken: (event) => event.locals.session?.data?.oauth?.access_token,
+	policy: consentPolicy
+});
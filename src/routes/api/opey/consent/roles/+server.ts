@@ -0,0 +1,16 @@
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from './$types';
+import { getRoleCatalogue } from '$lib/server/obp/roleCatalogueCache';
+import { obpClient, redisService } from '../../../../../hooks.server';
+
+/**
+ * GET /api/opey/consent/roles
+ *
+ * The role supersession map used for consents, derived from OBP's role list,
+ * so the consent card offers the same broader roles the server accepts.
+ */
+export async function GET(event: RequestEvent) {
+	const accessToken = event.locals.session?.data?.oauth?.access_token;
+	const { supersededBy, source } = await getRoleCatalogue(redisService, obpClient, accessToken);
+	return json({ supersededBy, source });
+}
@@ -0,0 +1,108 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('OpeyEntitlementRequestsAPI');
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from './$types';
+import { obpClient, redisService } from '../../../../hooks.server';
+import { getRoleCatalogue } from '$lib/server/obp/roleCatalogueCache';
+import { getMyEntitlementRequests, requestEntitlements } from '$lib/server/obp/entitlementRequests';
+import { pickConsentRole } from '$lib/opey/utils/roles';
+
+/**
+ * Which of `roles` the user can't satisfy at `bankId`, directly or through a superseding
+ * role. Bank-scoped entitlements only count at their own bank.
+ */
+async function findMissingRoles(accessToken: string, roles: string[], bankId?: string) {
+	const [userEntitlements, catalogue] = await Promise.all([
+		obpClient.entitlements.mine(accessToken),
+		getRoleCatalogue(redisService, obpClient, accessToken)
+	]);
+	const userRoles = new Set(
+		userEntitlements.filter((e) => !e.bank_id || e.bank_id === bankId).map((e) => e.role_name)
+	);
+	const missingRoles = roles.filter(
+		(role) => pickConsentRole(role, userRoles, catalogue.supersededBy) === null
+	);
+	return { missingRoles, catalogue };
+}
+
+async function pendingRequestsFor(accessToken: string, roles: string[], bankId?: string) {
+	const requests = await getMyEntitlementRequests(obpClient, accessToken);
+	return requests.filter((r) => roles.includes(r.roleName) && (!r.bankId || r.bankId === bankId));
+}
+
+function errorResponse(error: any, fallback: string) {
+	logger.error(`${fallback}:`, error);
+	const status = error?.code || 500;
+	return json(
+		{ error: error?.message || fallback },
+		{ status: typeof status === 'number' ? status : 500 }
+	);
+}
+
+/**
+ * GET /api/opey/entitlement-requests?roles=A,B&bank_id=X
+ *
+ * Reports which of the given roles the user still lacks and their pending requests for them.
+ * ConsentRequestCard polls this after requesting entitlements, and retries the consent
+ * once nothing is missing.
+ */
+export async function GET(event: RequestEvent) {
+	const accessToken = event.locals.session?.data?.oauth?.access_token;
+	if (!accessToken) {
+		return json({ error: 'Authentication required' }, { status: 401 });
+	}
+
+	const roles = (event.url.searchParams.get('roles') ?? '').split(',').filter(Boolean);
+	const bankId = event.url.searchParams.get('bank_id') || undefined;
+	try {
+		const { missingRoles } = await findMissingRoles(accessToken, roles, bankId);
+		const requests = await pendingRequestsFor(accessToken, roles, bankId);
+		return json({ requests, missingRoles });
+	} catch (error: any) {
+		return errorResponse(error, 'Failed to check entitlement requests');
+	}
+}
+
+/**
+ * POST /api/opey/entitlement-requests
+ *
+ * Submits OBP entitlement requests for whichever of `roles` the user lacks,
+ * at `bank_id` for bank-scoped roles.
+ */
+export async function POST(event: RequestEvent) {
+	const accessToken = event.locals.session?.data?.oauth?.access_token;
+	if (!accessToken) {
+		return json({ error: 'Authentication required' }, { status: 401 });
+	}
+
+	let body;
+	try {
+		body = await event.request.json();
+	} catch {
+		return json({ error: 'Body must be JSON' }, { status: 400 });
+	}
+	const { roles, bank_id } = body ?? {};
+	if (
+		!Array.isArray(roles) ||
+		roles.length === 0 ||
+		!roles.every((role) => typeof role === 'string' && role)
+	) {
+		return json({ error: 'roles must be a non-empty array of role names' }, { status: 400 });
+	}
+	if (bank_id != null && typeof bank_id !== 'string') {
+		return json({ error: 'bank_id must be a string when provided' }, { status: 400 });
+	}
+	const bankId: string | undefined = bank_id || undefined;
+
+	try {
+		const { missingRoles, catalogue } = await findMissingRoles(accessToken, roles, bankId);
+		if (missingRoles.length > 0) {
+			logger.info(`Requesting entitlements: ${missingRoles.join(', ')}`);
+			await requestEntitlements(obpClient, accessToken, missingRoles, bankId, catalogue.roles);
+		}
+		const requests = await pendingRequestsFor(accessToken, roles, bankId);
+		return json({ requests, missingRoles });
+	} catch (error: any) {
+		return errorResponse(error, 'Failed to request entitlements');
+	}
+}
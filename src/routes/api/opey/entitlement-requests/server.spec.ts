@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const obp = vi.hoisted(() => ({
+	entitlements: [] as Array<{ role_name: string; bank_id: string }>,
+	requests: [] as Array<{ role_name: string; bank_id: string }>,
+	posted: [] as Array<{ role_name: string; bank_id: string }>
+}));
+
+vi.mock('../../../../hooks.server', () => ({
+	obpClient: {
+		entitlements: {
+			mine: async () => obp.entitlements,
+			myRequests: async () => obp.requests,
+			request: async (body: { role_name: string; bank_id: string }) => {
+				obp.posted.push(body);
+				return body;
+			}
+		}
+	},
+	redisService: {}
+}));
+
+vi.mock('$lib/server/obp/roleCatalogueCache', () => ({
+	getRoleCatalogue: async () => ({
+		roles: [{ role: 'CanCreateAccount', requires_bank_id: true }],
+		supersededBy: {},
+		source: 'obp'
+	})
+}));
+
+const { GET, POST } = await import('./+server');
+
+function event(url: string, init?: RequestInit, accessToken: string | null = 'token') {
+	return {
+		url: new URL(url, 'http://portal'),
+		request: new Request(new URL(url, 'http://portal'), init),
+		locals: { session: { data: { oauth: { access_token: accessToken } } } }
+	} as any;
+}
+
+describe('/api/opey/entitlement-requests', () => {
+	beforeEach(() => {
+		obp.entitlements = [];
+		obp.requests = [];
+		obp.posted = [];
+	});
+
+	it('only counts bank-scoped entitlements held at the requested bank', async () => {
+		obp.entitlements = [{ role_name: 'CanCreateAccount', bank_id: 'other-bank' }];
+		obp.requests = [
+			{ role_name: 'CanCreateAccount', bank_id: 'gh.29.uk' },
+			{ role_name: 'CanCreateAccount', bank_id: 'other-bank' }
+		];
+
+		const response = await GET(
+			event('/api/opey/entitlement-requests?roles=CanCreateAccount&bank_id=gh.29.uk')
+		);
+		const body = await response.json();
+
+		expect(body.missingRoles).toEqual(['CanCreateAccount']);
+		expect(body.requests).toEqual([expect.objectContaining({ bankId: 'gh.29.uk' })]);
+
+		obp.entitlements.push({ role_name: 'CanCreateAccount', bank_id: 'gh.29.uk' });
+		const granted = await GET(
+			event('/api/opey/entitlement-requests?roles=CanCreateAccount&bank_id=gh.29.uk')
+		);
+
+		expect((await granted.json()).missingRoles).toEqual([]);
+	});
+
+	it('requests missing roles at the bank', async () => {
+		const response = await POST(
+			event('/api/opey/entitlement-requests', {
+				method: 'POST',
+				body: JSON.stringify({ roles: ['CanCreateAccount'], bank_id: 'gh.29.uk' })
+			})
+		);
+
+		expect(response.status).toBe(200);
+		expect(obp.posted).toEqual([{ bank_id: 'gh.29.uk', role_name: 'CanCreateAccount' }]);
+	});
+
+	it('rejects a body that is not JSON', async () => {
+		const response = await POST(
+			event('/api/opey/entitlement-requests', { method: 'POST', body: 'roles=CanCreateAccount' })
+		);
+
+		expect(response.status).toBe(400);
+	});
+
+	it.each([
+		['a role that is not a string', { roles: ['CanCreateAccount', { role: 'x' }] }],
+		['an empty role name', { roles: [''] }],
+		['a bank_id that is not a string', { roles: ['CanCreateAccount'], bank_id: 42 }]
+	])('rejects %s', async (_, body) => {
+		const response = await POST(
+			event('/api/opey/entitlement-requests', { method: 'POST', body: JSON.stringify(body) })
+		);
+
+		expect(response.status).toBe(400);
+		expect(obp.posted).toEqual([]);
+	});
+
+	it('requires a logged in user', async () => {
+		const response = await GET(event('/api/opey/entitlement-requests?roles=A', undefined, null));
+
+		expect(response.status).toBe(401);
+	});
+});
@@ -0,0 +1,3 @@
+import { chatHistoryHandlers } from './chatHistory';
+
+export const { GET } = chatHistoryHandlers.threads;
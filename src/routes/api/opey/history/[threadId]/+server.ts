@@ -0,0 +1,3 @@
+import { chatHistoryHandlers } from '../chatHistory';
+
+export const { GET, PUT, PATCH, DELETE } = chatHistoryHandlers.thread;
@@ -0,0 +1,7 @@
+import { createChatHistoryHandlers } from '$lib/server/opey';
+import { redisService } from '../../../../hooks.server';
+
+export const chatHistoryHandlers = createChatHistoryHandlers({
+	redisService,
+	getUserId: (event) => event.locals.session?.data?.user?.user_id
+});
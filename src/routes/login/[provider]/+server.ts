@@ -1,6 +1,6 @@
 import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('ProviderLogin');
-import { generateState } from 'arctic'
+import { CodeChallengeMethod, generateCodeVerifier, generateState } from 'arctic'
 import { oauth2ProviderFactory } from '../../../hooks.server'
 import type { RequestEvent } from '@sveltejs/kit'
 import { error } from "@sveltejs/kit";
@@ -24,7 +24,7 @@ export function GET(event: RequestEvent) {
     const state = generateState();
     const encodedState = `${state}:${provider}`;
 
-    const scopes = ['openid', 'email', 'profile'];
+    const scopes = oauthClient.scopes;
 
     logger.debug(`OAuth client found for provider: ${provider}`);
     logger.debug(`OIDC Config present: ${!!oauthClient.OIDCConfig}`);
@@ -43,15 +43,40 @@ export function GET(event: RequestEvent) {
     }
 
     try {
-        const url = oauthClient.createAuthorizationURL(auth_endpoint, encodedState, scopes);
-
-        event.cookies.set('obp_oauth_state', encodedState, {
+        const cookieOptions = {
             httpOnly: true,
             maxAge: 60 * 10,
             secure: import.meta.env.PROD,
             path: '/',
-            sameSite: 'lax'
-        });
+            sameSite: 'lax' as const
+        };
+
+        let url: URL;
+        if (oauthClient.supportsPKCE()) {
+            // The verifier stays server-side; only its S256 challenge goes to the provider
+            const codeVerifier = generateCodeVerifier();
+            url = oauthClient.createAuthorizationURLWithPKCE(
+                auth_endpoint,
+                encodedState,
+                CodeChallengeMethod.S256,
+                codeVerifier,
+                scopes
+            );
+            event.cookies.set('obp_oauth_code_verifier', codeVerifier, cookieOptions);
+            logger.debug('Using PKCE (S256) for this login');
+        } else {
+            url = oauthClient.createAuthorizationURL(auth_endpoint, encodedState, scopes);
+            event.cookies.delete('obp_oauth_code_verifier', { path: '/' });
+        }
+
+        oauthClient.applyAuthorizationParams(url);
+
+        // Bound into the ID token by the provider, checked in the callback
+        const nonce = generateState();
+        url.searchParams.set('nonce', nonce);
+        event.cookies.set('obp_oauth_nonce', nonce, cookieOptions);
+
+        event.cookies.set('obp_oauth_state', encodedState, cookieOptions);
 
         return new Response(null, {
             status: 302,
@@ -1,7 +1,8 @@
 import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('ProviderLoginCallback');
-import { oauth2ProviderFactory } from '../../../../hooks.server';
+import { oauth2ProviderFactory, oidcSessionIndex, obpClient } from '../../../../hooks.server';
 import type { OAuth2Tokens } from 'arctic';
+import type { OIDCUserClaims } from '$lib/server/oauth/types';
 import type { RequestEvent } from '@sveltejs/kit';
 import { error } from '@sveltejs/kit';
 import { env } from '$env/dynamic/public';
@@ -17,6 +18,8 @@ export async function GET(event: RequestEvent): Promise<Response> {
 		logger.warn(`OAuth error received: ${oauthError}`, errorDescription);
 
 		event.cookies.delete('obp_oauth_state', { path: '/' });
+		event.cookies.delete('obp_oauth_code_verifier', { path: '/' });
+		event.cookies.delete('obp_oauth_nonce', { path: '/' });
 
 		let userMessage = 'Authentication failed. Please try again.';
 
@@ -43,6 +46,8 @@ export async function GET(event: RequestEvent): Promise<Response> {
 	}
 
 	const storedState = event.cookies.get('obp_oauth_state');
+	const codeVerifier = event.cookies.get('obp_oauth_code_verifier') ?? null;
+	const nonce = event.cookies.get('obp_oauth_nonce');
 	const code = event.url.searchParams.get('code');
 	const recievedState = event.url.searchParams.get('state');
 
@@ -138,9 +143,21 @@ export async function GET(event: RequestEvent): Promise<Response> {
 		});
 	}
 
+	// The login route stores a verifier whenever it sent a PKCE challenge
+	if (oauthClient.supportsPKCE() && !codeVerifier) {
+		logger.error('PKCE code verifier cookie missing for provider:', provider);
+		event.cookies.delete('obp_oauth_state', { path: '/' });
+		return new Response(null, {
+			status: 302,
+			headers: {
+				Location: `/login?error=${encodeURIComponent('Session expired. Please try logging in again.')}`
+			}
+		});
+	}
+
 	let tokens: OAuth2Tokens;
 	try {
-		tokens = await oauthClient.validateAuthorizationCode(token_endpoint, code, null);
+		tokens = await oauthClient.validateAuthorizationCode(token_endpoint, code, codeVerifier);
 	} catch (e: any) {
 		logger.error('Error validating authorization code:', e);
 
@@ -148,6 +165,8 @@ export async function GET(event: RequestEvent): Promise<Response> {
 		logger.error('Token exchange error details:', errorMessage);
 
 		event.cookies.delete('obp_oauth_state', { path: '/' });
+		event.cookies.delete('obp_oauth_code_verifier', { path: '/' });
+		event.cookies.delete('obp_oauth_nonce', { path: '/' });
 
 		let userMessage = 'Authentication failed. Please try again.';
 		if (errorMessage.toLowerCase().includes('invalid') || errorMessage.toLowerCase().includes('expired')) {
@@ -163,11 +182,50 @@ export async function GET(event: RequestEvent): Promise<Response> {
 	}
 
 	event.cookies.delete('obp_oauth_state', { path: '/' });
+	event.cookies.delete('obp_oauth_code_verifier', { path: '/' });
+	event.cookies.delete('obp_oauth_nonce', { path: '/' });
+
+	// Tokens come straight from the token endpoint, but the ID token still has to be
+	// signed by the provider, issued for this client and bound to this login's nonce
+	const idToken = 'id_token' in tokens.data ? tokens.idToken() : undefined;
+	if (oauthClient.scopes.includes('openid') && (!idToken || !nonce)) {
+		logger.error(
+			`OpenID login for ${provider} is missing its ${idToken ? 'nonce cookie' : 'ID token'}`
+		);
+		return new Response(null, {
+			status: 302,
+			headers: {
+				Location: `/login?error=${encodeURIComponent('Security validation failed. Please try logging in again.')}`
+			}
+		});
+	}
+	let idTokenClaims: { sid?: string; sub?: string } | undefined;
+	let identity: OIDCUserClaims | undefined;
+	if (idToken) {
+		try {
+			const claims = await oauthClient.verifyIdToken(idToken, nonce);
+			idTokenClaims = claims;
+			identity = oauthClient.mapClaims(claims);
+			logger.debug(
+				`ID token verified for ${provider} user ${identity.userId} (${identity.username || identity.email || 'no username'})`
+			);
+		} catch (e) {
+			logger.error('ID token verification failed:', e);
+			return new Response(null, {
+				status: 302,
+				headers: {
+					Location: `/login?error=${encodeURIComponent('Security validation failed. Please try logging in again.')}`
+				}
+			});
+		}
+	} else {
+		logger.warn(`Provider ${provider} returned no ID token; skipping ID token verification`);
+	}
 
 	const obpAccessToken = tokens.accessToken();
 
 	logger.debug(`PUBLIC_OBP_BASE_URL from env: ${env.PUBLIC_OBP_BASE_URL}`);
-	const currentUserUrl = `${env.PUBLIC_OBP_BASE_URL}/obp/v5.1.0/users/current`;
+	const currentUserUrl = `${env.PUBLIC_OBP_BASE_URL}${obpClient.path('/users/current')}`;
 	logger.info('Fetching current user from OBP:', currentUserUrl);
 	const currentUserRequest = new Request(currentUserUrl);
 
@@ -182,6 +240,8 @@ export async function GET(event: RequestEvent): Promise<Response> {
 		);
 
 		event.cookies.delete('obp_oauth_state', { path: '/' });
+		event.cookies.delete('obp_oauth_code_verifier', { path: '/' });
+		event.cookies.delete('obp_oauth_nonce', { path: '/' });
 
 		return new Response(null, {
 			status: 302,
@@ -196,17 +256,33 @@ export async function GET(event: RequestEvent): Promise<Response> {
 	);
 	logger.debug('Full current user data:', user);
 
+	// OBP may not have the email or username yet (e.g. a first login through an external
+	// provider); show the provider's, read through its claim mapping
+	user.email ||= identity?.email;
+	user.username ||= identity?.username ?? identity?.name;
+
 	if (user.user_id) {
 		const { session } = event.locals;
 		await session.setData({
 			user: user,
 			oauth: {
 				access_token: obpAccessToken,
-				refresh_token: tokens.refreshToken(),
+				refresh_token: tokens.hasRefreshToken() ? tokens.refreshToken() : undefined,
+				access_token_expires_at:
+					'expires_in' in tokens.data ? tokens.accessTokenExpiresAt().getTime() : undefined,
+				id_token: idToken,
 				provider: provider
 			}
 		});
 		await session.save();
+		if (idTokenClaims) {
+			// Lets a back-channel logout from the provider find this session
+			try {
+				await oidcSessionIndex.add(provider, idTokenClaims, session.id);
+			} catch (e) {
+				logger.warn('Failed to index session for back-channel logout:', e);
+			}
+		}
 		logger.info(`Session created for user ${user.username || user.email} (${user.user_id}), session ID: ${session.id}, provider: ${provider}`);
 		return new Response(null, {
 			status: 302,
@@ -218,6 +294,8 @@ export async function GET(event: RequestEvent): Promise<Response> {
 		logger.error('Invalid user data received from OBP - missing user_id:', user);
 
 		event.cookies.delete('obp_oauth_state', { path: '/' });
+		event.cookies.delete('obp_oauth_code_verifier', { path: '/' });
+		event.cookies.delete('obp_oauth_nonce', { path: '/' });
 
 		return new Response(null, {
 			status: 302,
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import { OAuth2ClientWithConfig } from '$lib/server/oauth/client';
+import type { OpenIdConnectConfiguration } from '$lib/server/oauth/types';
+
+const providers = vi.hoisted(() => ({ clients: new Map<string, any>() }));
+
+vi.mock('../../../hooks.server', () => ({
+	oauth2ProviderFactory: {
+		getClient: (provider: string) => providers.clients.get(provider),
+		getAllClients: () => providers.clients
+	},
+	oidcSessionIndex: { add: async () => {} },
+	obpClient: { path: (endpoint: string) => `/obp/v5.1.0${endpoint}` }
+}));
+
+vi.mock('$env/dynamic/public', () => ({ env: { PUBLIC_OBP_BASE_URL: 'http://obp' } }));
+
+const login = await import('./+server');
+const callback = await import('./callback/+server');
+
+/** Just enough of SvelteKit's cookies to carry the login cookies over to the callback */
+function cookieJar() {
+	const values = new Map<string, string>();
+	return {
+		values,
+		get: (name: string) => values.get(name),
+		set: (name: string, value: string) => void values.set(name, value),
+		delete: (name: string) => void values.delete(name)
+	};
+}
+
+function event(url: string, cookies: ReturnType<typeof cookieJar>) {
+	const session = { id: 'session-1', data: {} as any, setData: vi.fn(), save: vi.fn() };
+	return {
+		url: new URL(url, 'http://portal'),
+		params: { provider: 'test' },
+		cookies,
+		locals: { session }
+	} as any;
+}
+
+describe('PKCE login round trip', () => {
+	let tokenRequests: URLSearchParams[];
+
+	beforeEach(() => {
+		// A public client without openid in scope, so there's no ID token to verify
+		const client = new OAuth2ClientWithConfig(
+			'portal',
+			'',
+			'http://portal/login/test/callback',
+			'test',
+			{ scopes: ['email'] }
+		);
+		client.OIDCConfig = {
+			issuer: 'http://idp',
+			authorization_endpoint: 'http://idp/authorize',
+			token_endpoint: 'http://idp/token',
+			code_challenge_methods_supported: ['S256']
+		} as OpenIdConnectConfiguration;
+		providers.clients.set('test', client);
+
+		tokenRequests = [];
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+				const url = input instanceof Request ? input.url : input.toString();
+				if (url === 'http://idp/token') {
+					tokenRequests.push(new URLSearchParams(init!.body as string));
+					return Response.json({ access_token: 'access', token_type: 'Bearer', expires_in: 300 });
+				}
+				return Response.json({ user_id: 'user-1', email: 'user@example.com', username: 'user' });
+			})
+		);
+	});
+
+	afterEach(() => {
+		providers.clients.clear();
+		vi.unstubAllGlobals();
+	});
+
+	it('sends the challenge at login and its verifier with the code', async () => {
+		const cookies = cookieJar();
+		const redirect = login.GET(event('/login/test', cookies));
+
+		const authorizationUrl = new URL(redirect.headers.get('Location')!);
+		const verifier = cookies.get('obp_oauth_code_verifier')!;
+		expect(authorizationUrl.searchParams.get('code_challenge_method')).toBe('S256');
+		expect(authorizationUrl.searchParams.get('code_challenge')).toBe(
+			createHash('sha256').update(verifier).digest('base64url')
+		);
+
+		const state = authorizationUrl.searchParams.get('state')!;
+		const response = await callback.GET(
+			event(`/login/test/callback?code=abc&state=${encodeURIComponent(state)}`, cookies)
+		);
+
+		expect(response.headers.get('Location')).toBe('/');
+		expect(tokenRequests).toHaveLength(1);
+		expect(tokenRequests[0].get('code_verifier')).toBe(verifier);
+		expect(cookies.values.has('obp_oauth_code_verifier')).toBe(false);
+	});
+
+	it('rejects a callback whose verifier cookie is gone', async () => {
+		const cookies = cookieJar();
+		const redirect = login.GET(event('/login/test', cookies));
+		const state = new URL(redirect.headers.get('Location')!).searchParams.get('state')!;
+		cookies.delete('obp_oauth_code_verifier');
+
+		const response = await callback.GET(
+			event(`/login/test/callback?code=abc&state=${encodeURIComponent(state)}`, cookies)
+		);
+
+		expect(response.headers.get('Location')).toMatch(/^\/login\?error=/);
+		expect(tokenRequests).toEqual([]);
+	});
+
+	it('rejects an OpenID login that returns no ID token', async () => {
+		(providers.clients.get('test').scopes as string[]).push('openid');
+		const cookies = cookieJar();
+		const redirect = login.GET(event('/login/test', cookies));
+		const state = new URL(redirect.headers.get('Location')!).searchParams.get('state')!;
+
+		const response = await callback.GET(
+			event(`/login/test/callback?code=abc&state=${encodeURIComponent(state)}`, cookies)
+		);
+
+		expect(response.headers.get('Location')).toMatch(/^\/login\?error=/);
+		expect(tokenRequests).toHaveLength(1);
+	});
+});
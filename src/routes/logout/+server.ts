@@ -1,6 +1,8 @@
 import { createLogger } from '$lib/utils/logger';
 const logger = createLogger('LogoutServer');
+import { env } from '$env/dynamic/private';
 import { sessionOAuthHelper } from '../../hooks.server';
+import { revokeSessionGrants } from './endSession';
 import type { RequestEvent } from '@sveltejs/kit';
 
 export async function GET(event: RequestEvent): Promise<Response> {
@@ -26,9 +28,9 @@ export async function GET(event: RequestEvent): Promise<Response> {
 		});
 	}
 
-	// Get the access token before destroying session
-	const accessToken = session.data.oauth?.access_token;
-	const userId = session.data.user.user_id;
+	// Revoke Opey consents and the access token while the token is still valid
+	const sessionData = session.data;
+	await revokeSessionGrants(session.id, sessionData, sessionOAuth.client);
 
 	// Clear the session cookie and destroy the session
 	event.cookies.delete('obp-portal-connect.sid', {
@@ -36,53 +38,21 @@ export async function GET(event: RequestEvent): Promise<Response> {
 	});
 	await session.destroy();
 
-	// Try to revoke the access token if it exists and revocation endpoint is available
-	const tokenRevokationUrl = sessionOAuth.client.OIDCConfig?.revocation_endpoint;
-	if (accessToken && tokenRevokationUrl) {
-		try {
-			logger.info('Revoking access token for user:', userId);
-
-			const response = await fetch(tokenRevokationUrl, {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/x-www-form-urlencoded',
-					Authorization: `Bearer ${accessToken}`
-				},
-				body: new URLSearchParams({
-					token: accessToken,
-					token_type_hint: 'access_token'
-				})
-			});
-
-			if (response.ok) {
-				logger.info('Successfully revoked access token for user:', userId);
-			} else {
-				const responseText = await response.text();
-				logger.error(`Token revocation failed for user: ${userId}`, {
-					status: response.status,
-					statusText: response.statusText,
-					endpoint: tokenRevokationUrl,
-					responseBody: responseText
-				});
-			}
-		} catch (error) {
-			logger.error('Error during token revocation for user:', userId, error);
-			// Continue with logout even if revocation fails
-		}
-	} else {
-		if (!accessToken) {
-			logger.warn('No access token found in session, skipping revocation.');
-		}
-		if (!tokenRevokationUrl) {
-			logger.warn('No revocation endpoint configured, skipping token revocation.');
-		}
+	// RP-initiated logout: end the session at the provider too, which sends the
+	// browser back to post_logout_redirect_uri
+	const postLogoutRedirectUri = env.OAUTH_POST_LOGOUT_REDIRECT_URI || `${event.url.origin}/`;
+	const endSessionUrl = sessionOAuth.client.createEndSessionURL(
+		sessionData.oauth?.id_token,
+		postLogoutRedirectUri
+	);
+	if (endSessionUrl) {
+		logger.info(`Redirecting to ${sessionOAuth.provider} end_session_endpoint`);
 	}
 
-	// Redirect to the home page after logout
 	return new Response(null, {
 		status: 302,
 		headers: {
-			Location: `/`
+			Location: endSessionUrl?.toString() ?? '/'
 		}
 	});
 }
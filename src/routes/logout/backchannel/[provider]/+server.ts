@@ -0,0 +1,82 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('BackchannelLogout');
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { oauth2ProviderFactory, oidcSessionIndex, sessionStore } from '../../../../hooks.server';
+import { revokeSessionGrants } from '../../endSession';
+
+/** The logout_token from the provider's form body, or a JSON one */
+async function readLogoutToken(request: Request): Promise<string | null> {
+	try {
+		const body = request.headers.get('content-type')?.startsWith('application/json')
+			? await request.json()
+			: Object.fromEntries(await request.formData());
+		return typeof body?.logout_token === 'string' ? body.logout_token : null;
+	} catch {
+		// Unreadable body, handled by the caller
+		return null;
+	}
+}
+
+/**
+ * OIDC Back-Channel Logout: the provider posts a signed logout token here (register
+ * {ORIGIN}/logout/backchannel/{provider} as the client's backchannel_logout_uri), and
+ * every session it names by sid or sub is revoked and destroyed.
+ */
+export async function POST(event: RequestEvent): Promise<Response> {
+	const { provider } = event.params;
+	const noStore = { 'Cache-Control': 'no-store' };
+
+	const client = provider ? oauth2ProviderFactory.getClient(provider) : undefined;
+	if (!provider || !client) {
+		logger.warn(`Back-channel logout for unknown provider "${provider}"`);
+		return json({ error: 'invalid_request' }, { status: 400, headers: noStore });
+	}
+
+	const logoutToken = await readLogoutToken(event.request);
+	if (!logoutToken) {
+		logger.warn(`Back-channel logout from ${provider} without a logout_token`);
+		return json({ error: 'invalid_request' }, { status: 400, headers: noStore });
+	}
+
+	let claims;
+	try {
+		claims = await client.verifyLogoutToken(logoutToken);
+	} catch (error) {
+		logger.warn(`Rejected back-channel logout token from ${provider}:`, error);
+		return json(
+			{ error: 'invalid_request', error_description: 'Invalid logout token' },
+			{ status: 400, headers: noStore }
+		);
+	}
+
+	if (!(await oidcSessionIndex.claimLogoutToken(provider, claims.jti!))) {
+		logger.warn(`Replayed back-channel logout token ${claims.jti} from ${provider}`);
+		return json(
+			{ error: 'invalid_request', error_description: 'Logout token already used' },
+			{ status: 400, headers: noStore }
+		);
+	}
+
+	const ref = { sid: claims.sid, sub: claims.sub };
+	const sessionIds = await oidcSessionIndex.find(provider, ref);
+	logger.info(
+		`Back-channel logout from ${provider} for ${ref.sid ? `sid ${ref.sid}` : `sub ${ref.sub}`}: ${sessionIds.length} session(s)`
+	);
+
+	for (const sessionId of sessionIds) {
+		try {
+			const stored = await sessionStore.get(sessionId);
+			if (stored?.data) {
+				await revokeSessionGrants(sessionId, stored.data, client);
+			}
+			await sessionStore.destroy(sessionId);
+			await oidcSessionIndex.remove(provider, ref, sessionId);
+			logger.info(`Destroyed session ${sessionId} after back-channel logout`);
+		} catch (error) {
+			logger.error(`Failed to end session ${sessionId} after back-channel logout:`, error);
+		}
+	}
+
+	return new Response(null, { status: 200, headers: noStore });
+}
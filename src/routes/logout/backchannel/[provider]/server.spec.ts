@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { OAuth2ClientWithConfig } from '$lib/server/oauth/client';
+import { OIDCTokenVerifier } from '$lib/server/oauth/tokenVerifier';
+import { RedisOIDCSessionIndex } from '$lib/server/oauth/sessionIndex';
+import { originCheckHandle } from '$lib/server/oauth/originCheck';
+import { FakeRedis, fakeRedisService } from '$lib/server/testing/FakeRedis';
+import { createSigningKey, type TestSigningKey } from '$lib/server/testing/signingKey';
+import type { OpenIdConnectConfiguration } from '$lib/server/oauth/types';
+
+const portal = vi.hoisted(() => ({
+	clients: new Map<string, any>(),
+	sessionIndex: undefined as any,
+	sessions: new Map<string, any>(),
+	revoked: [] as string[]
+}));
+
+vi.mock('../../../../hooks.server', () => ({
+	oauth2ProviderFactory: { getClient: (provider: string) => portal.clients.get(provider) },
+	get oidcSessionIndex() {
+		return portal.sessionIndex;
+	},
+	sessionStore: {
+		get: async (id: string) => portal.sessions.get(id),
+		destroy: async (id: string) => void portal.sessions.delete(id)
+	}
+}));
+
+vi.mock('../../endSession', () => ({
+	revokeSessionGrants: async (sessionId: string) => void portal.revoked.push(sessionId)
+}));
+
+const { POST } = await import('./+server');
+
+const config = {
+	issuer: 'https://idp.example.com',
+	jwks_uri: 'https://idp.example.com/jwks',
+	id_token_signing_alg_values_supported: ['RS256']
+} as OpenIdConnectConfiguration;
+
+function event(
+	body: BodyInit,
+	contentType = 'application/json',
+	provider = 'idp',
+	headers: Record<string, string> = {}
+) {
+	const url = new URL(`http://portal/logout/backchannel/${provider}`);
+	const request = new Request(url, {
+		method: 'POST',
+		headers: { 'Content-Type': contentType, ...headers },
+		body
+	});
+	return { request, url, params: { provider } } as any;
+}
+
+describe('/logout/backchannel/[provider]', () => {
+	let key: TestSigningKey;
+
+	beforeAll(async () => {
+		key = await createSigningKey();
+	});
+
+	beforeEach(async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => Response.json({ keys: [key.jwk] }))
+		);
+		const client = new OAuth2ClientWithConfig('portal', 'secret', 'http://portal/cb', 'idp');
+		client.OIDCConfig = config;
+		client.tokenVerifier = new OIDCTokenVerifier(config, 'portal');
+		portal.clients.set('idp', client);
+
+		portal.sessionIndex = new RedisOIDCSessionIndex({
+			redisService: fakeRedisService(new FakeRedis())
+		});
+		portal.sessions = new Map([
+			['session-1', { data: { user: { user_id: 'alice' } } }],
+			['session-2', { data: { user: { user_id: 'alice' } } }]
+		]);
+		portal.revoked = [];
+		await portal.sessionIndex.add('idp', { sid: 'sid-1', sub: 'alice' }, 'session-1');
+		await portal.sessionIndex.add('idp', { sid: 'sid-2', sub: 'alice' }, 'session-2');
+	});
+
+	afterEach(() => {
+		portal.clients.clear();
+		vi.unstubAllGlobals();
+	});
+
+	function logoutToken(claims: Record<string, unknown> = {}) {
+		return key.sign({
+			iss: config.issuer,
+			aud: 'portal',
+			iat: Math.floor(Date.now() / 1000),
+			jti: 'jti-1',
+			sid: 'sid-1',
+			events: { 'http://schemas.openid.net/event/backchannel-logout': {} },
+			...claims
+		});
+	}
+
+	it('ends the sessions of the login named by the logout token', async () => {
+		const response = await POST(event(JSON.stringify({ logout_token: await logoutToken() })));
+
+		expect(response.status).toBe(200);
+		expect(portal.revoked).toEqual(['session-1']);
+		expect([...portal.sessions.keys()]).toEqual(['session-2']);
+		expect(await portal.sessionIndex.find('idp', { sid: 'sid-1' })).toEqual([]);
+	});
+
+	it('reads the token from a form body too', async () => {
+		const body = new URLSearchParams({
+			logout_token: await logoutToken({ sid: undefined, sub: 'alice' })
+		});
+
+		const response = await POST(event(body, 'application/x-www-form-urlencoded'));
+
+		expect(response.status).toBe(200);
+		expect(portal.sessions.size).toBe(0);
+	});
+
+	it("lets the provider's cross-site form post through the origin check", async () => {
+		const body = new URLSearchParams({ logout_token: await logoutToken() });
+		const handle = originCheckHandle();
+
+		const response = await handle({
+			event: event(body, 'application/x-www-form-urlencoded', 'idp', {
+				Origin: 'https://idp.example.com'
+			}),
+			resolve: (e) => POST(e as any)
+		});
+
+		expect(response.status).toBe(200);
+		expect(portal.revoked).toEqual(['session-1']);
+	});
+
+	it('rejects a replayed logout token', async () => {
+		const body = JSON.stringify({ logout_token: await logoutToken() });
+		await POST(event(body));
+		portal.sessions.set('session-3', { data: {} });
+		await portal.sessionIndex.add('idp', { sid: 'sid-1' }, 'session-3');
+
+		const replay = await POST(event(body));
+
+		expect(replay.status).toBe(400);
+		expect(portal.sessions.has('session-3')).toBe(true);
+	});
+
+	it.each([
+		[
+			'an unknown provider',
+			async () =>
+				event(JSON.stringify({ logout_token: await logoutToken() }), 'application/json', 'nope')
+		],
+		['no logout token', async () => event(JSON.stringify({}))],
+		[
+			'a token for another client',
+			async () => event(JSON.stringify({ logout_token: await logoutToken({ aud: 'x' }) }))
+		]
+	])('rejects a request with %s', async (_, request) => {
+		const response = await POST(await request());
+
+		expect(response.status).toBe(400);
+		expect(portal.sessions.size).toBe(2);
+	});
+});
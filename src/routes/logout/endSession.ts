@@ -0,0 +1,93 @@
+import { createLogger } from '$lib/utils/logger';
+const logger = createLogger('EndSession');
+import { env } from '$env/dynamic/private';
+import { jwtDecode } from 'jwt-decode';
+import type { SessionData } from 'svelte-kit-sessions';
+import type { OAuth2ClientWithConfig } from '$lib/server/oauth/client';
+import { DefaultOBPIntegrationService } from '$lib/server/obp/OBPIntegrationService';
+import { obpClient, oidcSessionIndex } from '../../hooks.server';
+import { consentPolicy, roleConsentManager } from '../api/opey/consent/roleConsents';
+
+/**
+ * Revoke what a session granted, while its access token is still valid: Opey's role
+ * consents and general consent, then the access token itself. Also drops the session
+ * from the back-channel logout index. Failures are logged; logout carries on regardless.
+ */
+export async function revokeSessionGrants(
+	sessionId: string,
+	data: SessionData,
+	client: OAuth2ClientWithConfig | undefined
+): Promise<void> {
+	const accessToken = data.oauth?.access_token;
+	const userId = data.user?.user_id;
+
+	if (accessToken && userId) {
+		try {
+			await roleConsentManager.revokeAll(userId, accessToken);
+		} catch (error) {
+			logger.error('Error revoking Opey role consents for user:', userId, error);
+		}
+	}
+
+	if (accessToken && env.OPEY_CONSUMER_ID) {
+		try {
+			await new DefaultOBPIntegrationService(
+				env.OPEY_CONSUMER_ID,
+				obpClient,
+				consentPolicy.defaultTimeToLiveSeconds
+			).revokeOpeyConsents(accessToken);
+		} catch (error) {
+			logger.error('Error revoking Opey consents for user:', userId, error);
+		}
+	}
+
+	if (data.oauth?.provider && data.oauth.id_token) {
+		try {
+			const { sid, sub } = jwtDecode<{ sid?: string; sub?: string }>(data.oauth.id_token);
+			await oidcSessionIndex.remove(data.oauth.provider, { sid, sub }, sessionId);
+		} catch (error) {
+			logger.warn('Error removing session from the OIDC session index:', error);
+		}
+	}
+
+	// Try to revoke the access token if it exists and revocation endpoint is available
+	const tokenRevokationUrl = client?.OIDCConfig?.revocation_endpoint;
+	if (accessToken && tokenRevokationUrl) {
+		try {
+			logger.info('Revoking access token for user:', userId);
+
+			const response = await fetch(tokenRevokationUrl, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/x-www-form-urlencoded',
+					Authorization: `Bearer ${accessToken}`
+				},
+				body: new URLSearchParams({
+					token: accessToken,
+					token_type_hint: 'access_token'
+				})
+			});
+
+			if (response.ok) {
+				logger.info('Successfully revoked access token for user:', userId);
+			} else {
+				const responseText = await response.text();
+				logger.error(`Token revocation failed for user: ${userId}`, {
+					status: response.status,
+					statusText: response.statusText,
+					endpoint: tokenRevokationUrl,
+					responseBody: responseText
+				});
+			}
+		} catch (error) {
+			logger.error('Error during token revocation for user:', userId, error);
+		}
+	} else {
+		if (!accessToken) {
+			logger.warn('No access token found in session, skipping revocation.');
+		}
+		if (!tokenRevokationUrl) {
+			logger.warn('No revocation endpoint configured, skipping token revocation.');
+		}
+	}
+}
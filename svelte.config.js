@@ -6,7 +6,12 @@ const config = {
 		// adapter-auto only supports some environments, see https://svelte.dev/docs/kit/adapter-auto for a list.
 		// If your environment is not supported, or you settled on a specific environment, switch out the adapter.
 		// See https://svelte.dev/docs/kit/adapters for more information about adapters.
-		adapter: adapter()
+		adapter: adapter(),
+		// Enforced by originCheckHandle in hooks.server.ts instead, which lets identity
+		// providers post back-channel logout tokens and rejects every other cross-site form
+		csrf: {
+			trustedOrigins: ['*']
+		}
 	}
 };
 
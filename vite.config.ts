@@ -33,10 +33,26 @@ export default defineConfig({
 	},
 	plugins: [tailwindcss(), sveltekit()],
 	test: {
-		environment: 'jsdom',
-		include: ['src/**/*.{test,spec}.{js,ts}'],
-		exclude: ['src/lib/server/**'],
-		setupFiles: ['src/test-setup.ts']
+		projects: [
+			{
+				extends: true,
+				test: {
+					name: 'client',
+					environment: 'jsdom',
+					include: ['src/**/*.{test,spec}.{js,ts}'],
+					exclude: ['src/lib/server/**'],
+					setupFiles: ['src/test-setup.ts']
+				}
+			},
+			{
+				extends: true,
+				test: {
+					name: 'server',
+					environment: 'node',
+					include: ['src/lib/server/**/*.{test,spec}.{js,ts}']
+				}
+			}
+		]
 	},
 	resolve: {
 		conditions: ['browser']